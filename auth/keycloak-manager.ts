@@ -1,5 +1,5 @@
 // Keycloak Authentication Manager
-// Handles browser-based OAuth flow for HokiPoki CLI
+// Handles browser-based (PKCE) and device-code OAuth flows for HokiPoki CLI
 
 import crypto from 'crypto';
 import * as fs from 'fs/promises';
@@ -8,12 +8,11 @@ import http from 'http';
 import { URL } from 'url';
 import chalk from 'chalk';
 import jwt from 'jsonwebtoken';
+import { ConfigManager } from '../config/config-manager';
+import { ProfileManager } from '../config/profile-manager';
 
-// Configuration (can be overridden via environment variables)
-const KEYCLOAK_ISSUER = process.env.HOKIPOKI_KEYCLOAK_ISSUER
-  || 'https://auth.hoki-poki.ai/realms/hokipoki';
-const KEYCLOAK_CLIENT_ID = process.env.HOKIPOKI_CLIENT_ID
-  || 'hokipoki-cli'; // CLI uses public client (no secret required)
+// Issuer and client ID come from config (keycloakIssuer / clientId)
+// CLI uses public client (no secret required)
 const REDIRECT_URI = 'http://localhost:3333/callback';
 const CALLBACK_PORT = 3333;
 
@@ -38,13 +37,18 @@ export class KeycloakManager {
   private tunnelConfigPath: string;
   private encryptionKey: Buffer;
   private backendUrl: string;
-
-  constructor() {
-    const homeDir = process.env.HOME || process.env.USERPROFILE || '';
-    this.tokenStorePath = path.join(homeDir, '.hokipoki', 'keycloak_token.enc');
-    this.tunnelConfigPath = path.join(homeDir, '.hokipoki', 'tunnel_config.enc');
+  private issuer: string;
+  private clientId: string;
+
+  constructor(profile?: string) {
+    const config = new ConfigManager();
+    const profileDir = new ProfileManager().getProfileDir(profile);
+    this.tokenStorePath = path.join(profileDir, 'keycloak_token.enc');
+    this.tunnelConfigPath = path.join(profileDir, 'tunnel_config.enc');
     this.encryptionKey = this.loadOrCreateEncryptionKey();
-    this.backendUrl = process.env.BACKEND_URL || 'https://api.hoki-poki.ai';
+    this.backendUrl = config.getBackendUrl();
+    this.issuer = config.get('keycloakIssuer')!;
+    this.clientId = config.get('clientId')!;
   }
 
   private loadOrCreateEncryptionKey(): Buffer {
@@ -66,10 +70,22 @@ export class KeycloakManager {
     }
   }
 
+  /**
+   * Log in via browser (PKCE) or, with `device`, the headless device authorization grant
+   */
+  async login(options: { device?: boolean } = {}): Promise<void> {
+    if (options.device) {
+      await this.loginWithDevice();
+    } else {
+      await this.loginWithBrowser();
+    }
+    await this.completeLogin();
+  }
+
   /**
    * Initiate browser-based OAuth login flow
    */
-  async login(): Promise<void> {
+  private async loginWithBrowser(): Promise<void> {
     console.log(chalk.cyan('\n🔐 Opening browser for Keycloak authentication...'));
 
     // Generate PKCE code verifier and challenge
@@ -78,8 +94,8 @@ export class KeycloakManager {
 
     // Build authorization URL
     const state = crypto.randomBytes(16).toString('hex');
-    const authUrl = new URL(`${KEYCLOAK_ISSUER}/protocol/openid-connect/auth`);
-    authUrl.searchParams.set('client_id', KEYCLOAK_CLIENT_ID);
+    const authUrl = new URL(`${this.issuer}/protocol/openid-connect/auth`);
+    authUrl.searchParams.set('client_id', this.clientId);
     authUrl.searchParams.set('redirect_uri', REDIRECT_URI);
     authUrl.searchParams.set('response_type', 'code');
     authUrl.searchParams.set('scope', 'openid email profile');
@@ -92,7 +108,115 @@ export class KeycloakManager {
 
     // Exchange authorization code for tokens
     await this.exchangeCodeForTokens(authorizationCode, codeVerifier);
+  }
+
+  /**
+   * Headless login using the OAuth 2.0 device authorization grant (RFC 8628)
+   * For SSH sessions and CI runners where no local browser/callback is available
+   */
+  private async loginWithDevice(): Promise<void> {
+    const deviceUrl = `${this.issuer}/protocol/openid-connect/auth/device`;
+
+    const params = new URLSearchParams();
+    params.set('client_id', this.clientId);
+    params.set('scope', 'openid email profile');
+
+    const response = await fetch(deviceUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: params.toString(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Device authorization failed: ${errorText}`);
+    }
+
+    const device = await response.json() as {
+      device_code: string;
+      user_code: string;
+      verification_uri: string;
+      verification_uri_complete?: string;
+      expires_in: number;
+      interval?: number;
+    };
+
+    console.log(chalk.cyan('\n🔐 To log in, open this URL on any device:\n'));
+    console.log(chalk.bold(`   ${device.verification_uri}`));
+    console.log(chalk.cyan('\n   and enter the code:\n'));
+    console.log(chalk.bold.yellow(`   ${device.user_code}\n`));
+    if (device.verification_uri_complete) {
+      console.log(chalk.gray(`   Or open directly: ${device.verification_uri_complete}\n`));
+    }
+    console.log(chalk.gray('⏳ Waiting for authorization...'));
+
+    await this.pollDeviceToken(device.device_code, device.interval || 5, device.expires_in);
+  }
+
+  /**
+   * Poll the token endpoint until the user approves the device code
+   */
+  private async pollDeviceToken(deviceCode: string, intervalSeconds: number, expiresIn: number): Promise<void> {
+    const tokenUrl = `${this.issuer}/protocol/openid-connect/token`;
+    const deadline = Date.now() + expiresIn * 1000;
+    let interval = intervalSeconds;
+
+    const params = new URLSearchParams();
+    params.set('grant_type', 'urn:ietf:params:oauth:grant-type:device_code');
+    params.set('client_id', this.clientId);
+    params.set('device_code', deviceCode);
+
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, interval * 1000));
+
+      const response = await fetch(tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: params.toString(),
+      });
+
+      const data = await response.json() as {
+        access_token?: string;
+        refresh_token?: string;
+        id_token?: string;
+        expires_in?: number;
+        error?: string;
+        error_description?: string;
+      };
+
+      if (response.ok && data.access_token) {
+        await this.storeToken({
+          access_token: data.access_token,
+          refresh_token: data.refresh_token!,
+          id_token: data.id_token,
+          expires_at: new Date(Date.now() + (data.expires_in || 300) * 1000),
+        });
+        return;
+      }
+
+      switch (data.error) {
+        case 'authorization_pending':
+          continue;
+        case 'slow_down':
+          // RFC 8628: increase the polling interval by 5 seconds
+          interval += 5;
+          continue;
+        case 'access_denied':
+          throw new Error('Authorization was denied');
+        case 'expired_token':
+          throw new Error('Device code expired. Please run: hokipoki login --device');
+        default:
+          throw new Error(`Device login failed: ${data.error_description || data.error || response.statusText}`);
+      }
+    }
 
+    throw new Error('Device code expired. Please run: hokipoki login --device');
+  }
+
+  /**
+   * Verify the freshly stored token belongs to a verified account
+   */
+  private async completeLogin(): Promise<void> {
     const userEmail = await this.getUserEmail();
 
     // Check if email is verified
@@ -480,11 +604,11 @@ export class KeycloakManager {
    * Exchange authorization code for tokens
    */
   private async exchangeCodeForTokens(code: string, codeVerifier: string): Promise<void> {
-    const tokenUrl = `${KEYCLOAK_ISSUER}/protocol/openid-connect/token`;
+    const tokenUrl = `${this.issuer}/protocol/openid-connect/token`;
 
     const params = new URLSearchParams();
     params.set('grant_type', 'authorization_code');
-    params.set('client_id', KEYCLOAK_CLIENT_ID);
+    params.set('client_id', this.clientId);
     params.set('code', code);
     params.set('redirect_uri', REDIRECT_URI);
     params.set('code_verifier', codeVerifier);
@@ -578,6 +702,14 @@ export class KeycloakManager {
     }
   }
 
+  /**
+   * Expiry of the stored access token (null when not logged in)
+   */
+  async getTokenExpiry(): Promise<Date | null> {
+    const token = await this.loadToken();
+    return token ? token.expires_at : null;
+  }
+
   /**
    * Get valid access token (auto-refresh if expired)
    */
@@ -604,11 +736,11 @@ export class KeycloakManager {
    * Refresh access token using refresh token
    */
   private async refreshToken(refreshToken: string): Promise<void> {
-    const tokenUrl = `${KEYCLOAK_ISSUER}/protocol/openid-connect/token`;
+    const tokenUrl = `${this.issuer}/protocol/openid-connect/token`;
 
     const params = new URLSearchParams();
     params.set('grant_type', 'refresh_token');
-    params.set('client_id', KEYCLOAK_CLIENT_ID);
+    params.set('client_id', this.clientId);
     params.set('refresh_token', refreshToken);
 
     try {
@@ -673,9 +805,9 @@ export class KeycloakManager {
 
       if (token && token.id_token) {
         // Call Keycloak's end_session_endpoint to terminate server-side session
-        const logoutUrl = `${KEYCLOAK_ISSUER}/protocol/openid-connect/logout`;
+        const logoutUrl = `${this.issuer}/protocol/openid-connect/logout`;
         const params = new URLSearchParams();
-        params.set('client_id', KEYCLOAK_CLIENT_ID);
+        params.set('client_id', this.clientId);
         params.set('id_token_hint', token.id_token);
 
         try {
@@ -1,5 +1,5 @@
 // OAuth Manager for AI CLI Authentication
-// Handles browser-based OAuth flow for various AI tools
+// Runs each AI tool's auth flow as declared by its adapter (config/cli-tools.ts)
 
 // import express from 'express'; // Will be used when OAuth server is implemented
 import crypto from 'crypto';
@@ -8,6 +8,8 @@ import * as path from 'path';
 // import { exec } from 'child_process'; // Will be used when OAuth server is implemented
 // import { promisify } from 'util'; // Will be used when OAuth server is implemented
 import chalk from 'chalk';
+import { ProfileManager } from '../config/profile-manager';
+import { ToolAdapter, ToolAuth, getToolAdapter, getToolNames, getToolRegistry } from '../config/cli-tools';
 
 interface OAuthToken {
   tool: string;
@@ -47,9 +49,8 @@ export class OAuthManager {
   // private server?: any; // Will be used when OAuth server is implemented
 
   constructor() {
-    // Store tokens in user's home directory
-    const homeDir = process.env.HOME || process.env.USERPROFILE || '';
-    this.tokenStorePath = path.join(homeDir, '.hokipoki', 'tokens.enc');
+    // Store tokens in the active profile's directory (~/.hokipoki for the default profile)
+    this.tokenStorePath = path.join(new ProfileManager().getProfileDir(), 'tokens.enc');
 
     // Generate or load encryption key
     this.encryptionKey = this.loadOrCreateEncryptionKey();
@@ -77,138 +78,90 @@ export class OAuthManager {
   }
 
   /**
-   * Initiate OAuth flow for a specific tool
+   * Run the tool's auth flow as declared by its adapter
    */
   async authenticate(tool: string): Promise<OAuthToken> {
-    console.log(chalk.cyan(`\n🔐 Authenticating ${tool}...`));
-
-    if (tool === 'claude') {
-      // Use real Claude CLI authentication
-      return await this.authenticateClaude(tool);
-    } else if (tool === 'codex') {
-      // For Codex, just read from existing auth file (user must run `codex login` manually first)
-      return await this.authenticateCodexFromFile();
-    } else if (tool === 'gemini') {
-      // For Gemini, read from existing OAuth file (user must have authenticated via Gemini CLI)
-      return await this.authenticateGeminiFromFile();
-    } else {
-      // For other tools, simulate for now
-      console.log(chalk.gray('Opening browser for authentication...'));
-      await this.simulateOAuthFlow(tool);
-
-      const token: OAuthToken = {
-        tool,
-        accessToken: this.generateMockToken(tool),
-        refreshToken: this.generateMockToken(tool + '-refresh'),
-        expiresAt: new Date(Date.now() + 3600 * 1000),
-        encryptedAt: new Date()
-      };
-
-      await this.storeToken(token);
-      console.log(chalk.green(`✅ ${tool} authenticated successfully`));
-      return token;
-    }
-  }
+    const adapter = this.getAdapter(tool);
+    const auth = adapter.auth || { type: 'none' as const };
 
-  /**
-   * Authenticate Codex by running `codex login` which opens browser
-   * Then read the resulting token from ~/.codex/auth.json
-   */
-  private async authenticateCodexFromFile(): Promise<OAuthToken> {
-    console.log(chalk.cyan(`\n🔐 Authenticating codex...`));
-    console.log(chalk.gray('This will open your browser for OpenAI authentication.\n'));
-
-    const { spawn } = require('child_process');
-
-    // Run `codex login` which triggers browser-based OAuth
-    const codexProcess = spawn('codex', ['login'], {
-      stdio: 'inherit'  // Show codex's output to user
-    });
-
-    await new Promise((resolve, reject) => {
-      codexProcess.on('close', (code: number) => {
-        if (code === 0) resolve(code);
-        else reject(new Error(`codex login exited with code ${code}`));
-      });
-      codexProcess.on('error', (err: Error) => {
-        reject(new Error(`Failed to run 'codex login': ${err.message}. Is codex installed?`));
-      });
-    });
+    console.log(chalk.cyan(`\n🔐 Authenticating ${tool}...`));
 
-    // Now read the token from file
-    const token = this.readCodexTokenSilently();
-    if (!token) {
-      throw new Error('Failed to get Codex token after authentication');
+    switch (auth.type) {
+      case 'setup-token':
+        return await this.authenticateWithSetupToken(tool, auth);
+      case 'file':
+        return await this.authenticateFromFile(tool, auth);
+      case 'env': {
+        const token = this.readSourceToken(adapter);
+        if (!token) {
+          throw new Error(`${auth.variable} is not set. Export it before registering ${tool}`);
+        }
+        console.log(chalk.green(`✅ ${tool} will use ${auth.variable} from your environment`));
+        return token;
+      }
+      default:
+        console.log(chalk.gray(`${tool} needs no credentials`));
+        return this.noCredentialToken(tool);
     }
-
-    // Store in cache
-    await this.storeToken(token);
-
-    console.log(chalk.green(`✅ Codex authenticated successfully`));
-    return token;
   }
 
   /**
-   * Authenticate Gemini by running `gemini` which opens browser for Google OAuth
-   * Then read the resulting token from ~/.gemini/oauth_creds.json
+   * Run the tool's own login (e.g. `codex login`, which opens the browser),
+   * then read the resulting credential file (e.g. ~/.codex/auth.json)
    */
-  private async authenticateGeminiFromFile(): Promise<OAuthToken> {
-    console.log(chalk.cyan(`\n🔐 Authenticating gemini...`));
-    console.log(chalk.gray('This will open your browser for Google authentication.\n'));
+  private async authenticateFromFile(tool: string, auth: Extract<ToolAuth, { type: 'file' }>): Promise<OAuthToken> {
+    console.log(chalk.gray(`This will open your browser for ${tool} authentication.\n`));
 
     const { spawn } = require('child_process');
+    const commandLine = [auth.command, ...auth.args].join(' ');
 
-    // Run `gemini` which triggers Google OAuth login
-    const geminiProcess = spawn('gemini', [], {
-      stdio: 'inherit'  // Show gemini's output to user
+    const loginProcess = spawn(auth.command, auth.args, {
+      stdio: 'inherit'  // Show the tool's output to user
     });
 
     await new Promise((resolve, reject) => {
-      geminiProcess.on('close', (code: number) => {
+      loginProcess.on('close', (code: number) => {
         if (code === 0) resolve(code);
-        else reject(new Error(`gemini exited with code ${code}`));
+        else reject(new Error(`${commandLine} exited with code ${code}`));
       });
-      geminiProcess.on('error', (err: Error) => {
-        reject(new Error(`Failed to run 'gemini': ${err.message}. Is gemini CLI installed?`));
+      loginProcess.on('error', (err: Error) => {
+        reject(new Error(`Failed to run '${commandLine}': ${err.message}. Is ${tool} installed?`));
       });
     });
 
     // Now read the token from file
-    const token = this.readGeminiTokenSilently();
+    const token = this.readSourceToken(this.getAdapter(tool));
     if (!token) {
-      throw new Error('Failed to get Gemini token after authentication');
+      throw new Error(`Failed to get ${tool} token after authentication`);
     }
 
     // Store in cache
     await this.storeToken(token);
 
-    console.log(chalk.green(`✅ Gemini authenticated successfully`));
+    console.log(chalk.green(`✅ ${tool} authenticated successfully`));
     return token;
   }
 
   /**
-   * Authenticate with CLI tool using web browser flow
+   * Authenticate by running a setup command (e.g. `claude setup-token`) and capturing the token it prints
    */
-  private async authenticateClaude(tool: string): Promise<OAuthToken> {
+  private async authenticateWithSetupToken(tool: string, auth: Extract<ToolAuth, { type: 'setup-token' }>): Promise<OAuthToken> {
     console.log(chalk.cyan(`\n🌐 Starting ${tool} CLI web authentication...`));
     console.log(chalk.gray('This will open your browser for authentication.\n'));
 
     try {
-      // Claude CLI authentication
-      const authCommand = 'claude';
-      const authArgs = ['setup-token'];
       const configEnv = {
         ...process.env,
-        CLAUDE_CONFIG_DIR: path.join(process.env.HOME || '', '.claude')
+        ...(auth.env || {})
       };
 
-      console.log(chalk.yellow(`Running: ${authCommand} ${authArgs.join(' ')}`));
+      console.log(chalk.yellow(`Running: ${auth.command} ${auth.args.join(' ')}`));
       console.log(chalk.gray('Please complete authentication in your browser...\n'));
 
       // Use spawn instead of execAsync to handle interactive browser auth
       const { spawn } = require('child_process');
 
-      const setupProcess = spawn(authCommand, authArgs, {
+      const setupProcess = spawn(auth.command, auth.args, {
         env: configEnv,
         stdio: ['inherit', 'pipe', 'pipe'] // inherit stdin for interactive, pipe stdout/stderr to capture
       });
@@ -236,7 +189,7 @@ export class OAuthManager {
           if (code === 0) {
             resolve(code);
           } else {
-            reject(new Error(`claude setup-token exited with code ${code}`));
+            reject(new Error(`${auth.command} ${auth.args.join(' ')} exited with code ${code}`));
           }
         });
 
@@ -247,15 +200,15 @@ export class OAuthManager {
 
       console.log(chalk.green('\n✅ Browser authentication completed'));
 
-      // Extract Claude OAuth token from stdout
+      // Extract OAuth token from output
       const combinedOutput = stdout + stderr;
-      const tokenMatch = combinedOutput.match(/sk-ant-oat01-[a-zA-Z0-9_-]+/);
+      const tokenMatch = combinedOutput.match(auth.tokenPattern);
 
       if (!tokenMatch) {
-        console.log(chalk.red('\n❌ Could not extract Claude OAuth token from output'));
+        console.log(chalk.red(`\n❌ Could not extract ${tool} OAuth token from output`));
         console.log(chalk.gray('Combined output (first 500 chars):'));
         console.log(chalk.gray(combinedOutput.substring(0, 500)));
-        throw new Error('Could not extract OAuth token from claude setup-token output');
+        throw new Error(`Could not extract OAuth token from ${auth.command} ${auth.args.join(' ')} output`);
       }
 
       const token = tokenMatch[0];
@@ -265,13 +218,13 @@ export class OAuthManager {
       const oauthToken: OAuthToken = {
         tool,
         accessToken: token,
-        expiresAt: new Date(Date.now() + 30 * 24 * 3600 * 1000), // 30 days
+        expiresAt: new Date(Date.now() + auth.validityDays * 24 * 3600 * 1000),
         encryptedAt: new Date()
       };
 
       await this.storeToken(oauthToken);
 
-      console.log(chalk.green(`✅ ${tool} authenticated successfully with Claude CLI`));
+      console.log(chalk.green(`✅ ${tool} authenticated successfully`));
       return oauthToken;
 
     } catch (error) {
@@ -280,33 +233,21 @@ export class OAuthManager {
     }
   }
 
-  // Removed extractClaudeToken() - token now comes directly from claude setup-token output
-
-  /**
-   * Simulate OAuth flow (for testing)
-   */
-  private async simulateOAuthFlow(tool: string): Promise<void> {
-    // In demo mode, just simulate the delay
-    console.log(chalk.gray('Simulating browser OAuth flow...'));
-    console.log(chalk.yellow('In production, this would:'));
-    console.log(chalk.yellow(`  1. Open browser to ${tool} authorization page`));
-    console.log(chalk.yellow(`  2. User grants permission`));
-    console.log(chalk.yellow(`  3. Receive OAuth token`));
-
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    console.log(chalk.gray('OAuth flow completed (simulated)'));
+  private getAdapter(tool: string): ToolAdapter {
+    const adapter = getToolAdapter(tool);
+    if (!adapter) {
+      throw new Error(`Unsupported tool: ${tool}. Supported tools: ${getToolNames().join(', ')}`);
+    }
+    return adapter;
   }
 
-  /**
-   * Generate mock token for testing
-   */
-  private generateMockToken(seed: string): string {
-    return crypto
-      .createHash('sha256')
-      .update(seed + Date.now())
-      .digest('hex');
+  private noCredentialToken(tool: string): OAuthToken {
+    return {
+      tool,
+      accessToken: '',
+      expiresAt: new Date(Date.now() + 365 * 24 * 3600 * 1000),
+      encryptedAt: new Date()
+    };
   }
 
   /**
@@ -379,49 +320,40 @@ export class OAuthManager {
 
   /**
    * Get token for specific tool
-   * For codex/gemini: tries silent read first, triggers auth if expired/missing
-   * For claude: checks cache first, triggers auth if expired/missing
+   * For file/env auth: tries silent read from the source first, triggers auth if expired/missing
+   * For setup-token auth: checks cache first, triggers auth if expired/missing
    */
   async getToken(tool: string): Promise<OAuthToken | null> {
-    // For codex: try silent read first
-    if (tool === 'codex') {
-      const token = this.readCodexTokenSilently();
-      if (token) return token;
-      // Expired/missing → trigger auth
-      console.log(chalk.yellow(`\n⚠️  Codex token expired or missing. Triggering authentication...`));
-      return await this.authenticate('codex');
+    const adapter = getToolAdapter(tool);
+    if (!adapter) {
+      return null;
     }
+    const auth = adapter.auth || { type: 'none' as const };
 
-    // For gemini: try silent read first
-    if (tool === 'gemini') {
-      const token = this.readGeminiTokenSilently();
-      if (token) return token;
-      // Expired/missing → trigger auth
-      console.log(chalk.yellow(`\n⚠️  Gemini token expired or missing. Triggering authentication...`));
-      return await this.authenticate('gemini');
+    if (auth.type === 'none') {
+      return this.noCredentialToken(tool);
     }
 
-    // For claude: check cache first
-    if (tool === 'claude') {
-      try {
-        const cachedTokens = await this.loadTokens();
-        const cached = cachedTokens.find(t => t.tool === 'claude');
-        if (cached && new Date(cached.expiresAt) > new Date()) return cached;
-      } catch {
-        // Cache not available, continue to auth
-      }
+    if (auth.type === 'file' || auth.type === 'env') {
+      const token = this.readSourceToken(adapter);
+      if (token) return token;
+      if (auth.type === 'env') return null;
       // Expired/missing → trigger auth
-      console.log(chalk.yellow(`\n⚠️  Claude token expired or missing. Triggering authentication...`));
-      return await this.authenticate('claude');
+      console.log(chalk.yellow(`\n⚠️  ${tool} token expired or missing. Triggering authentication...`));
+      return await this.authenticate(tool);
     }
 
-    // For other tools, use cached tokens only
+    // setup-token: check cache first
     try {
-      const tokens = await this.loadTokens();
-      return tokens.find(t => t.tool === tool) || null;
+      const cachedTokens = await this.loadTokens();
+      const cached = cachedTokens.find(t => t.tool === tool);
+      if (cached && new Date(cached.expiresAt) > new Date()) return cached;
     } catch {
-      return null;
+      // Cache not available, continue to auth
     }
+    // Expired/missing → trigger auth
+    console.log(chalk.yellow(`\n⚠️  ${tool} token expired or missing. Triggering authentication...`));
+    return await this.authenticate(tool);
   }
 
   /**
@@ -436,102 +368,61 @@ export class OAuthManager {
   }
 
   /**
-   * Silently read Codex token from file (no auth flow, no logging)
-   * Returns OAuthToken if valid, null if expired/missing
+   * Silently read a tool's credential from its own store or the environment (no auth flow, no logging)
+   * Returns OAuthToken if valid, null if expired/missing or the tool uses the HokiPoki cache
    */
-  private readCodexTokenSilently(): OAuthToken | null {
-    const fsSync = require('fs');
-    const pathMod = require('path');
+  private readSourceToken(adapter: ToolAdapter): OAuthToken | null {
+    const auth = adapter.auth;
     try {
-      const codexAuthPath = pathMod.join(process.env.HOME || '', '.codex', 'auth.json');
-      const authData = JSON.parse(fsSync.readFileSync(codexAuthPath, 'utf8'));
-
-      if (!authData.tokens?.access_token) return null;
-
-      // Parse JWT expiry (codex tokens are valid for ~1 year)
-      let expiryDate = new Date(Date.now() + 365 * 24 * 3600 * 1000);
-      const parts = authData.tokens.access_token.split('.');
-      if (parts.length === 3) {
-        const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
-        if (payload.exp) expiryDate = new Date(payload.exp * 1000);
+      if (auth?.type === 'env') {
+        const value = process.env[auth.variable];
+        return value ? {
+          tool: adapter.name,
+          accessToken: value,
+          expiresAt: new Date(Date.now() + 365 * 24 * 3600 * 1000),
+          encryptedAt: new Date()
+        } : null;
       }
 
-      if (expiryDate < new Date()) return null; // Expired
-
-      const tokensJson = JSON.stringify(authData.tokens);
-      return {
-        tool: 'codex',
-        accessToken: JSON.stringify(tokensJson), // Double-encoded
-        expiresAt: expiryDate,
-        encryptedAt: new Date()
-      };
-    } catch {
-      return null;
-    }
-  }
-
-  /**
-   * Silently read Gemini token from file (no auth flow, no logging)
-   * Returns OAuthToken if valid, null if expired/missing
-   */
-  private readGeminiTokenSilently(): OAuthToken | null {
-    const fsSync = require('fs');
-    const pathMod = require('path');
-    try {
-      const geminiAuthPath = pathMod.join(process.env.HOME || '', '.gemini', 'oauth_creds.json');
-      const authData = JSON.parse(fsSync.readFileSync(geminiAuthPath, 'utf8'));
-
-      if (!authData.access_token) return null;
-
-      let expiryDate = new Date(Date.now() + 30 * 24 * 3600 * 1000);
-      if (authData.expiry_date) expiryDate = new Date(authData.expiry_date);
-
-      if (expiryDate < new Date()) return null; // Expired
-
-      const credsJson = JSON.stringify(authData);
-      return {
-        tool: 'gemini',
-        accessToken: JSON.stringify(credsJson), // Double-encoded
-        expiresAt: expiryDate,
-        encryptedAt: new Date()
-      };
+      if (auth?.type === 'file') {
+        const credential = auth.readCredential();
+        if (!credential || credential.expiresAt < new Date()) return null; // Missing/expired
+        return {
+          tool: adapter.name,
+          accessToken: credential.accessToken,
+          expiresAt: credential.expiresAt,
+          encryptedAt: new Date()
+        };
+      }
     } catch {
-      return null;
+      // Credential file missing or unreadable
     }
-  }
-
-  /**
-   * Silently check if a tool's source file exists and has valid token (no auth flow triggered)
-   */
-  private hasValidSourceToken(tool: string): boolean {
-    if (tool === 'codex') return this.readCodexTokenSilently() !== null;
-    if (tool === 'gemini') return this.readGeminiTokenSilently() !== null;
-    // Claude uses hokipoki cache, no external source file to check
-    return false;
+    return null;
   }
 
   /**
    * Get all authenticated tools
-   * For codex/gemini, checks source files silently (no auth flow triggered)
-   * For claude and others, checks encrypted cache
+   * For file/env auth, checks the source silently (no auth flow triggered)
+   * For setup-token auth, checks encrypted cache
    * This allows picking up fresh tokens after running native CLI without re-registering
    */
   async getAuthenticatedTools(): Promise<string[]> {
     const authenticatedTools: string[] = [];
+    const registry = getToolRegistry();
 
-    // For codex/gemini, silently check source files (no interactive auth)
-    for (const tool of ['codex', 'gemini']) {
-      if (this.hasValidSourceToken(tool)) {
-        authenticatedTools.push(tool);
+    // Silently check source files / environment (no interactive auth)
+    for (const adapter of Object.values(registry)) {
+      if (this.readSourceToken(adapter)) {
+        authenticatedTools.push(adapter.name);
       }
     }
 
-    // For claude and other tools, check encrypted cache
+    // For setup-token tools, check encrypted cache
     try {
       const cachedTokens = await this.loadTokens();
       for (const token of cachedTokens) {
-        // Skip tools we already found in source files
-        if (authenticatedTools.includes(token.tool)) continue;
+        // Skip tools we already found in source files, and tools without an adapter
+        if (authenticatedTools.includes(token.tool) || !registry[token.tool]) continue;
 
         if (new Date(token.expiresAt) > new Date()) {
           authenticatedTools.push(token.tool);
@@ -546,57 +437,29 @@ export class OAuthManager {
 
   /**
    * Validate token and refresh if needed
-   * For claude/codex/gemini, getToken() already reads from source, so just verify it exists
+   * getToken() already reads fresh from source (or re-runs auth), so just verify it exists
    * Returns true if token is valid, false if refresh needed
    */
   async validateAndRefreshToken(tool: string): Promise<boolean> {
     console.log(chalk.gray(`[DEBUG] Validating token for ${tool}...`));
+    const loginHint = getToolAdapter(tool)?.loginHint || `${tool} login`;
 
-    // For claude/codex/gemini, getToken() always reads fresh from source
-    // So we just need to check if it succeeds
-    if (tool === 'claude' || tool === 'codex' || tool === 'gemini') {
-      try {
-        const token = await this.getToken(tool);
-        if (!token) {
-          console.log(chalk.yellow(`⚠️  No token found for ${tool}`));
-          console.log(chalk.yellow(`Please run: ${tool === 'claude' ? 'claude setup-token' : tool + ' login'}`));
-          console.log(chalk.yellow(`Then: npm run hokipoki register -- --as-provider --tools ${tool}`));
-          return false;
-        }
-        console.log(chalk.green(`✓ Token for ${tool} is valid and fresh from source`));
-        return true;
-      } catch (error: any) {
-        console.error(chalk.red(`❌ Failed to read ${tool} tokens from source`));
-        console.error(chalk.yellow(`Please run: ${tool === 'claude' ? 'claude setup-token' : tool + ' login'}`));
-        console.error(chalk.yellow(`Then: npm run hokipoki register -- --as-provider --tools ${tool}`));
+    try {
+      const token = await this.getToken(tool);
+      if (!token) {
+        console.log(chalk.yellow(`⚠️  No token found for ${tool}`));
+        console.log(chalk.yellow(`Please run: ${loginHint}`));
+        console.log(chalk.yellow(`Then: hokipoki register --as-provider --tools ${tool}`));
         return false;
       }
-    }
-
-    // For other tools, check cached token expiry
-    const token = await this.getToken(tool);
-    if (!token) {
-      console.log(chalk.yellow(`⚠️  No token found for ${tool}, re-authentication needed`));
+      console.log(chalk.green(`✓ Token for ${tool} is valid and fresh from source`));
+      return true;
+    } catch (error: any) {
+      console.error(chalk.red(`❌ Failed to read ${tool} tokens from source`));
+      console.error(chalk.yellow(`Please run: ${loginHint}`));
+      console.error(chalk.yellow(`Then: hokipoki register --as-provider --tools ${tool}`));
       return false;
     }
-
-    const expiresIn = new Date(token.expiresAt).getTime() - Date.now();
-    const oneDayMs = 24 * 60 * 60 * 1000;
-
-    if (expiresIn < oneDayMs) {
-      console.log(chalk.yellow(`⚠️  Token for ${tool} expires soon (in ${Math.floor(expiresIn / (60 * 60 * 1000))} hours), refreshing...`));
-      try {
-        await this.authenticate(tool);
-        console.log(chalk.green(`✅ Token refreshed for ${tool}`));
-        return true;
-      } catch (error) {
-        console.error(chalk.red(`❌ Failed to refresh token for ${tool}:`), error);
-        return false;
-      }
-    }
-
-    console.log(chalk.green(`✓ Token for ${tool} is valid`));
-    return true;
   }
 
   /**
@@ -0,0 +1,272 @@
+// Attach CLI Command
+// Reconnect to a task started with `hokipoki request --detach`: replay and follow its
+// progress, then review the result the background agent is holding
+
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DetachedDecision, DetachedEvent, DetachedTask, DetachedTaskStore } from '../src/services/detached-tasks';
+import { isStructuredOutput, printResult } from '../src/utils/output';
+
+interface AttachOptions {
+  action?: DetachedDecision;  // Decide without prompting
+  json?: boolean;
+}
+
+const POLL_MS = 1000;
+
+export class AttachCommand {
+  private store = new DetachedTaskStore();
+  private jsonMode = false;
+
+  async run(id: string, options: AttachOptions): Promise<void> {
+    this.jsonMode = isStructuredOutput(options);
+
+    const entry = this.store.find(id);
+    if (!entry) {
+      this.fail(`No detached task matching '${id}'`, 'List them with: hokipoki tasks pending');
+    }
+
+    if (!this.jsonMode) {
+      console.log(chalk.cyan(`\n🛰️  Attached to ${entry.id}`) + chalk.gray('  (Ctrl-C detaches again; the task keeps running)\n'));
+      console.log(chalk.gray('Task:'), entry.task);
+      console.log(chalk.gray('Tool:'), entry.tool);
+      console.log(chalk.gray('Directory:'), entry.cwd);
+      console.log(chalk.gray('Started:'), new Date(entry.createdAt).toLocaleString());
+      console.log('');
+    }
+
+    process.on('SIGINT', () => {
+      if (!this.jsonMode) {
+        console.log(chalk.gray(`\n\nDetached. Reattach with: hokipoki attach ${entry.id}\n`));
+      }
+      process.exit(0);
+    });
+
+    let shown = 0;
+    for (;;) {
+      const events = this.store.readEvents(entry.id);
+      for (const event of events.slice(shown)) {
+        this.printEvent(event);
+      }
+      shown = events.length;
+
+      const state = this.store.getState(entry, events);
+      if (state.result) {
+        this.finish(entry, state.result);
+        return;
+      }
+      if (state.status === 'agent_exited') {
+        this.agentExited(entry);
+        return;
+      }
+      if (state.review && !this.store.hasDecision(entry.id)) {
+        const decision = await this.review(entry, state.review, options);
+        if (!decision) {
+          return;
+        }
+        this.store.writeDecision(entry.id, decision);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_MS));
+    }
+  }
+
+  /**
+   * Show the result held by the agent and ask what to do with it
+   */
+  private async review(entry: DetachedTask, review: DetachedEvent, options: AttachOptions): Promise<DetachedDecision | null> {
+    if (options.action) {
+      return options.action;
+    }
+
+    if (this.jsonMode || !process.stdin.isTTY) {
+      // Nobody to ask: report and leave the agent waiting
+      if (this.jsonMode) {
+        const { event, timestamp, ...fields } = review;
+        printResult({ id: entry.id, status: 'awaiting_review', ...fields });
+      } else {
+        console.log(chalk.cyan(`\nResult ready: ${review.resultId}`) + chalk.gray(`  (hokipoki results show ${review.resultId})`));
+        console.log(chalk.gray('Decide with:'), chalk.cyan(`hokipoki attach ${entry.id} --action apply|save|reject`), '\n');
+      }
+      return null;
+    }
+
+    const patchPath = path.resolve(entry.cwd, review.patchFile);
+    console.log(chalk.bold.cyan('\n📝 Proposed changes:\n'));
+    console.log(chalk.gray(`${review.summary.filesChanged} file(s) changed, `) +
+      chalk.green(`+${review.summary.insertions}`) + ' ' + chalk.red(`-${review.summary.deletions}`));
+    for (const file of review.files as string[]) {
+      console.log(chalk.gray(`   ${file}`));
+    }
+    console.log('');
+    try {
+      this.displayDiff(fs.readFileSync(patchPath, 'utf-8'));
+    } catch {
+      console.log(chalk.yellow(`⚠️  Patch file not found: ${patchPath}`));
+    }
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'How would you like to proceed?',
+        choices: [
+          { name: `Apply changes now (${entry.applyMode})`, value: 'apply' },
+          { name: 'Keep patch file for manual review', value: 'save' },
+          { name: 'Reject changes', value: 'reject' }
+        ],
+        default: 'apply'
+      }
+    ]);
+    return action;
+  }
+
+  private printEvent(event: DetachedEvent): void {
+    if (this.jsonMode) {
+      return;
+    }
+
+    const time = chalk.gray(new Date(event.timestamp).toLocaleTimeString());
+    switch (event.event) {
+      case 'connected':
+        console.log(`${time}  Connected to relay server`);
+        break;
+      case 'task_published':
+        console.log(`${time}  📤 Task published: ${event.taskId}`);
+        break;
+      case 'no_providers_available':
+        console.log(`${time}  ${chalk.yellow('No providers available right now')}`);
+        break;
+      case 'provider_matched':
+        console.log(`${time}  🤝 Matched with provider: ${event.providerId}`);
+        break;
+      case 'awaiting_execution':
+        console.log(`${time}  ⏳ Provider is working on the task...`);
+        break;
+      case 'execution_complete':
+        console.log(`${time}  ✅ Provider finished, fetching results`);
+        break;
+      case 'execution_failed':
+        console.log(`${time}  ${chalk.red(`❌ Execution failed: ${event.error}`)}`);
+        break;
+      case 'match_timeout':
+        console.log(`${time}  ${chalk.yellow('⏰ No provider accepted the task in time')}`);
+        break;
+      case 'execution_timeout':
+        console.log(`${time}  ${chalk.yellow('⏰ The provider did not return a result in time')}`);
+        break;
+      case 'task_republished':
+        console.log(`${time}  🔁 Publishing the task again (attempt ${event.attempt})`);
+        break;
+      case 'review_pending':
+        console.log(`${time}  ⏸  Result ready for review: ${event.resultId}`);
+        break;
+      case 'patch_applied':
+        if (event.conflicts?.length) {
+          console.log(`${time}  ${chalk.yellow(`⚠️  Merged with ${event.conflicts.length} conflict(s)`)}` +
+            (event.worktreePath ? chalk.gray(` in ${event.worktreePath}`) : ''));
+          for (const conflict of event.conflicts) {
+            console.log(chalk.yellow(`      ${conflict.file}`), chalk.gray(`(${conflict.reason})`));
+          }
+        } else if (event.branch) {
+          console.log(`${time}  ✅ Committed to branch ${event.branch}` + (event.worktreePath ? chalk.gray(` (worktree ${event.worktreePath})`) : ''));
+        } else {
+          console.log(`${time}  ✅ Changes applied to the working tree`);
+        }
+        break;
+      case 'disconnected':
+        console.log(`${time}  ${chalk.yellow('Connection to relay server lost')}`);
+        break;
+    }
+  }
+
+  /**
+   * The agent reported its result: show it and forget the detached task
+   */
+  private finish(entry: DetachedTask, result: DetachedEvent): void {
+    const { event, timestamp, ...fields } = result;
+    this.store.remove(entry.id);
+
+    if (this.jsonMode) {
+      printResult({ id: entry.id, ...fields });
+      if (result.success === false) {
+        process.exit(1);
+      }
+      return;
+    }
+
+    if (result.success === false || result.error) {
+      console.log(chalk.red(`\n❌ Task failed: ${result.error}\n`));
+      process.exit(1);
+    }
+
+    switch (result.action) {
+      case 'apply':
+        console.log(chalk.green('\n✅ Done') + (result.applied ? '' : chalk.gray(` (see: hokipoki results show ${result.resultId})`)) + '\n');
+        break;
+      case 'save':
+        console.log(chalk.green(`\n💾 Result saved: ${result.resultId}`));
+        console.log(chalk.gray('Apply it with:'), chalk.cyan(`hokipoki results apply ${result.resultId}`), '\n');
+        break;
+      case 'reject':
+        console.log(chalk.yellow('\n❌ Changes rejected\n'));
+        break;
+      default:
+        console.log(chalk.green('\n✅ Task finished') + chalk.gray(result.hasCodeChanges === false ? ' (no code changes)' : ''));
+        if (result.aiReview) {
+          console.log(chalk.bold.cyan('\n📝 AI Review Results:\n'));
+          console.log(chalk.white(result.aiReview));
+        }
+        console.log('');
+    }
+  }
+
+  private agentExited(entry: DetachedTask): void {
+    const logFile = this.store.getLogFile(entry.id);
+    let logTail: string[] = [];
+    try {
+      logTail = fs.readFileSync(logFile, 'utf-8').trimEnd().split('\n').slice(-10);
+    } catch {
+      // No log written
+    }
+    this.store.remove(entry.id);
+
+    if (this.jsonMode) {
+      printResult({ id: entry.id, success: false, error: 'The background agent exited without a result', log: logTail });
+    } else {
+      console.log(chalk.red('\n❌ The background agent exited without a result. Last output:\n'));
+      logTail.forEach(line => console.log(chalk.gray(`   ${line}`)));
+      console.log('');
+    }
+    process.exit(1);
+  }
+
+  private displayDiff(diff: string): void {
+    for (const line of diff.split('\n')) {
+      if (line.startsWith('+')) {
+        console.log(chalk.green(line));
+      } else if (line.startsWith('-')) {
+        console.log(chalk.red(line));
+      } else if (line.startsWith('@@')) {
+        console.log(chalk.cyan(line));
+      } else {
+        console.log(line);
+      }
+    }
+  }
+
+  private fail(message: string, hint?: string): never {
+    if (this.jsonMode) {
+      printResult({ success: false, error: message });
+    } else {
+      console.log(chalk.red(`\n❌ ${message}`));
+      if (hint) {
+        console.log(chalk.gray(hint));
+      }
+      console.log('');
+    }
+    process.exit(1);
+  }
+}
@@ -0,0 +1,374 @@
+// Batch CLI Command
+// Runs the tasks of a YAML/JSON manifest one after another (the backend allows one active task
+// per requester). Each task runs as `hokipoki request` in a child process; its patch is applied
+// with the task's apply mode, and a JSON + Markdown report is written at the end.
+
+import chalk from 'chalk';
+import ora, { Ora } from 'ora';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { ConfigManager } from '../config/config-manager';
+import { BatchEntry, loadBatchManifest } from '../src/services/batch-manifest';
+import { ApplyMode, APPLY_MODES, PatchApplier } from '../src/services/patch-applier';
+import { ResultStore } from '../src/services/result-store';
+import { printResult } from '../src/utils/output';
+
+interface BatchOptions {
+  report?: string;       // Report path without extension
+  retries?: string;      // Retries per task when no provider is available
+  stopOnError?: boolean;
+  json?: boolean;
+}
+
+export type BatchTaskStatus = 'applied' | 'saved' | 'no_changes' | 'failed' | 'skipped';
+
+export interface BatchTaskResult {
+  index: number;
+  name?: string;
+  task: string;
+  tool: string;
+  applyMode: ApplyMode;
+  status: BatchTaskStatus;
+  attempts: number;
+  taskId?: string;
+  providerId?: string;
+  durationMs?: number;
+  summary?: { filesChanged: number; insertions: number; deletions: number };
+  patchFile?: string;
+  branch?: string;
+  commit?: string;
+  worktreePath?: string;
+  log?: string;
+  error?: string;
+}
+
+// What one `hokipoki request` run reported on its ndjson stream
+interface RequestRun {
+  taskId?: string;
+  providerId?: string;
+  tool?: string;
+  model?: string;
+  result?: Record<string, any>;
+  retryable: boolean;
+  exitCode: number | null;
+}
+
+const DEFAULT_RETRIES = 5;
+// Backoff between retries: 30s, 1m, 2m, ... up to 10m
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+// Returned while the previous task is still being closed on the backend
+const ACTIVE_TASK_ERROR = 'You already have an active task';
+
+const STATUS_LABELS: Record<BatchTaskStatus, string> = {
+  applied: '✅ applied',
+  saved: '💾 saved (not applied)',
+  no_changes: '➖ no changes',
+  failed: '❌ failed',
+  skipped: '⏭️ skipped'
+};
+
+export class BatchCommand {
+  private interrupted = false;
+  private results = new ResultStore();
+
+  async run(manifestFile: string, options: BatchOptions): Promise<void> {
+    const fail = (problem: string) => {
+      if (options.json) {
+        printResult({ success: false, error: problem });
+      } else {
+        console.log(chalk.red(`\n❌ ${problem}\n`));
+      }
+      process.exit(1);
+    };
+
+    let entries: BatchEntry[] = [];
+    try {
+      entries = loadBatchManifest(manifestFile);
+    } catch (error: any) {
+      fail(error.message);
+    }
+
+    const retries = options.retries !== undefined ? parseInt(options.retries, 10) : DEFAULT_RETRIES;
+    if (!Number.isInteger(retries) || retries < 0) {
+      fail('--retries must be a number of 0 or more');
+    }
+
+    const defaultApplyMode = new ConfigManager().get('applyMode') || 'working-tree';
+    if (!PatchApplier.isApplyMode(defaultApplyMode)) {
+      fail(`Invalid apply mode '${defaultApplyMode}' in config (expected ${APPLY_MODES.join(', ')})`);
+    }
+
+    const startedAt = new Date();
+    const reportBase = options.report || `hokipoki-batch-${startedAt.toISOString().replace(/[:.]/g, '-')}`;
+    const logDir = `${reportBase}.logs`;
+    fs.mkdirSync(logDir, { recursive: true });
+
+    // Ctrl+C also reaches the running request (same process group); skip the remaining tasks
+    process.on('SIGINT', () => { this.interrupted = true; });
+
+    if (!options.json) {
+      console.log(chalk.bold.cyan(`\n📦 HokiPoki Batch: ${entries.length} task(s) from ${manifestFile}\n`));
+    }
+
+    const results: BatchTaskResult[] = [];
+    for (const [i, entry] of entries.entries()) {
+      const applyMode = (entry.applyMode || defaultApplyMode) as ApplyMode;
+      const base: BatchTaskResult = {
+        index: i + 1,
+        name: entry.name,
+        task: entry.task,
+        tool: entry.tool || 'default',
+        applyMode,
+        status: 'skipped',
+        attempts: 0
+      };
+
+      const stop = this.interrupted || (options.stopOnError && results.some(r => r.status === 'failed'));
+      if (stop) {
+        results.push(base);
+        continue;
+      }
+
+      const label = `[${i + 1}/${entries.length}] ${entry.name || this.truncate(entry.task, 50)}`;
+      const spinner = options.json ? null : ora(label).start();
+      const result = await this.runEntry(entry, base, retries, path.join(logDir, `task-${i + 1}.log`), spinner, label);
+      results.push(result);
+
+      if (spinner) {
+        const line = `${label} ${chalk.gray(this.describeResult(result))}`;
+        if (result.status === 'failed') {
+          spinner.fail(line);
+        } else if (result.status === 'saved') {
+          spinner.warn(line);
+        } else {
+          spinner.succeed(line);
+        }
+      }
+    }
+
+    const report = {
+      manifest: manifestFile,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      totals: this.countStatuses(results),
+      tasks: results
+    };
+    fs.writeFileSync(`${reportBase}.json`, JSON.stringify(report, null, 2));
+    fs.writeFileSync(`${reportBase}.md`, this.renderMarkdown(report));
+
+    const failed = results.some(r => r.status === 'failed' || r.status === 'skipped');
+    if (options.json) {
+      printResult({ success: !failed, report: `${reportBase}.json`, ...report });
+    } else {
+      const totals = report.totals;
+      console.log(chalk.bold(`\n${totals.applied} applied, ${totals.saved} saved, ${totals.no_changes} without changes, ` +
+        `${totals.failed} failed, ${totals.skipped} skipped`));
+      console.log(chalk.gray('Report:'), chalk.cyan(`${reportBase}.md`), chalk.gray('and'), chalk.cyan(`${reportBase}.json`));
+      console.log(chalk.gray('Logs:  '), chalk.cyan(`${logDir}/`), '\n');
+    }
+    process.exit(failed ? 1 : 0);
+  }
+
+  /**
+   * Run one task until it finishes, retrying with backoff while no provider is available
+   */
+  private async runEntry(entry: BatchEntry, result: BatchTaskResult, retries: number, logFile: string, spinner: Ora | null, label: string): Promise<BatchTaskResult> {
+    const started = Date.now();
+    result.log = logFile;
+
+    for (let attempt = 1; ; attempt++) {
+      result.attempts = attempt;
+      // Branch and worktree results start from the commit the task was uploaded from
+      const baseCommit = PatchApplier.getBaseCommit();
+      const run = await this.runRequest(entry, result.applyMode, logFile, spinner, label);
+
+      if (run.retryable && attempt <= retries && !this.interrupted) {
+        const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+        if (spinner) spinner.text = `${label} ${chalk.yellow(`no provider available, retry ${attempt}/${retries} in ${Math.round(delay / 1000)}s`)}`;
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+
+      result.taskId = run.taskId;
+      result.providerId = run.providerId;
+      result.durationMs = Date.now() - started;
+
+      const output = run.result;
+      if (!output || !output.success) {
+        result.status = 'failed';
+        result.error = output?.error || (this.interrupted ? 'Interrupted' : `hokipoki request exited with code ${run.exitCode}`);
+        return result;
+      }
+      if (!output.hasCodeChanges || !output.patchFile) {
+        result.status = 'no_changes';
+        return result;
+      }
+
+      result.summary = output.summary;
+      result.patchFile = output.patchFile;
+      try {
+        // Files edited while the task ran are merged against the uploaded content
+        const baseFiles = await this.results.readBaseFiles(output.resultId);
+        const applied = new PatchApplier().apply(output.patchFile, result.applyMode, {
+          taskId: run.taskId || output.resultId,
+          description: entry.task,
+          providerId: run.providerId,
+          tool: run.tool || result.tool,
+          model: run.model
+        }, baseCommit, baseFiles);
+        result.status = 'applied';
+        result.branch = applied.branch;
+        result.commit = applied.commit;
+        result.worktreePath = applied.worktreePath;
+        await this.results.update(output.resultId, { status: 'applied', apply: applied });
+      } catch (error: any) {
+        result.status = 'saved';
+        result.error = `Not applied: ${error.stderr?.toString().trim() || error.message}`;
+      }
+      return result;
+    }
+  }
+
+  /**
+   * `hokipoki request` in a child process with an ndjson event stream on stdout;
+   * human output goes to the task's log file
+   */
+  private runRequest(entry: BatchEntry, applyMode: ApplyMode, logFile: string, spinner: Ora | null, label: string): Promise<RequestRun> {
+    const args = [...process.execArgv, process.argv[1], '--output', 'ndjson', 'request', `--task=${entry.task}`, `--apply-mode=${applyMode}`];
+    if (entry.tool) args.push(`--tool=${entry.tool}`);
+    if (entry.files.length > 0) args.push('--files', ...entry.files);
+    if (entry.dir.length > 0) args.push('--dir', ...entry.dir);
+    if (entry.all) args.push('--all');
+
+    const run: RequestRun = { retryable: false, exitCode: null };
+    const log = fs.createWriteStream(logFile, { flags: 'a' });
+    log.write(`\n=== ${new Date().toISOString()} hokipoki request ${args.slice(process.execArgv.length + 4).join(' ')}\n`);
+
+    return new Promise(resolve => {
+      const child = spawn(process.execPath, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      child.stderr.pipe(log, { end: false });
+
+      let buffered = '';
+      child.stdout.on('data', (chunk: Buffer) => {
+        buffered += chunk.toString();
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        for (const line of lines) {
+          log.write(`${line}\n`);
+          this.handleEvent(line, run, spinner, label);
+        }
+      });
+
+      child.on('close', code => {
+        if (buffered) this.handleEvent(buffered, run, spinner, label);
+        run.exitCode = code;
+        // No provider accepted within --match-timeout: same as none being available
+        if (run.result?.error === ACTIVE_TASK_ERROR || run.result?.code === 'match_timeout') {
+          run.retryable = true;
+        }
+        log.end(() => resolve(run));
+      });
+    });
+  }
+
+  private handleEvent(line: string, run: RequestRun, spinner: Ora | null, label: string): void {
+    let event: Record<string, any>;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      return;
+    }
+
+    switch (event.event) {
+      case 'task_published':
+        run.taskId = event.taskId;
+        run.tool = event.tool;
+        run.model = event.model;
+        if (spinner) spinner.text = `${label} ${chalk.gray('waiting for a provider')}`;
+        break;
+      case 'provider_matched':
+        run.providerId = event.providerId;
+        if (spinner) spinner.text = `${label} ${chalk.gray('provider working')}`;
+        break;
+      case 'no_providers_available':
+        run.retryable = true;
+        break;
+      case 'result': {
+        const { event: _event, timestamp: _timestamp, ...fields } = event;
+        run.result = fields;
+        break;
+      }
+    }
+  }
+
+  private describeResult(result: BatchTaskResult): string {
+    const parts: string[] = [STATUS_LABELS[result.status]];
+    if (result.summary) {
+      parts.push(`${result.summary.filesChanged} file(s), +${result.summary.insertions} -${result.summary.deletions}`);
+    }
+    if (result.branch) {
+      parts.push(`branch ${result.branch}`);
+    } else if (result.status === 'saved' && result.patchFile) {
+      parts.push(result.patchFile);
+    }
+    if (result.attempts > 1) {
+      parts.push(`${result.attempts} attempts`);
+    }
+    if (result.error) {
+      parts.push(result.error);
+    }
+    return parts.join(' · ');
+  }
+
+  private countStatuses(results: BatchTaskResult[]): Record<BatchTaskStatus, number> {
+    const totals: Record<BatchTaskStatus, number> = { applied: 0, saved: 0, no_changes: 0, failed: 0, skipped: 0 };
+    results.forEach(r => totals[r.status]++);
+    return totals;
+  }
+
+  private renderMarkdown(report: { manifest: string; startedAt: string; finishedAt: string; totals: Record<BatchTaskStatus, number>; tasks: BatchTaskResult[] }): string {
+    const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+    const lines = [
+      '# HokiPoki batch report',
+      '',
+      `Manifest: \`${report.manifest}\`  `,
+      `Started: ${report.startedAt}  `,
+      `Finished: ${report.finishedAt}`,
+      '',
+      `**${report.totals.applied} applied**, ${report.totals.saved} saved, ${report.totals.no_changes} without changes, ` +
+        `${report.totals.failed} failed, ${report.totals.skipped} skipped`,
+      '',
+      '| # | Task | Tool | Status | Changes | Patch | Applied to | Task ID |',
+      '|---|------|------|--------|---------|-------|------------|---------|'
+    ];
+
+    for (const task of report.tasks) {
+      const changes = task.summary
+        ? `${task.summary.filesChanged} file(s), +${task.summary.insertions} −${task.summary.deletions}`
+        : '';
+      const appliedTo = task.status !== 'applied' ? ''
+        : task.worktreePath ? `worktree \`${task.worktreePath}\``
+        : task.branch ? `branch \`${task.branch}\``
+        : 'working tree';
+      lines.push(`| ${task.index} | ${cell(task.name || this.truncate(task.task, 60))} | ${task.tool} | ${STATUS_LABELS[task.status]} | ` +
+        `${changes} | ${task.patchFile ? `\`${task.patchFile}\`` : ''} | ${appliedTo} | ${task.taskId ? `\`${task.taskId}\`` : ''} |`);
+    }
+
+    const problems = report.tasks.filter(task => task.error);
+    if (problems.length > 0) {
+      lines.push('', '## Problems', '');
+      for (const task of problems) {
+        lines.push(`- **#${task.index} ${cell(task.name || this.truncate(task.task, 60))}**: ${cell(task.error!)} (log: \`${task.log}\`)`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  private truncate(text: string, length: number): string {
+    const line = text.split('\n')[0];
+    return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+  }
+}
@@ -1,57 +1,359 @@
 // Tab completion for HokiPoki CLI
 // Uses tabtab package (same approach as npm)
+//
+// Completes commands and options, tool:model pairs from the tool registry, workspace
+// names from the profile's cached memberships and file paths (respecting .gitignore).
+// Every item carries a description, shown by zsh and fish.
 
 import tabtab from 'tabtab';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { CONFIG_KEYS } from '../config/config-manager';
+import { ProfileManager } from '../config/profile-manager';
+import { getToolAdapter, getToolRegistry } from '../config/cli-tools';
+import { WorkspaceService } from '../src/services/workspace-service';
+import { DetachedTaskStore } from '../src/services/detached-tasks';
 
-const COMMANDS = ['register', 'listen', 'request', 'login', 'logout', 'whoami', 'dashboard', 'status', 'completion', 'help'];
-const TOOLS = ['claude', 'codex', 'gemini'];
-
-// Model selection disabled for now - will be added later
-// const MODELS: Record<string, string[]> = {
-//   claude: ['sonnet', 'opus'],
-//   gemini: ['flash', 'pro', 'flash-lite'],
-//   codex: ['gpt-5.1-codex-max', 'gpt-5.1-codex', 'gpt-5.1-codex-mini', 'gpt-5.1']
-// };
-
-const OPTIONS: Record<string, string[]> = {
-  register: ['--as-provider', '--tools', '--help'],
-  listen: ['--tools', '-t', '--port', '-p', '--server', '-s', '--secure', '--help'],
-  request: ['--tool', '--task', '--files', '--dir', '--all', '--workspace', '--server', '-s', '--git-host', '--json', '--interactive', '--no-auto-apply', '--help'],
-  login: ['--help'],
-  logout: ['--help'],
-  whoami: ['--help'],
-  dashboard: ['--help'],
-  status: ['--provider', '--help'],
-  completion: ['--install', '--uninstall', '--help'],
-  help: []
+interface CompletionItem {
+  name: string;
+  description: string;
+}
+
+const COMMANDS: Record<string, string> = {
+  register: 'Register as a provider',
+  listen: 'Start listening for task requests',
+  request: 'Request help from an AI tool',
+  batch: 'Run tasks from a YAML/JSON manifest',
+  attach: 'Follow and review a detached request',
+  login: 'Authenticate with HokiPoki',
+  logout: 'Logout from HokiPoki',
+  whoami: 'Show current user information',
+  dashboard: 'Open the web dashboard',
+  status: 'Check account status',
+  doctor: 'Diagnose your environment',
+  workspace: 'Manage workspaces',
+  profile: 'Manage account profiles',
+  config: 'Manage CLI configuration',
+  tasks: 'Browse past tasks',
+  results: 'Browse and apply received results',
+  credits: 'Show credit balance and spending',
+  completion: 'Setup shell tab completion',
+  help: 'Display help for a command'
+};
+
+const GLOBAL_OPTIONS: Record<string, string> = {
+  '--profile': 'Account profile to use',
+  '--output': 'Output format (table, json, ndjson)'
+};
+
+const JSON_OPTION = { '--json': 'Output as JSON' };
+const HELP_OPTION = { '--help': 'Display help' };
+
+// Options and subcommands per command
+const OPTIONS: Record<string, Record<string, string>> = {
+  register: { '--as-provider': 'Register as a provider', '--tools': 'AI tools to authenticate', ...JSON_OPTION, ...HELP_OPTION },
+  listen: {
+    '--tools': 'AI tools to offer this session',
+    '--port': 'P2P connection port',
+    '--server': 'Relay server URL',
+    '--secure': 'Use LUKS-encrypted Docker sandbox',
+    ...HELP_OPTION
+  },
+  request: {
+    '--tool': 'AI tool to use (tool or tool:model; repeatable)',
+    '--providers': 'Run on N providers in parallel',
+    '--task': 'Task description',
+    '--continue': 'Follow up on a finished task',
+    '--files': 'Specific files to include',
+    '--dir': 'Directories to include recursively',
+    '--all': 'Include entire repository',
+    '--changed': 'Include files with uncommitted changes',
+    '--staged': 'Include staged files',
+    '--since': 'Include files changed since a git ref',
+    '--include-diff': 'Add the diff of changed files to the task',
+    '--with-deps': 'Include imported local modules',
+    '--redact': 'Upload secrets as placeholders',
+    '--allowlist': 'Secret scanner allowlist file',
+    '--dry-run': 'List files that would be uploaded',
+    '--detach': 'Run the task in the background',
+    '--verify': 'Command that must pass on the patched code',
+    '--verify-retries': 'Send failed verifications back to the provider',
+    '--match-timeout': 'How long to wait for a provider',
+    '--execution-timeout': 'How long the provider may take',
+    '--retries': 'Re-publish the task after a timeout',
+    '--max-credits': 'Maximum estimated cost in credits',
+    '--max-upload': 'Upload budget (files, size, tokens)',
+    '--apply-mode': 'Apply results to working tree, branch or worktree',
+    '--workspace': 'Workspace to publish task to',
+    '--server': 'Relay server URL',
+    '--git-host': 'Git server host/IP',
+    '--interactive': 'Force interactive prompts',
+    '--no-auto-apply': 'Don\'t auto-apply patches',
+    ...JSON_OPTION,
+    ...HELP_OPTION
+  },
+  batch: {
+    '--report': 'Report path (without extension)',
+    '--retries': 'Retries when no provider is available',
+    '--stop-on-error': 'Skip remaining tasks after a failure',
+    ...JSON_OPTION,
+    ...HELP_OPTION
+  },
+  attach: { '--action': 'Decide without prompting (apply, save, reject)', ...JSON_OPTION, ...HELP_OPTION },
+  login: { '--device': 'Log in with a device code (SSH/CI)', ...JSON_OPTION, ...HELP_OPTION },
+  logout: { ...JSON_OPTION, ...HELP_OPTION },
+  whoami: { ...JSON_OPTION, ...HELP_OPTION },
+  dashboard: { ...JSON_OPTION, ...HELP_OPTION },
+  status: { '--provider': 'Run provider diagnostics', ...JSON_OPTION, ...HELP_OPTION },
+  doctor: { ...JSON_OPTION, ...HELP_OPTION },
+  workspace: {
+    list: 'List your workspaces',
+    show: 'Show workspace details',
+    use: 'Set request default and listen workspaces',
+    create: 'Create a team workspace',
+    invite: 'Invite someone by email',
+    members: 'List workspace members',
+    ...HELP_OPTION
+  },
+  profile: { list: 'List profiles', use: 'Switch the active profile', ...HELP_OPTION },
+  config: { get: 'Show a config value', set: 'Set a config value', unset: 'Remove a config value', list: 'List all config values', ...HELP_OPTION },
+  tasks: { list: 'List past tasks', pending: 'List detached requests', show: 'Show task details', ...HELP_OPTION },
+  credits: { '--limit': 'Maximum number of transactions', ...JSON_OPTION, ...HELP_OPTION },
+  results: {
+    list: 'List stored results',
+    show: 'Show a result',
+    apply: 'Apply a stored result',
+    export: 'Copy a result out of the store',
+    prune: 'Delete old results',
+    ...HELP_OPTION
+  },
+  completion: { '--install': 'Install completion for your shell', '--uninstall': 'Remove completion from your shell', ...HELP_OPTION },
+  help: {}
+};
+
+const OUTPUT_FORMATS: Record<string, string> = {
+  table: 'Human-readable output (default)',
+  json: 'One JSON document',
+  ndjson: 'One JSON event per line'
 };
 
+const APPLY_MODES: Record<string, string> = {
+  'working-tree': 'git apply into the current checkout (default)',
+  branch: 'Commit to hokipoki/<taskId>, checkout untouched',
+  worktree: 'Commit to hokipoki/<taskId> in a separate git worktree'
+};
+
+const ATTACH_ACTIONS: Record<string, string> = {
+  apply: 'Apply the result with the task\'s apply mode',
+  save: 'Keep the patch file for manual review',
+  reject: 'Reject the changes'
+};
+
+// Options whose values are file system paths (variadic: every following word until the next option)
+const PATH_OPTIONS = ['--files', '--dir', '--allowlist'];
+const TOOL_OPTIONS = ['--tool', '--tools', '-t'];
+
 export function handleCompletion(): void {
   const env = tabtab.parseEnv(process.env);
   if (!env.complete) return;
 
-  const { prev } = env;
+  const { prev, lastPartial } = env;
+  const words = env.partial.split(' ');
+  const valueOption = findValueOption(words);
+
+  // Completion runs before commander parses --profile, so honor it here for profile-scoped caches
+  const profileIndex = words.indexOf('--profile');
+  if (profileIndex !== -1 && words[profileIndex + 1] && ProfileManager.isValidName(words[profileIndex + 1])) {
+    process.env.HOKIPOKI_PROFILE = words[profileIndex + 1];
+  }
 
   // Complete commands
   if (prev === 'hokipoki') {
-    tabtab.log(COMMANDS);
+    log([...toItems(COMMANDS), ...toItems(GLOBAL_OPTIONS)], lastPartial);
+    return;
+  }
+
+  // Complete the manifest for batch
+  if (prev === 'batch' && !lastPartial.startsWith('-')) {
+    log(getPathItems(lastPartial, false), lastPartial);
+    return;
+  }
+
+  // Complete detached task IDs for attach
+  if (prev === 'attach' && !lastPartial.startsWith('-')) {
+    log(new DetachedTaskStore().list().map(entry => ({ name: entry.id, description: entry.task })), lastPartial);
     return;
   }
 
   // Complete options for commands
-  if (COMMANDS.includes(prev)) {
-    tabtab.log(OPTIONS[prev] || ['--help']);
+  if (Object.keys(COMMANDS).includes(prev)) {
+    log(toItems(OPTIONS[prev] || HELP_OPTION), lastPartial);
+    return;
+  }
+
+  // Complete config keys
+  if (env.line.includes(' config ') && ['get', 'set', 'unset'].includes(prev)) {
+    log(Object.entries(CONFIG_KEYS).map(([name, definition]) => ({ name, description: definition.description })), lastPartial);
+    return;
+  }
+
+  // Complete profile names
+  if (prev === '--profile' || (env.line.includes(' profile ') && prev === 'use')) {
+    const active = new ProfileManager().getActiveProfile();
+    log(new ProfileManager().list().map(name => ({
+      name,
+      description: name === active ? 'active profile' : 'profile'
+    })), lastPartial);
+    return;
+  }
+
+  // Complete output formats
+  if (prev === '--output') {
+    log(toItems(OUTPUT_FORMATS), lastPartial);
+    return;
+  }
+
+  // Complete attach decisions
+  if (prev === '--action') {
+    log(toItems(ATTACH_ACTIONS), lastPartial);
+    return;
+  }
+
+  // Complete apply modes
+  if (prev === '--apply-mode') {
+    log(toItems(APPLY_MODES), lastPartial);
     return;
   }
 
-  // Complete tool names
-  if (prev === '--tool' || prev === '--tools' || prev === '-t') {
-    tabtab.log(TOOLS);
+  // Complete workspace names (never hits the network)
+  if (prev === '--workspace' || (env.line.includes(' workspace ') && ['show', 'use', 'invite', 'members'].includes(prev))) {
+    log(getWorkspaceItems(), lastPartial);
+    return;
+  }
+
+  // Complete tool names, or models once the tool is typed (tool:model)
+  if (valueOption && TOOL_OPTIONS.includes(valueOption)) {
+    log(getToolItems(lastPartial), lastPartial);
+    return;
+  }
+
+  // Complete paths for --files / --dir
+  if (valueOption && PATH_OPTIONS.includes(valueOption)) {
+    log(getPathItems(lastPartial, valueOption === '--dir'), lastPartial);
     return;
   }
 
   // Default: show commands
-  tabtab.log(COMMANDS);
+  log(toItems(COMMANDS), lastPartial);
+}
+
+/**
+ * Option whose value(s) the current word belongs to; variadic options keep
+ * collecting values until the next option
+ */
+function findValueOption(words: string[]): string | undefined {
+  const current = words[words.length - 1];
+  if (current.startsWith('-')) {
+    return undefined;
+  }
+
+  for (let i = words.length - 2; i >= 0; i--) {
+    const word = words[i];
+    if (word.startsWith('-')) {
+      const variadic = ['--files', '--dir', '--tools', '-t'].includes(word);
+      return variadic || i === words.length - 2 ? word : undefined;
+    }
+  }
+  return undefined;
+}
+
+function toItems(entries: Record<string, string>): CompletionItem[] {
+  return Object.entries(entries).map(([name, description]) => ({ name, description }));
+}
+
+function getToolItems(partial: string): CompletionItem[] {
+  if (partial.includes(':')) {
+    const tool = partial.split(':')[0];
+    const adapter = getToolAdapter(tool);
+    return (adapter?.models || []).map(model => ({
+      name: `${tool}:${model}`,
+      description: `${adapter!.description || adapter!.name} model`
+    }));
+  }
+
+  return Object.values(getToolRegistry()).map(adapter => ({
+    name: adapter.name,
+    description: adapter.description || (adapter.source ? `custom adapter (${path.basename(adapter.source)})` : 'AI tool')
+  }));
+}
+
+function getWorkspaceItems(): CompletionItem[] {
+  return new WorkspaceService().getCachedWorkspaces().map(workspace => ({
+    name: workspace.name,
+    description: [workspace.isPersonal ? 'personal' : 'team', workspace.role].filter(Boolean).join(', ')
+  }));
+}
+
+/**
+ * Entries of the directory being typed, minus anything git ignores
+ */
+function getPathItems(partial: string, directoriesOnly: boolean): CompletionItem[] {
+  const dirPart = partial.includes('/') ? partial.slice(0, partial.lastIndexOf('/') + 1) : '';
+
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dirPart || '.', { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const candidates = entries
+    .filter(entry => entry.name !== '.git' && (!directoriesOnly || entry.isDirectory()))
+    .map(entry => ({
+      name: `${dirPart}${entry.name}${entry.isDirectory() ? '/' : ''}`,
+      description: entry.isDirectory() ? 'directory' : 'file'
+    }));
+
+  const ignored = getIgnoredPaths(candidates.map(item => item.name));
+  return candidates.filter(item => !ignored.has(item.name));
+}
+
+function getIgnoredPaths(paths: string[]): Set<string> {
+  if (paths.length === 0) {
+    return new Set();
+  }
+
+  try {
+    // Exit code 1 means "nothing ignored"; outside a git repo nothing is filtered
+    const output = execSync('git check-ignore --stdin', {
+      input: paths.join('\n'),
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'ignore']
+    });
+    return new Set(output.split('\n').filter(Boolean));
+  } catch (error: any) {
+    return new Set((error.stdout || '').split('\n').filter(Boolean));
+  }
+}
+
+/**
+ * tabtab.log, except bash: bash splits words on ':' (COMP_WORDBREAKS), so
+ * tool:model items must be filtered here and printed without the typed prefix
+ */
+function log(items: CompletionItem[], partial: string): void {
+  // Same shell detection as tabtab
+  const shell = (process.env.SHELL || '').split('/').pop();
+  if (shell === 'bash' && partial.includes(':')) {
+    const prefix = partial.slice(0, partial.lastIndexOf(':') + 1);
+    for (const item of items.filter(item => item.name.startsWith(partial))) {
+      console.log(item.name.slice(prefix.length));
+    }
+    return;
+  }
+
+  // tabtab accepts { name, description } items at runtime; its typings only declare strings
+  (tabtab.log as unknown as (completions: CompletionItem[]) => void)(items);
 }
 
 export async function installCompletion(): Promise<void> {
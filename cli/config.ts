@@ -0,0 +1,112 @@
+// Config CLI Command
+// Handles `hokipoki config get/set/list/unset`
+
+import chalk from 'chalk';
+import { ConfigManager, ConfigKey, ConfigScope, CONFIG_KEYS } from '../config/config-manager';
+import { isStructuredOutput, printResult } from '../src/utils/output';
+
+interface ConfigCommandOptions {
+  project?: boolean;
+  json?: boolean;
+}
+
+export class ConfigCommand {
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = new ConfigManager();
+  }
+
+  get(key: string, options: ConfigCommandOptions = {}): void {
+    const configKey = this.validateKey(key);
+    const resolved = this.configManager.resolve(configKey);
+
+    if (options.json) {
+      printResult(resolved);
+      return;
+    }
+
+    if (resolved.value === undefined) {
+      console.log(chalk.gray('(not set)'));
+      return;
+    }
+    console.log(resolved.value);
+  }
+
+  set(key: string, value: string, options: ConfigCommandOptions = {}): void {
+    const configKey = this.validateKey(key);
+    const scope: ConfigScope = options.project ? 'project' : 'user';
+    if (scope === 'project' && CONFIG_KEYS[configKey].userOnly) {
+      const message = `${configKey} can only be set in user config: project config comes with the repository`;
+      if (isStructuredOutput(options)) {
+        printResult({ success: false, error: message });
+      } else {
+        console.log(chalk.red(`\n❌ ${message}`));
+        console.log(chalk.gray(`   Use: hokipoki config set ${configKey} ${value}\n`));
+      }
+      process.exit(1);
+    }
+    const filePath = this.configManager.set(configKey, value, scope);
+
+    if (options.json) {
+      printResult({ key: configKey, value, scope, path: filePath });
+      return;
+    }
+
+    console.log(chalk.green(`✅ ${configKey} = ${value}`));
+    console.log(chalk.gray(`   Saved to ${scope} config: ${filePath}`));
+  }
+
+  unset(key: string, options: ConfigCommandOptions = {}): void {
+    const configKey = this.validateKey(key);
+    const scope: ConfigScope = options.project ? 'project' : 'user';
+    const removed = this.configManager.unset(configKey, scope);
+
+    if (options.json) {
+      printResult({ key: configKey, scope, removed });
+      return;
+    }
+
+    if (removed) {
+      console.log(chalk.green(`✅ Removed ${configKey} from ${scope} config`));
+    } else {
+      console.log(chalk.yellow(`⚠️  ${configKey} is not set in ${scope} config`));
+    }
+  }
+
+  list(options: ConfigCommandOptions = {}): void {
+    const values = this.configManager.list();
+
+    if (options.json) {
+      printResult(values);
+      return;
+    }
+
+    console.log(chalk.cyan('\n⚙️  Configuration\n'));
+    for (const { key, value, source } of values) {
+      const display = value !== undefined ? chalk.white(value) : chalk.gray('(not set)');
+      const origin = source ? chalk.dim(` [${source}]`) : '';
+      console.log(`  ${chalk.bold(key.padEnd(16))} ${display}${origin}`);
+    }
+    console.log(chalk.gray('\n  Precedence: flag > env > project > user > default'));
+    console.log(chalk.gray(`  User config:    ${this.configManager.getPathForScope('user')}`));
+    console.log(chalk.gray(`  Project config: ${this.configManager.getPathForScope('project')}\n`));
+  }
+
+  private validateKey(key: string): ConfigKey {
+    if (!ConfigManager.isConfigKey(key)) {
+      if (isStructuredOutput()) {
+        printResult({ error: `Unknown config key: ${key}`, availableKeys: Object.keys(CONFIG_KEYS) });
+        process.exit(1);
+      }
+      console.log(chalk.red(`\n❌ Unknown config key: ${key}`));
+      console.log(chalk.yellow('Available keys:'));
+      for (const [name, definition] of Object.entries(CONFIG_KEYS)) {
+        console.log(chalk.gray(`  ${name.padEnd(16)} ${definition.description}`));
+      }
+      console.log('');
+      process.exit(1);
+    }
+    return key;
+  }
+}
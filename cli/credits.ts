@@ -0,0 +1,79 @@
+// Credits CLI Command
+// Shows the credit balance, this month's spend against the monthly budget and the
+// spend history from the backend (local task history when offline)
+
+import chalk from 'chalk';
+import { ConfigManager } from '../config/config-manager';
+import { CreditService, CreditTransaction } from '../src/services/credit-service';
+import { printResult } from '../src/utils/output';
+
+interface CreditsOptions {
+  limit?: string;
+  json?: boolean;
+}
+
+export class CreditsCommand {
+  async run(options: CreditsOptions): Promise<void> {
+    const service = new CreditService();
+    const account = await service.getAccount();
+    const spentThisMonth = service.getMonthlySpend(account);
+    const budgetValue = new ConfigManager().get('monthlyBudget');
+    const budget = budgetValue && Number(budgetValue) >= 0 ? Number(budgetValue) : undefined;
+    const limit = options.limit ? parseInt(options.limit, 10) : 20;
+    const transactions = account.transactions.slice(0, limit > 0 ? limit : undefined);
+
+    if (options.json) {
+      printResult({
+        offline: account.offline,
+        balance: account.balance ?? null,
+        spentThisMonth,
+        monthlyBudget: budget ?? null,
+        remainingThisMonth: budget !== undefined ? Math.max(0, budget - spentThisMonth) : null,
+        transactions
+      });
+      return;
+    }
+
+    console.log(chalk.cyan('\n💰 Credits\n'));
+    if (account.offline) {
+      console.log(chalk.yellow('⚠️  Backend unreachable - showing spend from local history only\n'));
+    } else {
+      console.log(chalk.white(`  Balance:          ${chalk.bold(this.formatAmount(account.balance ?? 0))}`));
+    }
+    console.log(chalk.white(`  Spent this month: ${chalk.bold(this.formatAmount(spentThisMonth))}`));
+    if (budget !== undefined) {
+      const remaining = Math.max(0, budget - spentThisMonth);
+      const color = remaining === 0 ? chalk.red : spentThisMonth >= budget * 0.8 ? chalk.yellow : chalk.green;
+      console.log(chalk.white(`  Monthly budget:   ${this.formatAmount(budget)} (${color(`${this.formatAmount(remaining)} left`)})`));
+    } else {
+      console.log(chalk.gray('  Monthly budget:   none (hokipoki config set monthlyBudget <credits>)'));
+    }
+
+    console.log(chalk.cyan('\n  History\n'));
+    if (transactions.length === 0) {
+      console.log(chalk.gray('  No credit transactions yet\n'));
+      return;
+    }
+    for (const transaction of transactions) {
+      const date = new Date(transaction.createdAt).toLocaleDateString();
+      const task = transaction.taskId ? chalk.bold(transaction.taskId.slice(0, 8)) + '  ' : '';
+      const details = [transaction.tool, transaction.description].filter(Boolean).join(' · ');
+      console.log(`  ${chalk.gray(date.padEnd(11))} ${this.colorAmount(transaction)}  ${task}${chalk.gray(this.truncate(details, 60))}`);
+    }
+    console.log(chalk.gray(`\n  Showing ${transactions.length} of ${account.transactions.length} transaction(s)\n`));
+  }
+
+  private colorAmount(transaction: CreditTransaction): string {
+    const outgoing = transaction.type === 'spent';
+    const text = `${outgoing ? '-' : '+'}${this.formatAmount(transaction.amount)}`.padStart(8);
+    return outgoing ? chalk.red(text) : chalk.green(text);
+  }
+
+  private formatAmount(credits: number): string {
+    return Number.isInteger(credits) ? String(credits) : credits.toFixed(1);
+  }
+
+  private truncate(text: string, max: number): string {
+    return text.length > max ? text.slice(0, max - 3) + '...' : text;
+  }
+}
@@ -0,0 +1,365 @@
+// Doctor CLI Command
+// Diagnoses the local environment: Node, git, Docker, executor image, frpc, loop devices, auth
+
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { KeycloakManager } from '../auth/keycloak-manager';
+import { OAuthManager } from '../auth/oauth-manager';
+import { ConfigManager } from '../config/config-manager';
+import { FrpManager } from '../src/services/frp-manager';
+import { Logger } from '../src/utils/logger';
+import { printResult } from '../src/utils/output';
+import { SecureProviderCLI } from './provider-secure';
+
+const execAsync = promisify(exec);
+
+// `git init -b` (used by the ephemeral git server) requires git 2.28
+const MIN_GIT_VERSION = [2, 28];
+const MIN_NODE_MAJOR = 18;
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  message: string;
+  hint?: string;        // Remediation for warn/fail
+}
+
+interface DoctorOptions {
+  json?: boolean;
+}
+
+export class DoctorCommand {
+  private dockerAvailable = false;
+
+  async run(options: DoctorOptions = {}): Promise<void> {
+    const checks: Array<() => Promise<CheckResult>> = [
+      () => this.checkNode(),
+      () => this.checkGit(),
+      () => this.checkDocker(),
+      () => this.checkExecutorImage(),
+      () => this.checkLoopDevices(),
+      () => this.checkFrpc(),
+      () => this.checkAuth(),
+      () => this.checkBackend(),
+      () => this.checkProviderTools()
+    ];
+
+    if (!options.json) {
+      console.log(chalk.bold.cyan('\n🩺 HokiPoki Doctor\n'));
+    }
+
+    const results: CheckResult[] = [];
+    for (const check of checks) {
+      let result: CheckResult;
+      try {
+        result = await check();
+      } catch (error: any) {
+        result = { name: 'unknown', status: 'fail', message: error.message };
+      }
+      results.push(result);
+      if (!options.json) {
+        this.printCheck(result);
+      }
+    }
+
+    const summary = {
+      pass: results.filter(r => r.status === 'pass').length,
+      warn: results.filter(r => r.status === 'warn').length,
+      fail: results.filter(r => r.status === 'fail').length
+    };
+
+    if (options.json) {
+      printResult({ ok: summary.fail === 0, summary, checks: results });
+    } else {
+      console.log('');
+      const line = `${summary.pass} passed, ${summary.warn} warning(s), ${summary.fail} failed`;
+      if (summary.fail > 0) {
+        console.log(chalk.red(`❌ ${line}\n`));
+      } else if (summary.warn > 0) {
+        console.log(chalk.yellow(`⚠️  ${line}\n`));
+      } else {
+        console.log(chalk.green(`✅ ${line}\n`));
+      }
+    }
+
+    if (summary.fail > 0) {
+      process.exit(1);
+    }
+  }
+
+  private async checkNode(): Promise<CheckResult> {
+    const major = parseInt(process.versions.node.split('.')[0], 10);
+    if (major < MIN_NODE_MAJOR) {
+      return {
+        name: 'node',
+        status: 'fail',
+        message: `Node.js ${process.versions.node} is too old`,
+        hint: `Install Node.js ${MIN_NODE_MAJOR} or newer`
+      };
+    }
+    return { name: 'node', status: 'pass', message: `Node.js ${process.versions.node}` };
+  }
+
+  private async checkGit(): Promise<CheckResult> {
+    let version: string;
+    try {
+      const { stdout } = await execAsync('git --version');
+      version = stdout.trim().replace(/^git version /, '');
+    } catch {
+      return {
+        name: 'git',
+        status: 'fail',
+        message: 'git is not installed',
+        hint: 'Install git: https://git-scm.com/downloads'
+      };
+    }
+
+    const [major, minor] = version.split('.').map(part => parseInt(part, 10));
+    if (major < MIN_GIT_VERSION[0] || (major === MIN_GIT_VERSION[0] && minor < MIN_GIT_VERSION[1])) {
+      return {
+        name: 'git',
+        status: 'fail',
+        message: `git ${version} is too old (need ${MIN_GIT_VERSION.join('.')}+)`,
+        hint: 'Upgrade git: https://git-scm.com/downloads'
+      };
+    }
+
+    // The ephemeral git server shells out to `git http-backend`
+    try {
+      const { stdout } = await execAsync('git --exec-path');
+      const backendPath = path.join(stdout.trim(), 'git-http-backend');
+      if (!fs.existsSync(backendPath) && !fs.existsSync(`${backendPath}.exe`)) {
+        return {
+          name: 'git',
+          status: 'fail',
+          message: `git ${version} is missing git-http-backend`,
+          hint: 'Install the full git package (some minimal distributions omit http-backend)'
+        };
+      }
+    } catch {
+      // Could not determine exec path - the version check is the best we can do
+    }
+
+    return { name: 'git', status: 'pass', message: `git ${version} with http-backend` };
+  }
+
+  private async checkDocker(): Promise<CheckResult> {
+    let version: string;
+    try {
+      const { stdout } = await execAsync('docker --version');
+      version = stdout.trim();
+    } catch {
+      return {
+        name: 'docker',
+        status: 'fail',
+        message: 'Docker is not installed',
+        hint: 'Install Docker: https://docs.docker.com/get-docker/'
+      };
+    }
+
+    try {
+      await execAsync('docker info --format "{{.ServerVersion}}"', { timeout: 10000 });
+    } catch {
+      return {
+        name: 'docker',
+        status: 'fail',
+        message: `${version} (daemon not running)`,
+        hint: 'Start Docker Desktop or the docker service (sudo systemctl start docker)'
+      };
+    }
+
+    this.dockerAvailable = true;
+    return { name: 'docker', status: 'pass', message: version };
+  }
+
+  private async checkExecutorImage(): Promise<CheckResult> {
+    if (!this.dockerAvailable) {
+      return {
+        name: 'executor-image',
+        status: 'warn',
+        message: 'Skipped (Docker unavailable)',
+        hint: 'Fix the Docker check first'
+      };
+    }
+
+    const imageStatus = await new SecureProviderCLI().getExecutorImageStatus();
+    switch (imageStatus) {
+      case 'ready':
+        return { name: 'executor-image', status: 'pass', message: 'hokipoki/secure-executor is up to date' };
+      case 'stale':
+        return {
+          name: 'executor-image',
+          status: 'warn',
+          message: 'hokipoki/secure-executor is older than the executor source',
+          hint: "It will be rebuilt on the next 'hokipoki listen' (or run: npm run build-docker)"
+        };
+      default:
+        return {
+          name: 'executor-image',
+          status: 'warn',
+          message: 'hokipoki/secure-executor has not been built',
+          hint: "It will be built automatically when you run 'hokipoki listen'"
+        };
+    }
+  }
+
+  /**
+   * The executor formats a LUKS container on a loop device, which needs host loop support
+   */
+  private async checkLoopDevices(): Promise<CheckResult> {
+    if (os.platform() !== 'linux') {
+      return { name: 'loop-devices', status: 'pass', message: 'Provided by the Docker Desktop VM' };
+    }
+
+    if (!fs.existsSync('/dev/loop-control')) {
+      return {
+        name: 'loop-devices',
+        status: 'fail',
+        message: '/dev/loop-control not found (LUKS workspace encryption will fail)',
+        hint: 'Load the loop module: sudo modprobe loop'
+      };
+    }
+
+    try {
+      const { stdout } = await execAsync('losetup -f');
+      return { name: 'loop-devices', status: 'pass', message: `Loop devices available (next free: ${stdout.trim()})` };
+    } catch {
+      // losetup needs root on some distributions; loop-control existing is a good enough signal
+      return { name: 'loop-devices', status: 'pass', message: 'Loop device support available' };
+    }
+  }
+
+  private async checkFrpc(): Promise<CheckResult> {
+    const frpManager = new FrpManager(new Logger('FRP'));
+    const installed = await frpManager.findFrpcBinary();
+    if (installed) {
+      return { name: 'frpc', status: 'pass', message: `frpc found at ${installed}` };
+    }
+
+    let downloadUrl: string;
+    try {
+      downloadUrl = frpManager.getFrpcDownloadUrl();
+    } catch (error: any) {
+      return {
+        name: 'frpc',
+        status: 'fail',
+        message: error.message,
+        hint: 'Install frpc manually and put it on your PATH: https://github.com/fatedier/frp/releases'
+      };
+    }
+
+    try {
+      await execAsync('curl --version');
+    } catch {
+      return {
+        name: 'frpc',
+        status: 'fail',
+        message: 'frpc not installed and curl is unavailable to download it',
+        hint: 'Install curl, or install frpc manually and put it on your PATH'
+      };
+    }
+
+    if (await this.isReachable(downloadUrl, 'HEAD')) {
+      return {
+        name: 'frpc',
+        status: 'warn',
+        message: 'frpc not installed (will be downloaded on first request)',
+        hint: `Optional: pre-install from ${downloadUrl}`
+      };
+    }
+
+    return {
+      name: 'frpc',
+      status: 'fail',
+      message: 'frpc not installed and the release download is unreachable',
+      hint: `Download ${downloadUrl} and extract frpc to ~/.hokipoki/bin/`
+    };
+  }
+
+  private async checkAuth(): Promise<CheckResult> {
+    const keycloakManager = new KeycloakManager();
+    const expiresAt = await keycloakManager.getTokenExpiry();
+
+    if (!expiresAt) {
+      return {
+        name: 'auth',
+        status: 'fail',
+        message: 'Not logged in',
+        hint: 'Run: hokipoki login'
+      };
+    }
+
+    // getToken() refreshes expired access tokens; failure means the session itself is gone
+    if (!await keycloakManager.isAuthenticated()) {
+      return {
+        name: 'auth',
+        status: 'fail',
+        message: `Session expired (access token expired ${expiresAt.toLocaleString()})`,
+        hint: 'Run: hokipoki login'
+      };
+    }
+
+    const email = await keycloakManager.getUserEmail();
+    const refreshed = expiresAt.getTime() < Date.now();
+    return {
+      name: 'auth',
+      status: 'pass',
+      message: refreshed ? `Logged in as ${email} (token refreshed)` : `Logged in as ${email}`
+    };
+  }
+
+  private async checkBackend(): Promise<CheckResult> {
+    const backendUrl = new ConfigManager().getBackendUrl();
+    if (await this.isReachable(backendUrl, 'GET')) {
+      return { name: 'backend', status: 'pass', message: `${backendUrl} is reachable` };
+    }
+    return {
+      name: 'backend',
+      status: 'fail',
+      message: `${backendUrl} is unreachable`,
+      hint: 'Check your network/proxy, or the backendUrl setting: hokipoki config get backendUrl'
+    };
+  }
+
+  private async checkProviderTools(): Promise<CheckResult> {
+    const tools = await new OAuthManager().getAuthenticatedTools();
+    if (tools.length === 0) {
+      return {
+        name: 'provider-tools',
+        status: 'warn',
+        message: 'No authenticated AI tools (only needed to provide)',
+        hint: 'Run: hokipoki register --as-provider --tools claude codex gemini'
+      };
+    }
+    return { name: 'provider-tools', status: 'pass', message: `Authenticated tools: ${tools.join(', ')}` };
+  }
+
+  private async isReachable(url: string, method: 'GET' | 'HEAD'): Promise<boolean> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000);
+    try {
+      // Any HTTP response means the host is reachable
+      await fetch(url, { method, signal: controller.signal, redirect: 'manual' });
+      return true;
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private printCheck(result: CheckResult): void {
+    const icon = result.status === 'pass' ? '✅' : result.status === 'warn' ? '⚠️ ' : '❌';
+    const color = result.status === 'pass' ? chalk.green : result.status === 'warn' ? chalk.yellow : chalk.red;
+    console.log(`${icon} ${chalk.bold(result.name.padEnd(15))} ${color(result.message)}`);
+    if (result.hint && result.status !== 'pass') {
+      console.log(chalk.gray(`   ${''.padEnd(15)} → ${result.hint}`));
+    }
+  }
+}
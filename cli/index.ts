@@ -3,14 +3,29 @@
 // HokiPoki CLI - Main entry point
 // Provides both provider and requester functionality
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import chalk from 'chalk';
 import { ProviderCommand } from './provider';
 import { RequesterCommand } from './requester';
 import { SecureProviderCLI } from './provider-secure';
 import { KeycloakManager } from '../auth/keycloak-manager';
+import { ConfigManager } from '../config/config-manager';
+import { ConfigCommand } from './config';
+import { TasksCommand } from './tasks';
+import { ResultsCommand } from './results';
+import { CreditsCommand } from './credits';
+import { AttachCommand } from './attach';
+import { BatchCommand } from './batch';
+import { DoctorCommand } from './doctor';
+import { ProfileCommand } from './profile';
+import { ProfileManager } from '../config/profile-manager';
+import { WorkspaceCommand } from './workspace';
+import { WorkspaceService } from '../src/services/workspace-service';
 import { version } from '../package.json';
 import { handleCompletion, installCompletion, uninstallCompletion } from './completion';
+import { OUTPUT_FORMATS, OutputFormat, configureColor, configureOutput, getOutputFormat, isOutputFormat, printResult } from '../src/utils/output';
+import { APPLY_MODES } from '../src/services/patch-applier';
+import { DETACHED_DECISIONS } from '../src/services/detached-tasks';
 
 // Handle tab completion (must be before any output)
 // tabtab requires all three: COMP_LINE, COMP_CWORD, and COMP_POINT
@@ -19,6 +34,9 @@ if (process.env.COMP_LINE && process.env.COMP_CWORD && process.env.COMP_POINT) {
   process.exit(0);
 }
 
+// Honor NO_COLOR / non-TTY before anything (including the banner) is printed
+configureColor();
+
 const program = new Command();
 
 // Combined logo and banner
@@ -62,7 +80,31 @@ program
   .description(chalk.bold('Decentralized P2P marketplace for AI CLI tools') + '\n\n' +
     chalk.dim('  Share your idle AI subscriptions.\n') +
     chalk.dim('  Request help from any AI tool, pay per use.\n'))
-  .version(version);
+  .version(version)
+  .option('--profile <name>', 'Account profile to use (default: HOKIPOKI_PROFILE or `hokipoki profile use`)')
+  .addOption(new Option('--output <format>', 'Output format (default: HOKIPOKI_OUTPUT or table)').choices(OUTPUT_FORMATS));
+
+// Expose --profile to every manager via HOKIPOKI_PROFILE before any command runs
+program.hook('preAction', (_program, actionCommand) => {
+  const { profile, output } = program.opts();
+  if (profile) {
+    if (!ProfileManager.isValidName(profile)) {
+      console.error(chalk.red(`\n❌ Invalid profile name: ${profile}\n`));
+      process.exit(1);
+    }
+    process.env.HOKIPOKI_PROFILE = profile;
+  }
+
+  // --output wins over HOKIPOKI_OUTPUT; a command's own --json is shorthand for --output json
+  const envOutput = process.env.HOKIPOKI_OUTPUT;
+  const format: OutputFormat = output
+    || (envOutput && isOutputFormat(envOutput) ? envOutput : undefined)
+    || (actionCommand.opts().json ? 'json' : 'table');
+  configureOutput(format);
+  if (format !== 'table') {
+    actionCommand.setOptionValue('json', true);
+  }
+});
 
 // Provider registration
 program
@@ -79,9 +121,10 @@ program
     chalk.dim('   • gemini → runs "gemini" (Google OAuth)'))
   .requiredOption('--as-provider', 'Register as a provider')
   .requiredOption('--tools <tools...>', 'AI tools to authenticate (e.g., claude codex)')
+  .option('--json', 'Output as JSON')
   .action(async (options) => {
     const secureProvider = new SecureProviderCLI();
-    await secureProvider.register(options.tools);
+    await secureProvider.register(options.tools, { json: options.json });
   });
 
 // Provider commands
@@ -99,9 +142,13 @@ program
     chalk.dim('   → Only checks gemini token, opens browser if expired'))
   .requiredOption('-t, --tools <tools...>', 'AI tools to offer this session (e.g., claude codex gemini)')
   .option('-p, --port <port>', 'P2P connection port (default: 9090)', '9090')
-  .option('-s, --server <url>', 'Relay server (default: wss://relay.hoki-poki.ai)', 'wss://relay.hoki-poki.ai')
+  .option('-s, --server <url>', 'Relay server (default: config "server" or wss://relay.hoki-poki.ai)')
   .option('--secure', 'Use LUKS-encrypted Docker sandbox (production mode)')
   .action(async (options) => {
+    // listen never produces a single result, so structured output is always an event stream
+    if (getOutputFormat() === 'json') {
+      configureOutput('ndjson');
+    }
     if (options.secure) {
       console.log(chalk.yellow('Secure mode coming soon - use demo mode for now'));
     }
@@ -127,37 +174,118 @@ program
     chalk.dim('   --tool claude              # Anthropic Claude Code') + '\n' +
     chalk.dim('   --tool codex               # OpenAI Codex CLI') + '\n' +
     chalk.dim('   --tool gemini              # Google Gemini CLI') + '\n\n' +
+    chalk.yellow('   Compare several providers:') + '\n' +
+    chalk.dim('   --providers 3 --tool claude --tool codex   # Run in parallel, keep one result') + '\n\n' +
+    chalk.yellow('   Follow up on a result:') + '\n' +
+    chalk.dim('   --continue <taskId> --task "also handle null input"') + '\n\n' +
+    chalk.yellow('   Check the result before accepting it:') + '\n' +
+    chalk.dim('   --verify "npm test" --verify-retries 2') + '\n\n' +
+    chalk.yellow('   Run in the background:') + '\n' +
+    chalk.dim('   --detach    # then: hokipoki attach <id>, hokipoki tasks pending') + '\n\n' +
     chalk.yellow('   Codex CLI sandbox configuration:') + '\n' +
     chalk.dim('   Codex sandbox blocks .git/ writes by default.') + '\n' +
     chalk.dim('   To enable auto-apply, add to ~/.codex/config.toml:') + '\n' +
     chalk.dim('     [sandbox_workspace_write]') + '\n' +
     chalk.dim('     writable_roots = [".git"]'))
-  .option('--tool <tool>', 'AI tool to use (claude, codex, or gemini)')
+  .option('--tool <tool>', 'AI tool to use (claude, codex, or gemini; default: config "tool"); repeat to fan out to several tools',
+    (value: string, previous?: string[]) => previous ? [...previous, value] : [value])
+  .option('--providers <n>', 'Run the task on N providers in parallel and pick one result (max 5)')
   .requiredOption('--task <task>', 'Task description (what you need help with)')
+  .option('--continue <taskId>', 'Follow up on a finished task: same files and provider, building on its changes')
   .option('--files <files...>', 'Specific files to include (e.g., src/main.ts)')
   .option('--dir <directories...>', 'Directories to include recursively')
   .option('--all', 'Include entire repository (respects .gitignore)')
-  .option('--workspace <name>', 'Workspace to publish task to (default: personal workspace)')
-  .option('-s, --server <url>', 'Relay server URL (default: wss://relay.hoki-poki.ai)', 'wss://relay.hoki-poki.ai')
+  .option('--changed', 'Include files with uncommitted changes (plus untracked files)')
+  .option('--staged', 'Include files staged in the git index')
+  .option('--since <ref>', 'Include files changed since a git ref (plus untracked files)')
+  .option('--with-deps [depth]', 'Also include local modules imported by the selected files (default depth: 1)')
+  .option('--redact', 'Upload detected secrets as placeholders (restored when the patch is applied) instead of blocking')
+  .option('--allowlist <file>', 'Secret scanner allowlist (default: .hokipoki-allowlist)')
+  .option('--max-upload <budget>', 'Upload budget, e.g. "files=200,size=2MB,tokens=300k" (default: config "maxUpload" or files=500,size=5MB,tokens=1m)')
+  .addOption(new Option('--apply-mode <mode>', 'Where to apply results: working-tree (default), branch (commit to hokipoki/<taskId>) or worktree')
+    .choices(APPLY_MODES))
+  .option('--dry-run', 'List the files that would be uploaded (and those excluded by .hokipokiignore), then exit')
+  .option('--verify <command>', 'Apply the result in a temporary worktree and run a command (e.g. "npm test"); accept only if it passes')
+  .option('--verify-retries <n>', 'Send a failed verification\'s output back to the provider up to N times (default: 0)')
+  .option('--match-timeout <duration>', 'Give up if no provider accepts within this time, e.g. 90s, 10m (default: config "matchTimeout" or 10m; 0: no limit)')
+  .option('--execution-timeout <duration>', 'Give up if the provider returns no result within this time (default: config "executionTimeout" or 1h; 0: no limit)')
+  .option('--retries <n>', 'After a timeout, cancel and publish the task again up to N times (default: 0)')
+  .option('--max-credits <n>', 'Refuse to publish if the estimated cost is higher than N credits')
+  .option('--detach', 'Run the task in the background; follow and review it with: hokipoki attach <id>')
+  .addOption(new Option('--agent <id>', 'Background agent of a detached task').hideHelp())
+  .option('--include-diff', 'Add the diff of --changed/--staged/--since files to the task description')
+  .option('--workspace <name>', 'Workspace to publish task to (default: config "workspace" or personal workspace)')
+  .option('-s, --server <url>', 'Relay server URL (default: config "server" or wss://relay.hoki-poki.ai)')
   .option('--git-host <host>', 'Git server host/IP (auto-detected if not specified)')
   .option('--json', 'Output as JSON (for AI CLI parsing)')
   .option('--interactive', 'Force interactive prompts (HUMAN USE ONLY - breaks AI CLIs)')
   .option('--no-auto-apply', 'Don\'t auto-apply patches (just save them)')
   .action(async (options) => {
-    const requester = new RequesterCommand(options);
+    const requester = new RequesterCommand({ ...options, tool: options.tool?.[0], tools: options.tool });
     await requester.execute();
   });
 
+// Reconnect to a detached request
+program
+  .command('attach <id>')
+  .description(chalk.green('🛰️  Follow a detached request and review its result') + '\n' +
+    chalk.dim('   <id> is the ID printed by request --detach, or the task ID') + '\n' +
+    chalk.dim('   Ctrl-C detaches again; the task keeps running'))
+  .addOption(new Option('--action <action>', 'Decide without prompting once the result is ready')
+    .choices(DETACHED_DECISIONS))
+  .option('--json', 'Output as JSON')
+  .action(async (id, options) => {
+    await new AttachCommand().run(id, options);
+  });
+
+// Batch of tasks, run one after another
+program
+  .command('batch <manifest>')
+  .description(chalk.green('📦 Run several tasks from a YAML/JSON manifest') + '\n' +
+    chalk.dim('   Tasks run one at a time; each result is applied with its apply mode') + '\n' +
+    chalk.dim('   and a JSON + Markdown report is written at the end') + '\n\n' +
+    chalk.yellow('   Manifest:') + '\n' +
+    chalk.dim('   defaults: { tool: claude, applyMode: branch }') + '\n' +
+    chalk.dim('   tasks:') + '\n' +
+    chalk.dim('     - task: Convert src/utils.js to TypeScript') + '\n' +
+    chalk.dim('       files: [src/utils.js]'))
+  .option('--report <path>', 'Report path without extension (default: hokipoki-batch-<timestamp>)')
+  .option('--retries <n>', 'Retries per task when no provider is available, with backoff (default: 5)')
+  .option('--stop-on-error', 'Skip the remaining tasks after one fails')
+  .option('--json', 'Output as JSON')
+  .action(async (manifest, options) => {
+    await new BatchCommand().run(manifest, options);
+  });
+
 // Authentication commands
 program
   .command('login')
   .description(chalk.cyan('🔐 Authenticate with HokiPoki') + '\n' +
-    chalk.dim('   Required before using any other command'))
-  .action(async () => {
+    chalk.dim('   Required before using any other command') + '\n\n' +
+    chalk.yellow('   Headless (SSH, CI):') + '\n' +
+    chalk.dim('   hokipoki login --device'))
+  .option('--device', 'Log in with a device code instead of opening a browser (for SSH/CI)')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
     try {
       const keycloak = new KeycloakManager();
-      await keycloak.login();
+      await keycloak.login({ device: options.device });
+      // Memberships belong to the account that just logged in
+      await new WorkspaceService().clearCache();
+
+      if (options.json) {
+        printResult({
+          authenticated: true,
+          profile: new ProfileManager().getActiveProfile(),
+          email: await keycloak.getUserEmail()
+        });
+      }
     } catch (error: any) {
+      if (options.json) {
+        printResult({ authenticated: false, error: error.message });
+        process.exit(1);
+      }
+
       // Check if error is about email verification
       if (error.message?.includes('not verified')) {
         // Error already printed in keycloak-manager
@@ -175,12 +303,21 @@ program
   .command('logout')
   .description(chalk.cyan('🚪 Logout from HokiPoki') + '\n' +
     chalk.dim('   Remove local authentication token'))
-  .action(async () => {
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
     try {
       const keycloak = new KeycloakManager();
       await keycloak.logout();
+      await new WorkspaceService().clearCache();
+      if (options.json) {
+        printResult({ loggedOut: true, profile: new ProfileManager().getActiveProfile() });
+      }
     } catch (error: any) {
-      console.error(chalk.red('Logout failed:'), error.message);
+      if (options.json) {
+        printResult({ loggedOut: false, error: error.message });
+      } else {
+        console.error(chalk.red('Logout failed:'), error.message);
+      }
       process.exit(1);
     }
   });
@@ -189,17 +326,23 @@ program
   .command('whoami')
   .description(chalk.cyan('👤 Show current user information') + '\n' +
     chalk.dim('   Display logged-in user email and token status'))
-  .action(async () => {
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    const activeProfile = new ProfileManager().getActiveProfile();
     try {
       const keycloak = new KeycloakManager();
       if (!await keycloak.isAuthenticated()) {
-        console.log(chalk.yellow('\n❌ Not authenticated'));
-        console.log(chalk.gray('Please run: hokipoki login\n'));
+        if (options.json) {
+          printResult({ authenticated: false, profile: activeProfile, error: 'Not authenticated. Please run: hokipoki login' });
+        } else {
+          console.log(chalk.yellow(`\n❌ Not authenticated (profile: ${activeProfile})`));
+          console.log(chalk.gray('Please run: hokipoki login\n'));
+        }
         process.exit(1);
       }
 
       const token = await keycloak.getToken();
-      const response = await fetch('https://api.hoki-poki.ai/api/profile', {
+      const response = await fetch(`${new ConfigManager().getApiUrl()}/profile`, {
         headers: { 'Authorization': `Bearer ${token}` }
       });
 
@@ -208,16 +351,35 @@ program
       }
 
       const profile: any = await response.json();
+
+      if (options.json) {
+        printResult({
+          authenticated: true,
+          profile: activeProfile,
+          id: profile.id,
+          email: profile.email,
+          workspace: profile.workspace ? { id: profile.workspace.id, name: profile.workspace.name } : null,
+          memberSince: profile.createdAt,
+          tokenExpiresAt: (await keycloak.getTokenExpiry())?.toISOString() || null
+        });
+        return;
+      }
+
       const memberSince = new Date(profile.createdAt).toLocaleDateString();
 
       console.log(chalk.green('\n✅ Authenticated'));
+      console.log(chalk.cyan(`👥 Profile: ${activeProfile}`));
       console.log(chalk.cyan(`📧 Email: ${profile.email}`));
       if (profile.workspace) {
         console.log(chalk.magenta(`🏢 Workspace: ${profile.workspace.name}`));
       }
       console.log(chalk.gray(`📅 Member since: ${memberSince}\n`));
     } catch (error: any) {
-      console.error(chalk.red('Error:'), error.message);
+      if (options.json) {
+        printResult({ error: error.message });
+      } else {
+        console.error(chalk.red('Error:'), error.message);
+      }
       process.exit(1);
     }
   });
@@ -227,8 +389,12 @@ program
   .command('dashboard')
   .description(chalk.yellow('📊 Open the web dashboard') + '\n' +
     chalk.dim('   View your stats and task history'))
-  .action(() => {
-    const dashboardUrl = 'https://app.hoki-poki.ai/dashboard';
+  .option('--json', 'Output as JSON')
+  .action((options) => {
+    const dashboardUrl = `${new ConfigManager().getAppUrl()}/dashboard`;
+    if (options.json) {
+      printResult({ url: dashboardUrl });
+    }
     console.log(chalk.cyan(`\n🌐 Opening dashboard at ${dashboardUrl}\n`));
 
     const { exec } = require('child_process');
@@ -248,21 +414,26 @@ program
   .description(chalk.blue('📊 Check account status') + '\n' +
     chalk.dim('   See your completed tasks and reputation'))
   .option('--provider', 'Show provider-specific stats')
+  .option('--json', 'Output as JSON')
   .action(async (options) => {
     if (options.provider) {
-      const secureProvider = new SecureProviderCLI();
-      await secureProvider.status();
+      // Provider checks (tools, Docker, executor image) live in `hokipoki doctor`
+      await new DoctorCommand().run({ json: options.json });
     } else {
       try {
         const keycloak = new KeycloakManager();
         if (!await keycloak.isAuthenticated()) {
-          console.log(chalk.yellow('\n❌ Not authenticated'));
-          console.log(chalk.gray('Please run: hokipoki login\n'));
+          if (options.json) {
+            printResult({ authenticated: false, error: 'Not authenticated. Please run: hokipoki login' });
+          } else {
+            console.log(chalk.yellow('\n❌ Not authenticated'));
+            console.log(chalk.gray('Please run: hokipoki login\n'));
+          }
           process.exit(1);
         }
 
         const token = await keycloak.getToken();
-        const response = await fetch('https://api.hoki-poki.ai/api/profile', {
+        const response = await fetch(`${new ConfigManager().getApiUrl()}/profile`, {
           headers: { 'Authorization': `Bearer ${token}` }
         });
 
@@ -274,6 +445,16 @@ program
         const requestedCount = profile.pagination?.requestedTasks?.total || 0;
         const providedCount = profile.pagination?.providedTasks?.total || 0;
 
+        if (options.json) {
+          printResult({
+            email: profile.email,
+            workspace: profile.workspace ? { id: profile.workspace.id, name: profile.workspace.name } : null,
+            tasksRequested: requestedCount,
+            tasksProvided: providedCount
+          });
+          return;
+        }
+
         console.log(chalk.cyan('\n📊 Account Status\n'));
         console.log(chalk.white(`  📧 Email: ${chalk.bold(profile.email)}`));
         if (profile.workspace) {
@@ -284,12 +465,265 @@ program
         console.log(chalk.magenta(`  📥 Tasks Provided: ${chalk.bold(providedCount)}`));
         console.log('');
       } catch (error: any) {
-        console.error(chalk.red('Error:'), error.message);
+        if (options.json) {
+          printResult({ error: error.message });
+        } else {
+          console.error(chalk.red('Error:'), error.message);
+        }
         process.exit(1);
       }
     }
   });
 
+// Environment diagnostics
+program
+  .command('doctor')
+  .description(chalk.cyan('🩺 Diagnose your environment') + '\n' +
+    chalk.dim('   Checks Node, git, Docker, executor image, frpc, loop devices and login') + '\n\n' +
+    chalk.yellow('   Example:') + '\n' +
+    chalk.dim('   hokipoki doctor --json'))
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await new DoctorCommand().run(options);
+  });
+
+// Workspace commands
+const workspaceCommand = program
+  .command('workspace')
+  .description(chalk.cyan('🏢 Manage workspaces') + '\n' +
+    chalk.dim('   Workspaces decide where requests are routed and which tasks you serve') + '\n\n' +
+    chalk.yellow('   Example:') + '\n' +
+    chalk.dim('   hokipoki workspace use next-halo-team'));
+
+workspaceCommand
+  .command('list')
+  .description('List your workspaces (cached; marks request default and listen set)')
+  .option('--refresh', 'Fetch from the backend instead of using the cache')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await new WorkspaceCommand().list(options);
+  });
+
+workspaceCommand
+  .command('show [name]')
+  .description('Show workspace details (default: your request default or personal workspace)')
+  .option('--json', 'Output as JSON')
+  .action(async (name, options) => {
+    await new WorkspaceCommand().show(name, options);
+  });
+
+workspaceCommand
+  .command('use <names...>')
+  .description('Set the default workspace for requests (first name) and the workspaces served by listen (all names)')
+  .option('--request', 'Only set the default workspace for requests')
+  .option('--listen', 'Only set the workspaces served by listen')
+  .option('--json', 'Output as JSON')
+  .action(async (names, options) => {
+    await new WorkspaceCommand().use(names, options);
+  });
+
+workspaceCommand
+  .command('create <name>')
+  .description('Create a team workspace')
+  .option('--json', 'Output as JSON')
+  .action(async (name, options) => {
+    await new WorkspaceCommand().create(name, options);
+  });
+
+workspaceCommand
+  .command('invite <name> <email>')
+  .description('Invite someone to a workspace by email')
+  .option('--json', 'Output as JSON')
+  .action(async (name, email, options) => {
+    await new WorkspaceCommand().invite(name, email, options);
+  });
+
+workspaceCommand
+  .command('members [name]')
+  .description('List workspace members')
+  .option('--json', 'Output as JSON')
+  .action(async (name, options) => {
+    await new WorkspaceCommand().members(name, options);
+  });
+
+// Profile commands
+const profileCommand = program
+  .command('profile')
+  .description(chalk.cyan('👥 Manage account profiles') + '\n' +
+    chalk.dim('   Separate logins, provider tokens and defaults (e.g. personal vs work)') + '\n\n' +
+    chalk.yellow('   Example:') + '\n' +
+    chalk.dim('   hokipoki profile use work && hokipoki login'));
+
+profileCommand
+  .command('list')
+  .description('List profiles and their login status')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await new ProfileCommand().list(options);
+  });
+
+profileCommand
+  .command('use <name>')
+  .description('Switch the active profile (creates it if needed)')
+  .option('--json', 'Output as JSON')
+  .action(async (name, options) => {
+    await new ProfileCommand().use(name, options);
+  });
+
+// Configuration commands
+const configCommand = program
+  .command('config')
+  .description(chalk.cyan('⚙️  Manage CLI configuration') + '\n' +
+    chalk.dim('   Defaults for relay, backend, tool and workspace') + '\n\n' +
+    chalk.yellow('   Precedence:') + '\n' +
+    chalk.dim('   flag > env > project (.hokipoki.json) > user (~/.hokipoki/config.json) > default') + '\n\n' +
+    chalk.yellow('   Examples:') + '\n' +
+    chalk.dim('   hokipoki config set tool claude --project') + '\n' +
+    chalk.dim('   hokipoki --profile staging config set server wss://staging-relay.hoki-poki.ai') + '\n\n' +
+    chalk.dim('   server, backendUrl, appUrl, keycloakIssuer, clientId and monthlyBudget are user-only: a') + '\n' +
+    chalk.dim('   repository\'s .hokipoki.json cannot choose where your login goes or lift your budget.') + '\n' +
+    chalk.dim('   Use a profile per relay instead.'));
+
+configCommand
+  .command('get <key>')
+  .description('Show the effective value of a config key')
+  .option('--json', 'Output as JSON (includes value source)')
+  .action((key, options) => {
+    new ConfigCommand().get(key, options);
+  });
+
+configCommand
+  .command('set <key> <value>')
+  .description('Set a config value')
+  .option('--project', 'Write to the project .hokipoki.json instead of the user config')
+  .option('--json', 'Output as JSON')
+  .action((key, value, options) => {
+    new ConfigCommand().set(key, value, options);
+  });
+
+configCommand
+  .command('unset <key>')
+  .description('Remove a config value')
+  .option('--project', 'Remove from the project .hokipoki.json instead of the user config')
+  .option('--json', 'Output as JSON')
+  .action((key, options) => {
+    new ConfigCommand().unset(key, options);
+  });
+
+configCommand
+  .command('list')
+  .description('List all config keys with their effective values and sources')
+  .option('--json', 'Output as JSON')
+  .action((options) => {
+    new ConfigCommand().list(options);
+  });
+
+// Task history commands
+const tasksCommand = program
+  .command('tasks')
+  .description(chalk.cyan('📋 Browse past tasks') + '\n' +
+    chalk.dim('   Local history merged with the backend (works offline)') + '\n\n' +
+    chalk.yellow('   Example:') + '\n' +
+    chalk.dim('   hokipoki tasks list --tool claude --since 7d'));
+
+tasksCommand
+  .command('list')
+  .description('List past tasks, newest first')
+  .option('--tool <tool>', 'Filter by tool')
+  .option('--status <status>', 'Filter by status (pending, in_progress, completed, failed, cancelled)')
+  .option('--since <date>', 'Only tasks created after date (ISO date or relative: 7d, 12h, 30m)')
+  .option('--until <date>', 'Only tasks created before date (ISO date or relative)')
+  .option('--workspace <name>', 'Filter by workspace name or ID')
+  .option('--limit <n>', 'Maximum number of tasks to show', '20')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await new TasksCommand().list(options);
+  });
+
+tasksCommand
+  .command('pending')
+  .description('List detached requests (request --detach) that have not been collected with attach')
+  .option('--json', 'Output as JSON')
+  .action((options) => {
+    new TasksCommand().pending(options);
+  });
+
+tasksCommand
+  .command('show <id>')
+  .description('Show task details: description, files, diff, duration, provider')
+  .option('--json', 'Output as JSON')
+  .action(async (id, options) => {
+    await new TasksCommand().show(id, options);
+  });
+
+// Credit balance and spend history
+program
+  .command('credits')
+  .description(chalk.blue('💰 Show your credit balance and spending') + '\n' +
+    chalk.dim('   Balance, spend this month against config "monthlyBudget", and history'))
+  .option('--limit <n>', 'Maximum number of transactions to show', '20')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await new CreditsCommand().run(options);
+  });
+
+// Result store commands
+const resultsCommand = program
+  .command('results')
+  .description(chalk.cyan('📦 Browse and apply received results') + '\n' +
+    chalk.dim('   Patches, AI output and commit messages kept in ~/.hokipoki/results') + '\n\n' +
+    chalk.yellow('   Example:') + '\n' +
+    chalk.dim('   hokipoki results apply 3f2a9c1e --apply-mode branch'));
+
+resultsCommand
+  .command('list')
+  .description('List stored results, newest first')
+  .option('--status <status>', 'Filter by status (pending, applied, conflicts, saved, rejected, failed, review_only)')
+  .option('--limit <n>', 'Maximum number of results to show', '20')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await new ResultsCommand().list(options);
+  });
+
+resultsCommand
+  .command('show <id>')
+  .description('Show a result: metadata, uploaded files, commit message, AI output and diff')
+  .option('--patch', 'Print only the raw patch (e.g. to pipe into git apply)')
+  .option('--json', 'Output as JSON')
+  .action(async (id, options) => {
+    await new ResultsCommand().show(id, options);
+  });
+
+resultsCommand
+  .command('apply <id>')
+  .description('Apply a stored result in the directory it was requested from')
+  .addOption(new Option('--apply-mode <mode>', 'How to apply (default: the mode of the original request)').choices(APPLY_MODES))
+  .option('--force', 'Apply again even if the result was already applied')
+  .option('--json', 'Output as JSON')
+  .action(async (id, options) => {
+    await new ResultsCommand().apply(id, options);
+  });
+
+resultsCommand
+  .command('export <id>')
+  .description('Copy a result\'s patch and AI output out of the store')
+  .option('--dir <dir>', 'Directory to write to', 'patches')
+  .option('--json', 'Output as JSON')
+  .action(async (id, options) => {
+    await new ResultsCommand().export(id, options);
+  });
+
+resultsCommand
+  .command('prune')
+  .description('Delete old results')
+  .option('--older-than <age>', 'Relative age (30m, 12h, 30d, 2w)', '30d')
+  .option('--status <status>', 'Only delete results with this status')
+  .option('--dry-run', 'List what would be deleted')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await new ResultsCommand().prune(options);
+  });
+
 // Shell completion
 program
   .command('completion')
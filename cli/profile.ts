@@ -0,0 +1,89 @@
+// Profile CLI Command
+// Handles `hokipoki profile list/use`
+
+import chalk from 'chalk';
+import { KeycloakManager } from '../auth/keycloak-manager';
+import { ProfileManager } from '../config/profile-manager';
+import { printResult } from '../src/utils/output';
+
+interface ProfileCommandOptions {
+  json?: boolean;
+}
+
+export class ProfileCommand {
+  private profileManager: ProfileManager;
+
+  constructor() {
+    this.profileManager = new ProfileManager();
+  }
+
+  async list(options: ProfileCommandOptions = {}): Promise<void> {
+    const active = this.profileManager.getActiveProfile();
+    const profiles = [];
+
+    for (const name of this.profileManager.list()) {
+      const expiresAt = await new KeycloakManager(name).getTokenExpiry();
+      profiles.push({
+        name,
+        active: name === active,
+        loggedIn: expiresAt !== null,
+        dir: this.profileManager.getProfileDir(name)
+      });
+    }
+
+    if (options.json) {
+      printResult({ active, profiles });
+      return;
+    }
+
+    console.log(chalk.cyan('\n👥 Profiles\n'));
+    for (const profile of profiles) {
+      const marker = profile.active ? chalk.green('●') : ' ';
+      const name = profile.active ? chalk.bold.green(profile.name.padEnd(16)) : profile.name.padEnd(16);
+      const status = profile.loggedIn ? chalk.gray('logged in') : chalk.yellow('not logged in');
+      console.log(`  ${marker} ${name} ${status}`);
+    }
+    if (process.env.HOKIPOKI_PROFILE) {
+      console.log(chalk.gray(`\n  Active profile set by --profile / HOKIPOKI_PROFILE`));
+    }
+    console.log(chalk.gray('\n  Switch with: hokipoki profile use <name>\n'));
+  }
+
+  async use(name: string, options: ProfileCommandOptions = {}): Promise<void> {
+    if (!ProfileManager.isValidName(name)) {
+      if (options.json) {
+        printResult({ error: `Invalid profile name: ${name}` });
+      } else {
+        console.log(chalk.red(`\n❌ Invalid profile name: ${name}`));
+        console.log(chalk.gray('Use letters, numbers, - and _\n'));
+      }
+      process.exit(1);
+    }
+
+    const isNew = !this.profileManager.exists(name);
+    this.profileManager.use(name);
+    const expiresAt = await new KeycloakManager(name).getTokenExpiry();
+
+    if (options.json) {
+      printResult({
+        active: name,
+        created: isNew,
+        loggedIn: expiresAt !== null,
+        overriddenBy: process.env.HOKIPOKI_PROFILE && process.env.HOKIPOKI_PROFILE !== name
+          ? process.env.HOKIPOKI_PROFILE
+          : undefined
+      });
+      return;
+    }
+
+    console.log(chalk.green(`\n✅ Switched to profile: ${name}${isNew ? ' (created)' : ''}`));
+
+    if (!expiresAt) {
+      console.log(chalk.gray('Not logged in yet. Run: hokipoki login'));
+    }
+    if (process.env.HOKIPOKI_PROFILE && process.env.HOKIPOKI_PROFILE !== name) {
+      console.log(chalk.yellow(`⚠️  HOKIPOKI_PROFILE=${process.env.HOKIPOKI_PROFILE} still overrides this in the current shell`));
+    }
+    console.log('');
+  }
+}
@@ -9,6 +9,10 @@ import { promisify } from 'util';
 import path from 'path';
 import { OAuthManager } from '../auth/oauth-manager';
 import { KeycloakManager } from '../auth/keycloak-manager';
+import { ConfigManager } from '../config/config-manager';
+import { TaskHistory } from '../src/services/task-history';
+import { DEFAULT_EXECUTOR_IMAGE, getToolAdapter, getToolNames } from '../config/cli-tools';
+import { printResult } from '../src/utils/output';
 
 // Get the CLI package root directory (works regardless of where hokipoki is run from)
 // __dirname is available in CommonJS and points to the directory containing this file
@@ -16,25 +20,25 @@ const CLI_ROOT = path.resolve(__dirname, '..');
 
 const execAsync = promisify(exec);
 
-// Supported tools whitelist - these are the only tools that can be registered
-const SUPPORTED_TOOLS = ['claude', 'codex', 'gemini'];
 
 export class SecureProviderCLI {
   private oauthManager: OAuthManager;
   private keycloakManager: KeycloakManager;
   private containerName?: string;
   private backendUrl: string;
+  private history: TaskHistory;
 
   constructor() {
+    this.history = new TaskHistory();
     this.oauthManager = new OAuthManager();
     this.keycloakManager = new KeycloakManager();
-    this.backendUrl = process.env.BACKEND_URL || 'https://api.hoki-poki.ai/api';
+    this.backendUrl = new ConfigManager().getApiUrl();
   }
 
   /**
    * Register provider with OAuth authentication
    */
-  async register(tools: string[]): Promise<void> {
+  async register(tools: string[], options: { json?: boolean } = {}): Promise<void> {
     console.log(chalk.bold.cyan('\n🔐 Provider Registration\n'));
 
     // Parse tool names to extract base tool (strip model specifications)
@@ -55,16 +59,21 @@ export class SecureProviderCLI {
       }
     }
 
-    // Validate all tools are supported
-    const invalidTools = baseTools.filter(t => !SUPPORTED_TOOLS.includes(t));
+    // Validate all tools have an adapter (built-in or ~/.hokipoki/tools/*.js)
+    const invalidTools = baseTools.filter(t => !getToolAdapter(t));
     if (invalidTools.length > 0) {
+      if (options.json) {
+        printResult({ error: `Unsupported tool(s): ${invalidTools.join(', ')}`, supportedTools: getToolNames() });
+        process.exit(1);
+      }
       console.log(chalk.red(`\n❌ Unsupported tool(s): ${invalidTools.join(', ')}`));
-      console.log(chalk.yellow(`Supported tools: ${SUPPORTED_TOOLS.join(', ')}`));
+      console.log(chalk.yellow(`Supported tools: ${getToolNames().join(', ')}`));
       process.exit(1);
     }
 
     const successfulTools: string[] = [];
     const failedTools: string[] = [];
+    let savedToBackend = false;
 
     for (const tool of baseTools) {
       // ALWAYS read fresh tokens from source files (e.g., ~/.codex/auth.json)
@@ -100,6 +109,7 @@ export class SecureProviderCLI {
           throw new Error(error.error || 'Failed to save tools to database');
         }
 
+        savedToBackend = true;
         console.log(chalk.green('✅ Tools saved to database'));
       } catch (error: any) {
         console.log(chalk.yellow(`⚠️  Warning: Could not save tools to database: ${error.message}`));
@@ -107,6 +117,11 @@ export class SecureProviderCLI {
       }
     }
 
+    if (options.json) {
+      printResult({ registered: successfulTools, failed: failedTools, savedToBackend });
+      return;
+    }
+
     // Show summary
     console.log(chalk.green('\n✨ Provider registration complete!'));
 
@@ -125,7 +140,13 @@ export class SecureProviderCLI {
     console.log(chalk.gray('They will ONLY be injected into secure containers.'));
     console.log(chalk.dim('\n💡 Tip: You can now accept tasks for any model of these tools'));
     console.log(chalk.dim('   Use tool:model syntax (e.g., claude:sonnet-4, gemini:gemini-2.5-flash)'));
-    console.log(chalk.dim('   Run "claude /model" or "gemini --list-models" to see available models\n'));
+    for (const tool of successfulTools) {
+      const models = getToolAdapter(tool)?.models;
+      if (models && models.length > 0) {
+        console.log(chalk.dim(`   ${tool}: ${models.join(', ')}`));
+      }
+    }
+    console.log('');
   }
 
   /**
@@ -292,7 +313,7 @@ export class SecureProviderCLI {
         console.log(chalk.bold.red('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'));
         console.log(chalk.yellow(`\nYour ${baseTool} tokens are expired or invalid!`));
         console.log(chalk.white('\nTo fix this:'));
-        console.log(chalk.cyan(`  1. Run: ${baseTool === 'claude' ? 'claude setup-token' : baseTool + ' login'}`));
+        console.log(chalk.cyan(`  1. Run: ${getToolAdapter(baseTool)?.loginHint || baseTool + ' login'}`));
         console.log(chalk.cyan(`  2. Then restart provider: npm run hokipoki -- listen --tools ${baseTool}`));
         console.log(chalk.gray('\nNote: With the latest update, tokens are now read fresh from source files.'));
         console.log(chalk.gray('      Just restart the provider after re-authenticating.\n'));
@@ -352,6 +373,13 @@ export class SecureProviderCLI {
       }
     }
 
+    // User adapters (~/.hokipoki/tools/<name>.js) are mounted read-only so the executor can load them,
+    // and may name their own executor image with the tool's binary installed
+    const adapter = getToolAdapter(task.tool);
+    const adapterMount = adapter?.source
+      ? ['-v', `${adapter.source}:/app/tools/${path.basename(adapter.source)}:ro`, '-e', 'HOKIPOKI_TOOLS_DIR=/app/tools']
+      : [];
+
     // Return array of arguments instead of string to avoid shell escaping issues
     return [
       'run',
@@ -387,7 +415,8 @@ export class SecureProviderCLI {
       '-e', `OAUTH_TOKEN=${oauthToken}`,  // No quotes needed in array format
       // Enable debug pause if set in environment
       ...(process.env.DEBUG_PAUSE === 'true' ? ['-e', 'DEBUG_PAUSE=true'] : []),
-      'hokipoki/secure-executor'
+      ...adapterMount,
+      adapter?.image || DEFAULT_EXECUTOR_IMAGE
     ];
   }
 
@@ -397,26 +426,39 @@ export class SecureProviderCLI {
   private async buildSecureContainer(): Promise<void> {
     const dockerfilePath = path.join(CLI_ROOT, 'docker', 'Dockerfile.secure-executor');
     const buildContext = CLI_ROOT;
+    const imageStatus = await this.getExecutorImageStatus();
+
+    if (imageStatus === 'stale') {
+      console.log(chalk.yellow('[DEBUG] Source files newer than image, rebuilding...'));
+      await execAsync(`docker build -f "${dockerfilePath}" -t hokipoki/secure-executor "${buildContext}"`);
+    } else if (imageStatus === 'missing') {
+      console.log(chalk.cyan('Building secure executor image...'));
+      await execAsync(`docker build -f "${dockerfilePath}" -t hokipoki/secure-executor "${buildContext}"`);
+    } else {
+      console.log(chalk.gray('[DEBUG] Secure executor image is up to date'));
+    }
+  }
 
+  /**
+   * Compare the secure executor image against the executor source it is built from
+   */
+  async getExecutorImageStatus(): Promise<'ready' | 'stale' | 'missing'> {
+    let imageCreated: Date;
     try {
-      // Check if image exists
       const inspectResult = await execAsync('docker image inspect hokipoki/secure-executor --format "{{.Created}}"');
-      const imageCreated = new Date(inspectResult.stdout.trim());
+      imageCreated = new Date(inspectResult.stdout.trim());
+    } catch {
+      return 'missing';
+    }
 
+    try {
       // Check if executor source is newer than image
       const executorPath = path.join(CLI_ROOT, 'container', 'executor.ts');
       const { stdout: statOutput } = await execAsync(`stat -f "%m" "${executorPath}" 2>/dev/null || stat -c "%Y" "${executorPath}" 2>/dev/null`);
       const sourceModified = new Date(parseInt(statOutput.trim()) * 1000);
-
-      if (sourceModified > imageCreated) {
-        console.log(chalk.yellow('[DEBUG] Source files newer than image, rebuilding...'));
-        await execAsync(`docker build -f "${dockerfilePath}" -t hokipoki/secure-executor "${buildContext}"`);
-      } else {
-        console.log(chalk.gray('[DEBUG] Secure executor image is up to date'));
-      }
+      return sourceModified > imageCreated ? 'stale' : 'ready';
     } catch {
-      console.log(chalk.cyan('Building secure executor image...'));
-      await execAsync(`docker build -f "${dockerfilePath}" -t hokipoki/secure-executor "${buildContext}"`);
+      return 'ready';
     }
   }
 
@@ -483,43 +525,6 @@ export class SecureProviderCLI {
     }, 800); // Change frame every 800ms
   }
 
-  /**
-   * Show provider status
-   */
-  async status(): Promise<void> {
-    console.log(chalk.bold.cyan('\n📊 Provider Status\n'));
-
-    const authenticatedTools = await this.oauthManager.getAuthenticatedTools();
-
-    if (authenticatedTools.length > 0) {
-      console.log(chalk.green('Authenticated tools:'));
-      authenticatedTools.forEach(tool => {
-        console.log(chalk.gray(`  • ${tool}`));
-      });
-    } else {
-      console.log(chalk.yellow('No authenticated tools'));
-      console.log(chalk.gray('Run: npm run cli register -- --as-provider --tools claude codex'));
-    }
-
-    // Check Docker
-    try {
-      await execAsync('docker --version');
-      console.log(chalk.green('\n✅ Docker is installed'));
-    } catch {
-      console.log(chalk.red('\n❌ Docker is not installed'));
-      return;
-    }
-
-    // Check secure image
-    try {
-      await execAsync('docker image inspect hokipoki/secure-executor');
-      console.log(chalk.green('✅ Secure executor image is ready'));
-    } catch {
-      console.log(chalk.yellow('⚠️  Secure executor image needs to be built'));
-      console.log(chalk.gray(`It will be built automatically when you run 'hokipoki listen'`));
-    }
-  }
-
   /**
    * Get Keycloak token for backend API calls
    */
@@ -541,6 +546,23 @@ export class SecureProviderCLI {
     completedAt?: Date;
     summary?: string;
   }): Promise<void> {
+    // Record locally first so history works even when the backend is unreachable
+    try {
+      await this.history.record({
+        id: taskData.id,
+        role: 'provider',
+        tool: taskData.tool,
+        model: taskData.model,
+        description: taskData.description,
+        status: taskData.status,
+        credits: taskData.credits,
+        completedAt: taskData.completedAt?.toISOString(),
+        summary: taskData.summary
+      });
+    } catch {
+      // Local history is best-effort
+    }
+
     try {
       const token = await this.getBackendToken();
 
@@ -8,14 +8,15 @@ import inquirer from 'inquirer';
 import { MCPMessage, Task } from '../types';
 import { P2PConnectionWS as P2PConnection } from '../p2p/connection-ws';
 import { SecureProviderCLI } from './provider-secure';
-
-// Supported tools whitelist
-const SUPPORTED_TOOLS = ['claude', 'codex', 'gemini'];
+import { ConfigManager } from '../config/config-manager';
+import { WorkspaceService } from '../src/services/workspace-service';
+import { getToolAdapter, getToolNames } from '../config/cli-tools';
+import { emitEvent, isStructuredOutput } from '../src/utils/output';
 
 interface ProviderOptions {
   tools?: string[];
   port: string;
-  server: string;
+  server?: string;
 }
 
 export class ProviderCommand {
@@ -30,10 +31,16 @@ export class ProviderCommand {
   private workspaceId?: string; // User's active workspace ID
   private workspaceIds: string[] = []; // All workspace IDs user is a member of
   private userId?: string; // User's ID
+  private serverUrl: string;
+  private backendUrl: string;
 
   constructor(private options: ProviderOptions) {
     this.availableTools = options.tools || [];
     this.secureProvider = new SecureProviderCLI();
+
+    const config = new ConfigManager();
+    this.serverUrl = config.get('server', options.server)!;
+    this.backendUrl = config.getBackendUrl();
   }
 
   private async detectAvailableTools(): Promise<string[]> {
@@ -46,6 +53,7 @@ export class ProviderCommand {
       console.log(chalk.yellow('\n⚠️  No registered AI tools found!'));
       console.log(chalk.gray('Please register your tools first:'));
       console.log(chalk.cyan('  hokipoki register --as-provider --tools claude codex gemini\n'));
+      emitEvent('error', { error: 'No registered AI tools found' });
       process.exit(1);
     }
 
@@ -61,33 +69,32 @@ export class ProviderCommand {
     if (!await this.keycloakManager.isAuthenticated()) {
       console.log(chalk.red('\n❌ Not authenticated.'));
       console.log(chalk.yellow('Please run: hokipoki login\n'));
+      emitEvent('error', { error: 'Not authenticated. Please run: hokipoki login' });
       process.exit(1);
     }
 
     const userEmail = await this.keycloakManager.getUserEmail();
     console.log(chalk.green(`✅ Authenticated as: ${userEmail}\n`));
 
-    // Fetch user's workspace IDs from profile
+    // Fetch user's workspaces (cached per profile)
     try {
-      const backendUrl = process.env.BACKEND_URL || 'https://api.hoki-poki.ai';
-      const token = await this.keycloakManager.getToken();
-      const response = await fetch(`${backendUrl}/api/profile`, {
-        headers: {
-          'Authorization': `Bearer ${token}`
+      const { workspaces, activeWorkspaceId, userId } = await new WorkspaceService().getWorkspaces();
+      this.workspaceId = activeWorkspaceId;
+      this.userId = userId;
+
+      // Serve all memberships unless `workspace use` / listenWorkspaces narrowed it down
+      const listenWorkspaces = new ConfigManager().get('listenWorkspaces');
+      if (listenWorkspaces) {
+        const names = listenWorkspaces.split(',').map(name => name.trim()).filter(Boolean);
+        const selected = workspaces.filter(ws => names.includes(ws.name) || names.includes(ws.id));
+        const unknown = names.filter(name => !workspaces.some(ws => ws.name === name || ws.id === name));
+        if (unknown.length > 0) {
+          console.log(chalk.yellow(`⚠️  Not a member of: ${unknown.join(', ')} (ignored)`));
         }
-      });
-      if (!response.ok) throw new Error('Failed to fetch profile');
-      const data = await response.json() as {
-        workspaceId?: string;
-        id: string;
-        workspaces?: Array<{ id: string }>;
-      };
-      this.workspaceId = data.workspaceId || undefined;
-      this.userId = data.id;
-
-      // Extract ALL workspace IDs from memberships
-      if (data.workspaces && Array.isArray(data.workspaces)) {
-        this.workspaceIds = data.workspaces.map((ws) => ws.id);
+        this.workspaceIds = selected.map(ws => ws.id);
+        console.log(chalk.gray(`Serving ${selected.length} workspace(s): ${selected.map(ws => ws.name).join(', ')}\n`));
+      } else if (workspaces.length > 0) {
+        this.workspaceIds = workspaces.map(ws => ws.id);
         console.log(chalk.gray(`Member of ${this.workspaceIds.length} workspace(s)\n`));
       } else if (this.workspaceId) {
         // Fallback to active workspace only
@@ -108,30 +115,31 @@ export class ProviderCommand {
       console.log(chalk.red('\n❌ No tools specified!'));
       console.log(chalk.yellow('The --tools flag is required.'));
       console.log(chalk.gray('Example: hokipoki listen --tools gemini claude\n'));
+      emitEvent('error', { error: 'No tools specified' });
       process.exit(1);
     }
 
     // Normalize tool names to lowercase
     this.availableTools = this.availableTools.map(t => t.toLowerCase());
 
-    // Validate all requested tools are in SUPPORTED_TOOLS
+    // Validate all requested tools have an adapter
     // Extract base tool name (handle tool:model syntax like codex:opus)
     const unsupportedTools = this.availableTools.filter(t => {
       const baseTool = t.split(':')[0];
-      return !SUPPORTED_TOOLS.includes(baseTool);
+      return !getToolAdapter(baseTool);
     });
     if (unsupportedTools.length > 0) {
       console.log(chalk.red(`\n❌ Unsupported tool(s): ${unsupportedTools.join(', ')}`));
-      console.log(chalk.yellow(`Supported tools: ${SUPPORTED_TOOLS.join(', ')}`));
+      console.log(chalk.yellow(`Supported tools: ${getToolNames().join(', ')}`));
+      emitEvent('error', { error: `Unsupported tool(s): ${unsupportedTools.join(', ')}`, supportedTools: getToolNames() });
       process.exit(1);
     }
 
     // Fetch user's registered tools from database and validate
     try {
-      const backendUrl = process.env.BACKEND_URL || 'https://api.hoki-poki.ai';
       const token = await this.keycloakManager.getToken();
 
-      const response = await fetch(`${backendUrl}/api/provider/tools`, {
+      const response = await fetch(`${this.backendUrl}/api/provider/tools`, {
         headers: {
           'Authorization': `Bearer ${token}`
         }
@@ -151,6 +159,7 @@ export class ProviderCommand {
         console.log(chalk.red(`\n❌ Tool(s) not registered: ${unregisteredTools.join(', ')}`));
         console.log(chalk.yellow('Please register your tools first:'));
         console.log(chalk.cyan(`  hokipoki register --as-provider --tools ${unregisteredTools.join(' ')}\n`));
+        emitEvent('error', { error: `Tool(s) not registered: ${unregisteredTools.join(', ')}` });
         process.exit(1);
       }
 
@@ -170,11 +179,12 @@ export class ProviderCommand {
       console.log(chalk.red(`\n❌ Missing local tokens for: ${missingLocalTokens.join(', ')}`));
       console.log(chalk.yellow('Please refresh your local tokens:'));
       console.log(chalk.cyan(`  hokipoki register --as-provider --tools ${missingLocalTokens.join(' ')}\n`));
+      emitEvent('error', { error: `Missing local tokens for: ${missingLocalTokens.join(', ')}` });
       process.exit(1);
     }
 
     console.log(chalk.gray('Available tools:'), this.availableTools.join(', '));
-    console.log(chalk.gray('Relay Server:'), this.options.server);
+    console.log(chalk.gray('Relay Server:'), this.serverUrl);
     console.log(chalk.gray('P2P Port:'), this.options.port);
     console.log();
 
@@ -199,16 +209,23 @@ export class ProviderCommand {
       console.log(chalk.gray('Press Ctrl+C to stop\n'));
 
       this.isListening = true;
+      emitEvent('listening', {
+        email: userEmail,
+        tools: this.availableTools,
+        workspaceIds: this.workspaceIds,
+        server: this.serverUrl
+      });
     } catch (error) {
       spinner.fail('Failed to connect to relay server');
       console.error(chalk.red(error));
+      emitEvent('error', { error: String(error) });
       process.exit(1);
     }
   }
 
   private async connectToMCP() {
     return new Promise<void>(async (resolve, reject) => {
-      this.ws = new WebSocket(this.options.server);
+      this.ws = new WebSocket(this.serverUrl);
 
       this.ws.on('open', async () => {
         // STEP 1: Authenticate with JWT token (MUST be first message)
@@ -266,6 +283,7 @@ export class ProviderCommand {
       this.ws.on('close', () => {
         if (this.isListening) {
           console.log(chalk.yellow('\nConnection to relay server lost. Reconnecting...'));
+          emitEvent('disconnected', { reconnecting: true });
           setTimeout(() => this.connectToMCP(), 5000);
         }
       });
@@ -306,6 +324,7 @@ export class ProviderCommand {
         console.log(chalk.yellow(`Reason: ${message.reason || 'Requester disconnected'}`));
         console.log(chalk.gray('\nThe requester has cancelled this task.'));
         console.log(chalk.gray('Stopping container and cleaning up...'));
+        emitEvent('task_cancelled', { taskId: message.taskId, reason: message.reason || 'Requester disconnected' });
 
         // Kill running container if there is one
         if (this.currentTask?.id) {
@@ -331,8 +350,17 @@ export class ProviderCommand {
     }
     console.log(chalk.white(`   Description: ${task.description}`));
     console.log(chalk.white(`   Est. Duration: ~${task.estimatedDuration} mins`));
+    emitEvent('task_available', {
+      taskId: task.id,
+      tool: task.tool,
+      model: task.model,
+      description: task.description,
+      estimatedDuration: task.estimatedDuration
+    });
 
-    const { accept } = await inquirer.prompt([
+    // Keep the prompt off stdout when it carries NDJSON
+    const prompt = isStructuredOutput() ? inquirer.createPromptModule({ output: process.stderr }) : inquirer.prompt;
+    const { accept } = await prompt([
       {
         type: 'confirm',
         name: 'accept',
@@ -343,12 +371,14 @@ export class ProviderCommand {
 
     if (accept) {
       console.log(chalk.green('\n✅ Task accepted'));
+      emitEvent('task_accepted', { taskId: task.id });
       this.send({
         type: 'accept_task',
         taskId: task.id
       });
     } else {
       console.log(chalk.gray('Task declined'));
+      emitEvent('task_declined', { taskId: task.id });
 
       // Notify relay server so it can offer task to other providers
       this.send({
@@ -361,6 +391,7 @@ export class ProviderCommand {
   private async handleTaskMatched(message: any) {
     console.log(chalk.green(`\n🤝 Matched with requester: ${message.requesterId}`));
     console.log(chalk.cyan('Establishing secure P2P connection...'));
+    emitEvent('task_matched', { taskId: message.taskId, requesterId: message.requesterId });
 
     // Update task in backend with provider ID
     await this.updateTaskWithProvider(message.taskId);
@@ -406,16 +437,32 @@ export class ProviderCommand {
 
       case 'confirmation':
         if (data.payload.accepted) {
-          console.log(chalk.green(`\n✅ Task completed!`));
+          const hunks = data.payload.hunks;
+          if (data.payload.verdict === 'partial' && hunks) {
+            console.log(chalk.green(`\n✅ Task completed! Requester kept ${hunks.accepted} of ${hunks.total} change(s).`));
+          } else {
+            console.log(chalk.green(`\n✅ Task completed!`));
+          }
           console.log(chalk.gray('Session data erased. Ready for next task.'));
+          emitEvent('task_completed', {
+            taskId: data.payload.taskId || taskId,
+            accepted: true,
+            verdict: data.payload.verdict || 'accepted',
+            hunks
+          });
 
           // Send acknowledgment back to requester so they can safely disconnect
           this.p2pConnection?.sendP2P({
             type: 'confirmation_ack',
             payload: { taskId: data.payload.taskId || taskId }
           });
+        } else if (data.payload.verdict === 'deferred') {
+          console.log(chalk.cyan('\n📦 Result saved by the requester, to be compared with other providers\' results.'));
+          console.log(chalk.gray('Credits are settled if they apply yours.'));
+          emitEvent('task_completed', { taskId: data.payload.taskId || taskId, accepted: false, verdict: 'deferred' });
         } else {
           console.log(chalk.yellow('\n❌ Solution rejected by requester.'));
+          emitEvent('task_completed', { taskId: data.payload.taskId || taskId, accepted: false, verdict: 'rejected' });
         }
         this.cleanup();
         console.log(chalk.green('\n✨ Listening for new tasks...\n'));
@@ -445,6 +492,7 @@ export class ProviderCommand {
       };
 
       console.log(chalk.gray('[DEBUG] Task stored with ID:', this.currentTask.id));
+      emitEvent('task_executing', { taskId, tool: payload.tool, model: payload.model });
       console.log(chalk.cyan('[DEBUG] Calling secureProvider.executeTaskInContainer...'));
       console.log(chalk.cyan('[DEBUG] SecureProvider exists?'), !!this.secureProvider);
 
@@ -462,12 +510,15 @@ export class ProviderCommand {
       });
 
       console.log(chalk.green('\n✅ Execution complete, waiting for requester confirmation...'));
+      emitEvent('task_executed', { taskId });
 
     } catch (error) {
       console.error(chalk.red('\n❌ Execution failed:'), error);
       console.error(chalk.red('[DEBUG] Error details:'), error instanceof Error ? error.message : error);
       console.error(chalk.red('[DEBUG] Stack trace:'), error instanceof Error ? error.stack : 'No stack');
 
+      emitEvent('task_failed', { taskId, error: error instanceof Error ? error.message : 'Unknown error' });
+
       // Notify requester of failure
       this.p2pConnection?.sendP2P({
         type: 'execution_failed',
@@ -494,9 +545,8 @@ export class ProviderCommand {
       }
 
       const token = await this.keycloakManager.getToken();
-      const backendUrl = process.env.BACKEND_URL || 'https://api.hoki-poki.ai';
 
-      const response = await fetch(`${backendUrl}/api/tasks/${taskId}/provider`, {
+      const response = await fetch(`${this.backendUrl}/api/tasks/${taskId}/provider`, {
         method: 'PUT',
         headers: {
           'Authorization': `Bearer ${token}`,
@@ -523,9 +573,8 @@ export class ProviderCommand {
       }
 
       const token = await this.keycloakManager.getToken();
-      const backendUrl = process.env.BACKEND_URL || 'https://api.hoki-poki.ai';
 
-      const response = await fetch(`${backendUrl}/api/tasks/${taskId}/cancel`, {
+      const response = await fetch(`${this.backendUrl}/api/tasks/${taskId}/cancel`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${token}`,
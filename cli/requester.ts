@@ -3,10 +3,12 @@
 
 import WebSocket from 'ws';
 import chalk from 'chalk';
-import ora from 'ora';
+import ora, { Ora } from 'ora';
 import inquirer from 'inquirer';
-import { execSync } from 'child_process';
+import { execSync, spawn, spawnSync } from 'child_process';
 import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { glob } from 'glob';
 import { MCPMessage } from '../types';
@@ -14,19 +16,93 @@ import { P2PConnectionWS as P2PConnection } from '../p2p/connection-ws';
 import { EphemeralGitServer } from '../git-server/ephemeral-git';
 import { KeycloakManager, TunnelConfig } from '../auth/keycloak-manager';
 import { FrpConfig } from '../src/services/frp-manager';
+import { ConfigManager } from '../config/config-manager';
+import { TaskHistory, TaskRecordUpdate } from '../src/services/task-history';
+import { WorkspaceService } from '../src/services/workspace-service';
+import { GitContext } from '../src/services/git-context';
+import { SecretFinding, SecretRedactor, SecretScanner, SkippedFile } from '../src/services/secret-scanner';
+import { IGNORE_FILE, IgnoreMatch, IgnoreRules } from '../src/services/ignore-rules';
+import { ApplyMode, ApplyResult, APPLY_MODES, PatchApplier } from '../src/services/patch-applier';
+import { BaseSnapshot } from '../src/services/three-way-merge';
+import { TaskSession, TaskSessionStore } from '../src/services/task-session';
+import { PatchVerifier, VerificationResult } from '../src/services/patch-verifier';
+import { ResultMeta, ResultStore } from '../src/services/result-store';
+import { CreditEstimate, CreditEstimator } from '../src/services/credit-estimator';
+import { CreditService } from '../src/services/credit-service';
+import { DetachedDecision, DetachedTaskStore } from '../src/services/detached-tasks';
+import { UploadBudgetPlanner, UploadPlan, UploadPriority, formatBytes } from '../src/services/upload-budget';
+import { DependencyResolver, DependencyResult, DEFAULT_DEPENDENCY_BUDGET } from '../src/services/dependency-resolver';
+import { getToolAdapter, getToolNames, getToolRegistry } from '../config/cli-tools';
+import { configureOutput, emitEvent, isStructuredOutput, printResult } from '../src/utils/output';
+import { parseDuration } from '../src/utils/duration';
+import { PatchFile, PatchHunk, buildPatch, formatHunkHeader, parsePatch, recountHunk } from '../src/utils/patch';
 
 interface RequesterOptions {
   tool: string;
+  tools?: string[];   // Every --tool value (repeatable for fan-out); tool is the first
+  providers?: string; // Number of providers to fan out to
   task: string;
   files?: string[];
   dir?: string[];
   all?: boolean;
+  changed?: boolean;     // Files with uncommitted changes (plus untracked)
+  staged?: boolean;      // Files in the index
+  since?: string;        // Files changed since a git ref (plus untracked)
+  includeDiff?: boolean; // Append the selected changes' diff to the task description
+  withDeps?: boolean | string; // Follow imports of the selected files (optional depth)
+  redact?: boolean;      // Upload with secrets replaced by placeholders instead of blocking
+  allowlist?: string;    // Secret scanner allowlist file (default: .hokipoki-allowlist)
+  dryRun?: boolean;      // List the files that would be uploaded and exit
+  maxUpload?: string;    // Upload budget, e.g. "files=200,size=2MB,tokens=300k"
+  applyMode?: string;    // working-tree | branch | worktree
+  continue?: string;     // Follow up on a finished task (ID or unique prefix)
+  detach?: boolean;      // Run the task in a background agent (see: hokipoki attach)
+  verify?: string;       // Command that must pass on the patched code before it is accepted
+  verifyRetries?: string; // Send a failed verification back to the provider up to N times
+  matchTimeout?: string;  // How long to wait for a provider, e.g. "10m" (0: no limit)
+  executionTimeout?: string; // How long a matched provider may take, e.g. "1h" (0: no limit)
+  retries?: string;       // Re-publish the task up to N times after a timeout
+  maxCredits?: string;    // Refuse to publish if the estimate is higher
+  agent?: string;        // Set internally: this process is the background agent for a detached task
   workspace?: string; // Workspace name to publish task to
-  server: string;
+  server?: string;
   gitHost?: string;
   json?: boolean;
 }
 
+// Fan-out: the same snapshot is served to several providers and the requester picks one result
+interface FanOutCandidate {
+  index: number;                 // 1-based, as shown in the review
+  tool: string;
+  model?: string;
+  providerId?: string;
+  p2pConnection?: P2PConnection;
+  status: 'waiting' | 'running' | 'completed' | 'failed';
+  diff?: string;                 // Code changes (AI_OUTPUT.md stripped)
+  aiReview?: string;
+  error?: string;
+  patchFile?: string;
+  startedAt?: number;
+  finishedAt?: number;
+  timer?: NodeJS.Timeout;        // --execution-timeout for this provider
+  credits?: number;              // Estimated cost of this provider's run
+}
+
+// How the requester received a result; sent to the provider in the confirmation
+type ReviewVerdict = 'accepted' | 'partial' | 'rejected';
+
+// Non-interactive fan-out keeps every candidate and charges the one applied later
+type CandidateVerdict = 'accepted' | 'rejected' | 'deferred';
+
+// What a requester-side timeout was waiting for; reported as `<kind>_timeout`
+type TimeoutKind = 'match' | 'execution';
+
+const MAX_FAN_OUT_PROVIDERS = 5;
+// Tail of a failed verification's output sent back to the provider
+const VERIFY_FEEDBACK_CHARS = 8 * 1024;
+// How long to wait for more matches once every matched provider has finished
+const FAN_OUT_MATCH_GRACE_MS = 60 * 1000;
+
 export class RequesterCommand {
   private ws?: WebSocket;
   private peerId?: string;
@@ -38,22 +114,80 @@ export class RequesterCommand {
   private forceInteractive: boolean;
   private noAutoApply: boolean;
   private expandedFiles?: string[];
+  private changeDiff?: string; // Diff of --changed/--staged/--since selections (with --include-diff)
+  private dependencies?: DependencyResult; // Files added by --with-deps
+  private excludedFiles: IgnoreMatch[] = []; // Files dropped by .hokipokiignore rules
+  private gitChangedFiles: string[] = []; // Files selected by --changed/--staged/--since
+  private uploadPlan?: UploadPlan; // Set when the selection had to be trimmed to the budget
+  private applyMode: ApplyMode;
+  private baseCommit?: string; // HEAD when the request was made (branch/worktree apply start here)
+  private baseFiles?: BaseSnapshot; // Uploaded content, the base for three-way merges
+  private redactor?: SecretRedactor; // Set with --redact when secrets were found
+  private redactedContents?: Map<string, string>; // Uploaded content of files with redacted secrets
+  private continuation?: { session: TaskSession; bundlePath: string }; // Set with --continue
+  private previousInstructions: string[] = []; // Earlier instructions this task follows up on
   private backendUrl: string;
   private keycloakManager: KeycloakManager;
   private toolName: string; // Extracted tool name (e.g., "claude")
   private modelName?: string; // Extracted model name (e.g., "sonnet")
   private workspaceId?: string; // User's workspace ID
+  private workspaceName?: string; // Resolved workspace name (for local history)
   private userId?: string; // User's ID
+  private providerId?: string; // Matched provider's peer ID
+  private history: TaskHistory;
+  private candidates: FanOutCandidate[] = [];
+  private gitServerReady?: Promise<void>;
+  private fanOutMatchingClosed = false;
+  private fanOutGraceTimer?: NodeJS.Timeout;
+  private fanOutReviewStarted = false;
+  private pendingAcks = new Set<number>();
+  private verifyRetries = 0;         // Failed verifications that may still go back to the provider
+  private results = new ResultStore();
+  private exportPatches: boolean;    // Also write results to ./patches (config "exportPatches")
+  private chosenCandidate?: FanOutCandidate; // Fan-out result picked in the interactive review
+  private timeoutsMs: Record<TimeoutKind, number> = { match: 0, execution: 0 }; // 0: no limit
+  private timers: Partial<Record<TimeoutKind, NodeJS.Timeout>> = {};
+  private retriesLeft = 0;           // Re-publishes left after a timeout (--retries)
+  private attempts = 1;
+  private cancelledTaskIds = new Set<string>(); // Tasks given up on after a timeout
+  private creditEstimate?: CreditEstimate;
+  private credits = 0;               // Estimated cost; charged when a result is kept
 
   constructor(private options: RequesterOptions) {
     this.keycloakManager = new KeycloakManager();
-    this.jsonMode = options.json || false;
+    this.history = new TaskHistory();
+    const config = new ConfigManager();
+    // The background agent's stdout is the detached task's event log
+    if (options.agent) {
+      configureOutput('ndjson');
+    }
+    this.jsonMode = isStructuredOutput(options);
     this.forceInteractive = (options as any).interactive || false;
     this.noAutoApply = (options as any).autoApply === false; // Commander sets --no-auto-apply as autoApply: false
     // AI mode: detect if running from non-TTY (AI CLI) or JSON mode
     // Can be overridden by --interactive flag
     this.aiMode = this.forceInteractive ? false : (!process.stdout.isTTY || this.jsonMode);
-    this.backendUrl = process.env.BACKEND_URL || 'https://api.hoki-poki.ai/api';
+    this.backendUrl = config.getApiUrl();
+
+    // Resolve relay, workspace and git host from flags and config files
+    this.options.server = config.get('server', this.options.server);
+    this.options.workspace = config.get('workspace', this.options.workspace);
+    this.options.gitHost = config.get('gitHost', this.options.gitHost);
+    this.options.maxUpload = config.get('maxUpload', this.options.maxUpload);
+
+    const applyMode = config.get('applyMode', this.options.applyMode) || 'working-tree';
+    if (!PatchApplier.isApplyMode(applyMode)) {
+      const problem = `Invalid apply mode '${applyMode}' (expected ${APPLY_MODES.join(', ')})`;
+      if (this.jsonMode) {
+        printResult({ success: false, error: problem });
+      } else {
+        console.log(chalk.red(`\n❌ ${problem}\n`));
+      }
+      process.exit(1);
+    }
+    this.applyMode = applyMode;
+    this.baseCommit = PatchApplier.getBaseCommit();
+    this.exportPatches = config.get('exportPatches') === 'true';
 
     // Parse natural language if tool not specified
     if (!this.options.tool) {
@@ -62,8 +196,8 @@ export class RequesterCommand {
         this.options.tool = parsed.tool;
         this.options.task = parsed.task;
       } else {
-        // Default to asking for any available tool
-        this.options.tool = 'any';
+        // Fall back to configured default tool, then any available tool
+        this.options.tool = config.get('tool') || 'any';
       }
     }
 
@@ -71,9 +205,26 @@ export class RequesterCommand {
     const { tool, model } = this.parseToolAndModel(this.options.tool);
     this.toolName = tool;
     this.modelName = model;
+    this.validateToolAndModel(tool, model);
+
+    this.setupFanOut();
+    this.setupVerify();
+    this.setupTimeouts(config);
 
-    // Expand file list from various sources
-    this.expandFileList();
+    const maxCredits = this.options.maxCredits !== undefined ? Number(this.options.maxCredits) : undefined;
+    if (maxCredits !== undefined && !(maxCredits > 0)) {
+      if (this.jsonMode) {
+        printResult({ success: false, error: '--max-credits must be a positive number' });
+      } else {
+        console.log(chalk.red('\n❌ --max-credits must be a positive number\n'));
+      }
+      process.exit(1);
+    }
+
+    // Expand file list from various sources (--continue reuses the previous task's files)
+    if (!this.options.continue) {
+      this.expandFileList();
+    }
   }
 
   /**
@@ -100,14 +251,12 @@ export class RequesterCommand {
   }
 
   private parseNaturalRequest(input: string): { tool?: string, task: string } {
-    // Pattern matching for tool names in natural language
-    const patterns = [
-      { tool: 'codex', regex: /\b(codex|copilot|github copilot)\b/i },
-      { tool: 'gemini', regex: /\b(gemini|google|bard)\b/i },
-      { tool: 'claude', regex: /\b(claude|anthropic)\b/i },
-      { tool: 'gpt4', regex: /\b(gpt-?4|openai|chatgpt)\b/i },
-      { tool: 'llama', regex: /\b(llama|meta|facebook)\b/i }
-    ];
+    // Pattern matching for tool names (and adapter keywords) in natural language
+    const patterns = Object.values(getToolRegistry()).map(adapter => {
+      const words = [adapter.name, ...(adapter.keywords || [])]
+        .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      return { tool: adapter.name, regex: new RegExp(`\\b(${words.join('|')})\\b`, 'i') };
+    });
 
     for (const { tool, regex } of patterns) {
       if (regex.test(input)) {
@@ -122,6 +271,125 @@ export class RequesterCommand {
     return { task: input };
   }
 
+  /**
+   * Warn about tools/models the local adapter registry doesn't know
+   * (a teammate's provider may still offer them, so this never blocks the request)
+   */
+  private validateToolAndModel(toolName: string, modelName?: string): void {
+    if (toolName === 'any' || this.jsonMode) {
+      return;
+    }
+
+    const adapter = getToolAdapter(toolName);
+    if (!adapter) {
+      console.log(chalk.yellow(`⚠️  Unknown tool '${toolName}' (known: ${getToolNames().join(', ')})`));
+      console.log(chalk.gray('   Only providers with a matching adapter can pick this up'));
+      return;
+    }
+
+    if (modelName && adapter.models && adapter.models.length > 0 && !adapter.models.includes(modelName)) {
+      console.log(chalk.yellow(`⚠️  Model '${modelName}' is not in ${adapter.name}'s known models (${adapter.models.join(', ')})`));
+    }
+  }
+
+  /**
+   * Build one candidate slot per requested provider; tools are assigned round-robin
+   * (--providers 3 --tool claude --tool codex → claude, codex, claude)
+   */
+  private setupFanOut(): void {
+    const toolSpecs = this.options.tools && this.options.tools.length > 1 ? this.options.tools : [this.options.tool];
+    const providerCount = this.options.providers ? parseInt(this.options.providers, 10) : toolSpecs.length;
+
+    let problem: string | undefined;
+    if (!Number.isInteger(providerCount) || providerCount < 1 || providerCount > MAX_FAN_OUT_PROVIDERS) {
+      problem = `--providers must be a number between 1 and ${MAX_FAN_OUT_PROVIDERS}`;
+    } else if (providerCount < toolSpecs.length) {
+      problem = `--providers ${providerCount} is less than the ${toolSpecs.length} tools requested`;
+    }
+    if (problem) {
+      if (this.jsonMode) {
+        printResult({ success: false, error: problem });
+      } else {
+        console.log(chalk.red(`\n❌ ${problem}\n`));
+      }
+      process.exit(1);
+    }
+
+    if (providerCount === 1) {
+      return;
+    }
+
+    for (const spec of toolSpecs.slice(1)) {
+      const { tool, model } = this.parseToolAndModel(spec);
+      this.validateToolAndModel(tool, model);
+    }
+
+    this.candidates = Array.from({ length: providerCount }, (_, i) => ({
+      index: i + 1,
+      ...this.parseToolAndModel(toolSpecs[i % toolSpecs.length]),
+      status: 'waiting' as const
+    }));
+  }
+
+  private setupVerify(): void {
+    if (!this.options.verify) {
+      return;
+    }
+
+    const retries = this.options.verifyRetries ? parseInt(this.options.verifyRetries, 10) : 0;
+    let problem = PatchVerifier.checkRepository();
+    if (!problem && this.isFanOut()) {
+      problem = '--verify cannot be combined with --providers or several --tool values';
+    } else if (!problem && (!Number.isInteger(retries) || retries < 0)) {
+      problem = '--verify-retries must be a number of 0 or more';
+    }
+    if (problem) {
+      if (this.jsonMode) {
+        printResult({ success: false, error: problem });
+      } else {
+        console.log(chalk.red(`\n❌ ${problem}\n`));
+      }
+      process.exit(1);
+    }
+    this.verifyRetries = retries;
+  }
+
+  private setupTimeouts(config: ConfigManager): void {
+    const flags: Record<TimeoutKind, string> = { match: '--match-timeout', execution: '--execution-timeout' };
+    const retries = this.options.retries ? parseInt(this.options.retries, 10) : 0;
+
+    let problem: string | undefined;
+    for (const kind of ['match', 'execution'] as TimeoutKind[]) {
+      const value = config.get(`${kind}Timeout`, kind === 'match' ? this.options.matchTimeout : this.options.executionTimeout) || '0';
+      const ms = parseDuration(value);
+      if (ms === undefined) {
+        problem = problem || `Invalid ${flags[kind]} '${value}' (use e.g. 90s, 10m or 1h; 0 for no limit)`;
+      } else {
+        this.timeoutsMs[kind] = ms;
+      }
+    }
+    if (!problem && (!Number.isInteger(retries) || retries < 0)) {
+      problem = '--retries must be a number of 0 or more';
+    } else if (!problem && retries > 0 && this.isFanOut()) {
+      problem = '--retries cannot be combined with --providers or several --tool values';
+    } else if (!problem && retries > 0 && !this.timeoutsMs.match && !this.timeoutsMs.execution) {
+      problem = '--retries needs a --match-timeout or --execution-timeout other than 0';
+    }
+    if (problem) {
+      if (this.jsonMode) {
+        printResult({ success: false, error: problem });
+      } else {
+        console.log(chalk.red(`\n❌ ${problem}\n`));
+      }
+      process.exit(1);
+    }
+    this.retriesLeft = retries;
+  }
+
+  private isFanOut(): boolean {
+    return this.candidates.length > 1;
+  }
+
   /**
    * Expand file list from --files, --dir, and --all options
    */
@@ -149,7 +417,6 @@ export class RequesterCommand {
               `${dir}/**/build/**`,
               `${dir}/**/coverage/**`,
               `${dir}/**/*.log`,
-              `${dir}/**/patches/**`,
               `${dir}/**/package-lock.json`,
               `${dir}/**/.hokipoki-tmp/**`  // CRITICAL: Exclude temp directory to prevent file corruption
             ]
@@ -174,10 +441,401 @@ export class RequesterCommand {
       }
     }
 
-    this.expandedFiles = Array.from(files);
+    // Add files from git changes (--changed, --staged, --since)
+    if (GitContext.isRequested(this.options)) {
+      const gitContext = new GitContext();
+      try {
+        const changedFiles = gitContext.getFiles(this.options);
+        if (changedFiles.length === 0) {
+          console.warn(chalk.yellow(`Warning: No files found for ${gitContext.describe(this.options)}`));
+        }
+        changedFiles.forEach(f => files.add(f));
+        this.gitChangedFiles = changedFiles;
+
+        if (this.options.includeDiff) {
+          this.changeDiff = gitContext.getDiff(this.options);
+        }
+      } catch (error: any) {
+        const message = error.message?.startsWith('Unknown git ref')
+          ? error.message
+          : 'Could not read git changes. Make sure you are in a git repository with at least one commit.';
+        if (this.jsonMode) {
+          printResult({ success: false, error: message });
+        } else {
+          console.log(chalk.red(`\n❌ ${message}\n`));
+        }
+        process.exit(1);
+      }
+    }
+
+    // Drop files matched by .hokipokiignore rules (applies to every selection mode)
+    const ignoreRules = new IgnoreRules();
+    const { kept, excluded } = ignoreRules.filter(Array.from(files));
+    this.excludedFiles = excluded;
+    files.clear();
+    kept.forEach(f => files.add(f));
+
+    // Add local modules imported by the selected files (--with-deps [depth])
+    if (this.options.withDeps && files.size > 0) {
+      const depth = this.options.withDeps === true ? DEFAULT_DEPENDENCY_BUDGET.depth : parseInt(this.options.withDeps, 10);
+      if (!Number.isInteger(depth) || depth < 1) {
+        if (this.jsonMode) {
+          printResult({ success: false, error: '--with-deps depth must be a positive number' });
+        } else {
+          console.log(chalk.red('\n❌ --with-deps depth must be a positive number\n'));
+        }
+        process.exit(1);
+      }
+
+      this.dependencies = new DependencyResolver().resolve(Array.from(files), { ...DEFAULT_DEPENDENCY_BUDGET, depth });
+      this.dependencies.added = this.dependencies.added.filter(dep => {
+        const rule = ignoreRules.match(dep.file);
+        if (rule) {
+          this.excludedFiles.push({ file: dep.file, rule });
+        }
+        return !rule;
+      });
+      this.dependencies.added.forEach(dep => files.add(dep.file));
+    }
+
+    this.expandedFiles = this.applyUploadBudget(Array.from(files));
+  }
+
+  /**
+   * Trim the selection to the upload budget (--max-upload / config "maxUpload"), keeping
+   * explicit files, then dependencies, then recently changed files, then the rest
+   */
+  private applyUploadBudget(files: string[]): string[] {
+    let planner: UploadBudgetPlanner;
+    try {
+      planner = new UploadBudgetPlanner(this.options.maxUpload ? UploadBudgetPlanner.parse(this.options.maxUpload) : undefined);
+    } catch (error: any) {
+      if (this.jsonMode) {
+        printResult({ success: false, error: error.message });
+      } else {
+        console.log(chalk.red(`\n❌ ${error.message}\n`));
+      }
+      process.exit(1);
+    }
+
+    // Git reports normalized paths; map them back to the paths as selected
+    const byNormalized = new Map(files.map(f => [path.normalize(f), f]));
+    const recent = [...this.gitChangedFiles, ...new GitContext().getRecentlyChangedFiles()]
+      .map(f => byNormalized.get(path.normalize(f)))
+      .filter((f): f is string => !!f);
+
+    const explicit = new Set(this.options.files || []);
+    const dependencies = new Set(this.dependencies?.added.map(dep => dep.file) || []);
+    const priorities = new Map<string, UploadPriority>();
+    for (const file of files) {
+      priorities.set(file, explicit.has(file) ? 'explicit' : dependencies.has(file) ? 'dependency' : 'other');
+    }
+    for (const file of recent) {
+      if (priorities.get(file) === 'other') priorities.set(file, 'recent');
+    }
+
+    const plan = planner.plan(files, priorities, recent);
+    if (plan.trimmed.length > 0 || plan.overBudget) {
+      this.uploadPlan = plan;
+    }
+    // Keep the original selection order for what is uploaded
+    const kept = new Set(plan.kept);
+    return files.filter(f => kept.has(f));
+  }
+
+  private displayUploadPlan(plan: UploadPlan) {
+    const { totals, budget, trimmed } = plan;
+    const limits = `${budget.maxFiles} files, ${formatBytes(budget.maxBytes)}, ~${budget.maxTokens.toLocaleString()} tokens`;
+
+    if (plan.overBudget) {
+      console.log(chalk.yellow(`⚠️  Explicitly named files exceed the upload budget (${limits}); they are uploaded anyway`));
+    }
+    if (trimmed.length === 0) {
+      return;
+    }
+
+    console.log(chalk.yellow(`✂️  Upload budget (${limits}): kept ${totals.files} file(s), ${formatBytes(totals.bytes)}, ~${totals.tokens.toLocaleString()} tokens`));
+    const byPriority = ['dependency', 'recent', 'other'].map(priority => ({
+      priority,
+      count: trimmed.filter(t => t.priority === priority).length
+    })).filter(p => p.count > 0);
+    const trimmedBytes = trimmed.reduce((sum, t) => sum + t.bytes, 0);
+    console.log(chalk.yellow(
+      `   Trimmed ${trimmed.length} file(s) (${formatBytes(trimmedBytes)}): ` +
+      byPriority.map(p => `${p.count} ${p.priority === 'other' ? 'other' : p.priority === 'recent' ? 'recently changed' : 'dependencies'}`).join(', ')
+    ));
+    for (const item of trimmed.slice(0, 5)) {
+      console.log(chalk.dim(`   - ${item.file} (${formatBytes(item.bytes)})`));
+    }
+    if (trimmed.length > 5) {
+      console.log(chalk.dim(`   ... and ${trimmed.length - 5} more (raise the limit with --max-upload)`));
+    }
+  }
+
+  /**
+   * --dry-run: show what would be uploaded and what was excluded, without connecting anywhere
+   */
+  private printDryRun() {
+    const files = this.expandedFiles || [];
+
+    if (this.jsonMode) {
+      printResult({
+        dryRun: true,
+        files,
+        excluded: this.excludedFiles.map(({ file, rule }) => ({
+          file,
+          rule: rule.pattern,
+          source: rule.source,
+          line: rule.line
+        })),
+        dependencies: this.dependencies?.added || [],
+        trimmed: this.uploadPlan?.trimmed || [],
+        totals: this.uploadPlan?.totals,
+        budget: this.uploadPlan?.budget,
+        estimate: { ...this.creditEstimate, credits: this.credits }
+      });
+      return;
+    }
+
+    console.log(chalk.bold.cyan(`\n📋 Dry run: ${files.length} file(s) would be uploaded\n`));
+    for (const file of files) {
+      console.log(chalk.white(`  ${file}`));
+    }
+    if (files.length === 0) {
+      console.log(chalk.gray('  (no files - the provider would get a sample file)'));
+    }
+
+    if (this.dependencies) {
+      console.log('');
+      this.displayDependencies(this.dependencies);
+    }
+
+    if (this.uploadPlan) {
+      console.log('');
+      this.displayUploadPlan(this.uploadPlan);
+    }
+
+    if (this.excludedFiles.length > 0) {
+      console.log(chalk.yellow(`\n🚫 Excluded by ${IGNORE_FILE} (${this.excludedFiles.length}):\n`));
+      for (const { file, rule } of this.excludedFiles) {
+        console.log(`  ${chalk.white(file)}  ${chalk.gray(`${rule.source}:${rule.line}  ${rule.pattern}`)}`);
+      }
+    }
+
+    console.log(chalk.gray('\nEstimated cost:'), this.describeEstimate());
+    console.log(chalk.gray('\nNothing was uploaded (dry run).\n'));
+  }
+
+  private displayDependencies({ added, skipped }: DependencyResult) {
+    if (added.length === 0) {
+      console.log(chalk.gray('Dependencies:'), 'no local imports found');
+    } else {
+      console.log(chalk.gray('Dependencies:'), `${added.length} file(s) added by --with-deps`);
+      for (const dep of added) {
+        console.log(chalk.dim(`  + ${dep.file}  (imported by ${dep.importedBy} as '${dep.specifier}')`));
+      }
+    }
+    if (skipped.length > 0) {
+      console.log(chalk.yellow(`  ${skipped.length} more import(s) skipped: ${skipped[0].reason}`));
+    }
+  }
+
+  /**
+   * Task description sent to providers: the task (with earlier instructions for a follow-up),
+   * plus recent changes with --include-diff
+   */
+  private getTaskDescription(): string {
+    const task = this.previousInstructions.length === 0 ? this.options.task : [
+      'Follow-up to an earlier task on this repository. Your earlier changes are already committed here; build on them.',
+      '',
+      'Earlier instructions:',
+      ...this.previousInstructions.map((instruction, i) => `${i + 1}. ${instruction}`),
+      '',
+      'Follow-up:',
+      this.options.task
+    ].join('\n');
+
+    if (!this.changeDiff) {
+      return task;
+    }
+    const label = new GitContext().describe(this.options);
+    const diff = this.redactor ? this.redactor.redact(this.changeDiff) : this.changeDiff;
+    return `${task}\n\nRecent changes (${label}) for context:\n\`\`\`diff\n${diff}\n\`\`\``;
+  }
+
+  /**
+   * --continue: pick up a finished task's ephemeral repo (with the provider's commits), files,
+   * tool and provider from its saved session
+   */
+  private async loadContinuation(): Promise<void> {
+    const fail = (problem: string) => {
+      if (this.jsonMode) {
+        printResult({ success: false, error: problem });
+      } else {
+        console.log(chalk.red(`\n❌ ${problem}\n`));
+      }
+      process.exit(1);
+    };
+
+    const selectionFlags: Array<[keyof RequesterOptions, string]> = [
+      ['files', '--files'], ['dir', '--dir'], ['all', '--all'], ['changed', '--changed'], ['staged', '--staged'],
+      ['since', '--since'], ['withDeps', '--with-deps'], ['providers', '--providers']
+    ];
+    const conflicting = selectionFlags.filter(([key]) => this.options[key]).map(([, flag]) => flag);
+    if (this.isFanOut()) {
+      conflicting.push('several --tool');
+    }
+    if (conflicting.length > 0) {
+      fail(`--continue reuses the previous task's files and provider; it can't be combined with ${conflicting.join(', ')}`);
+    }
+
+    const loaded = await new TaskSessionStore().get(this.options.continue!);
+    if (!loaded) {
+      fail(`No saved session for task '${this.options.continue}'. Only tasks completed on this machine in the last 14 days can be continued.`);
+      return;
+    }
+    const { session } = loaded;
+    if (session.cwd !== process.cwd()) {
+      fail(`Task ${session.taskId} was requested from ${session.cwd}; run --continue from there`);
+    }
+
+    this.continuation = loaded;
+    this.previousInstructions = [...session.instructions];
+    this.expandedFiles = session.files;
+
+    // Same tool as before unless --tool was given
+    if (!this.options.tools?.length) {
+      this.toolName = session.tool;
+      this.modelName = session.model;
+    }
+
+    // Secrets were uploaded as placeholders; find them again in the files to restore the result
+    if (session.redactions.length > 0) {
+      const scanner = this.options.allowlist ? new SecretScanner(path.resolve(this.options.allowlist)) : new SecretScanner();
+      this.redactor = new SecretRedactor(scanner.scan(session.files), session.redactions);
+      const missing = session.redactions.length - this.redactor.count;
+      if (missing > 0 && !this.jsonMode) {
+        console.log(chalk.yellow(`\n⚠️  ${missing} redacted secret(s) are no longer in your files; they stay as placeholders in the result`));
+      }
+    }
+  }
+
+  /**
+   * Keep the ephemeral repo and task details so the result can be followed up with --continue
+   */
+  private async saveSession(): Promise<void> {
+    if (!this.taskId || !this.gitServer) {
+      return;
+    }
+    try {
+      await new TaskSessionStore().save({
+        taskId: this.taskId,
+        rootTaskId: this.continuation?.session.rootTaskId || this.taskId,
+        providerId: this.providerId,
+        tool: this.toolName,
+        model: this.modelName,
+        instructions: [...this.previousInstructions, this.options.task],
+        files: this.expandedFiles || [],
+        cwd: process.cwd(),
+        // Nothing new was uploaded for a follow-up, so the original placeholders still apply
+        redactions: this.continuation ? this.continuation.session.redactions : this.redactor?.describe() || [],
+        savedAt: new Date().toISOString()
+      }, this.gitServer.getRepoPath());
+    } catch (error: any) {
+      if (!this.jsonMode) {
+        console.warn(chalk.yellow(`⚠️  Could not save the task for --continue: ${error.message}`));
+      }
+    }
+  }
+
+  /**
+   * Scan the files about to be uploaded, and the --include-diff context, for secrets: block by
+   * default, or redact with --redact. The diff counts too: a deleted secret sits in its `-` lines
+   */
+  private checkSecrets(): void {
+    const files = this.expandedFiles || [];
+    const scanner = this.options.allowlist ? new SecretScanner(path.resolve(this.options.allowlist)) : new SecretScanner();
+    const fileFindings = scanner.scan(files);
+    const diffFindings = this.changeDiff
+      ? scanner.scanText(`git diff (${new GitContext().describe(this.options)})`, this.changeDiff)
+      : [];
+    const findings = [...fileFindings, ...diffFindings];
+    if (scanner.skipped.length > 0) {
+      this.warnUnscanned(scanner.skipped);
+    }
+    if (findings.length === 0) {
+      return;
+    }
+
+    const report = findings.map(({ secret, ...finding }) => finding);
+
+    if (!this.options.redact) {
+      if (this.jsonMode) {
+        printResult({ success: false, error: 'secrets_detected', findings: report, skipped: scanner.skipped });
+      } else {
+        console.log(chalk.red(`\n🔑 Found ${findings.length} possible secret(s) in the files to upload${diffFindings.length > 0 ? ' and the included diff' : ''}:\n`));
+        this.displaySecretFindings(findings);
+        console.log(chalk.yellow('\nNothing was uploaded. Options:'));
+        console.log(chalk.yellow('  • Remove the files from the request'));
+        console.log(chalk.yellow('  • Re-run with --redact to upload placeholders instead (restored when the patch is applied)'));
+        console.log(chalk.yellow('  • Allow false positives in .hokipoki-allowlist (path glob, rule:<rule> or fingerprint:<fingerprint>)\n'));
+      }
+      process.exit(1);
+    }
+
+    // The diff is redacted when the task description is built
+    this.redactor = new SecretRedactor(findings);
+    this.redactedContents = this.redactor.redactFiles(fileFindings);
+    emitEvent('secrets_redacted', { taskId: this.taskId, findings: report });
+    if (!this.jsonMode) {
+      const where = [
+        `${this.redactedContents.size} file(s)`,
+        ...(diffFindings.length > 0 ? ['the included diff'] : [])
+      ].join(' and ');
+      console.log(chalk.yellow(`\n🔒 Redacted ${this.redactor.count} secret(s) in ${where} before upload:`));
+      this.displaySecretFindings(findings);
+    }
+  }
+
+  /**
+   * Binary and very large files are uploaded without a secret scan; say which (stderr, so
+   * JSON output stays parseable)
+   */
+  private warnUnscanned(skipped: SkippedFile[]) {
+    emitEvent('secrets_scan_skipped', { taskId: this.taskId, skipped });
+    console.warn(chalk.yellow(`⚠️  ${skipped.length} file(s) will be uploaded without a secret scan:`));
+    for (const { file, reason } of skipped) {
+      console.warn(chalk.yellow(`   ${file} (${reason === 'binary' ? 'binary' : 'over 2 MB'})`));
+    }
+  }
+
+  private displaySecretFindings(findings: SecretFinding[]) {
+    for (const finding of findings) {
+      console.log(
+        `  ${chalk.white(`${finding.file}:${finding.line}`)}  ${finding.description}  ` +
+        chalk.gray(`${finding.preview}  [${finding.rule}, fingerprint:${finding.fingerprint}]`)
+      );
+    }
+  }
+
+  /**
+   * Put redacted secrets back into changes returned by a provider
+   */
+  private restoreSecrets(changes: string): string {
+    return this.redactor ? this.redactor.restore(changes) : changes;
   }
 
   async execute() {
+    if (this.options.continue) {
+      await this.loadContinuation();
+    }
+    this.estimateCredits();
+
+    if (this.options.dryRun) {
+      this.printDryRun();
+      return;
+    }
+
     // Setup signal handlers to cancel task on interrupt
     process.on('SIGINT', () => this.handleInterrupt());
     process.on('SIGTERM', () => this.handleInterrupt());
@@ -188,7 +846,7 @@ export class RequesterCommand {
 
     if (!await keycloak.isAuthenticated()) {
       if (this.jsonMode) {
-        console.log(JSON.stringify({ error: 'Not authenticated. Please run: hokipoki login' }));
+        printResult({ error: 'Not authenticated. Please run: hokipoki login' });
       } else {
         console.log(chalk.red('\n❌ Not authenticated.'));
         console.log(chalk.yellow('Please run: hokipoki login\n'));
@@ -198,36 +856,25 @@ export class RequesterCommand {
 
     const userEmail = await keycloak.getUserEmail();
 
-    // Fetch user's workspaces from profile
+    // Resolve target workspace (membership list is cached per profile)
     try {
-      const token = await this.keycloakManager.getToken();
-      const response = await fetch(`${this.backendUrl}/profile`, {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
-      if (!response.ok) throw new Error('Failed to fetch profile');
-      const data = await response.json() as {
-        workspaces?: Array<{ id: string; name: string; isPersonal?: boolean }>;
-        id: string;
-      };
+      const workspaceService = new WorkspaceService();
+      const { workspaces, userId } = await workspaceService.getWorkspaces();
+      this.userId = userId;
 
-      const workspaces = data.workspaces || [];
-      this.userId = data.id;
-
-      // Resolve workspace based on --workspace flag
+      // Resolve workspace based on --workspace flag / config default
       if (this.options.workspace) {
-        // User specified a workspace name - find it
-        const targetWorkspace = workspaces.find((w: any) => w.name === this.options.workspace);
+        // User specified a workspace name - find it (refreshes the cache once if unknown)
+        const targetWorkspace = await workspaceService.find(this.options.workspace);
 
         if (!targetWorkspace) {
           // Error: workspace not found
-          const availableNames = workspaces.map((w: any) => w.name).join(', ');
+          const availableNames = workspaces.map(w => w.name).join(', ');
           if (this.jsonMode) {
-            console.log(JSON.stringify({
+            printResult({
               error: `Workspace '${this.options.workspace}' not found`,
               availableWorkspaces: availableNames
-            }));
+            });
           } else {
             console.log(chalk.red(`\n❌ Workspace '${this.options.workspace}' not found`));
             console.log(chalk.yellow('Available workspaces:'), availableNames || 'none');
@@ -236,15 +883,17 @@ export class RequesterCommand {
         }
 
         this.workspaceId = targetWorkspace.id;
+        this.workspaceName = targetWorkspace.name;
         if (!this.jsonMode) {
           console.log(chalk.gray('Publishing to workspace:'), targetWorkspace.name);
         }
       } else {
         // No workspace specified - use personal workspace (default)
-        const personalWorkspace = workspaces.find((w: any) => w.isPersonal === true);
+        const personalWorkspace = workspaces.find(w => w.isPersonal === true);
 
         if (personalWorkspace) {
           this.workspaceId = personalWorkspace.id;
+          this.workspaceName = personalWorkspace.name;
         } else {
           console.log(chalk.yellow('\n⚠️  Warning: No personal workspace found'));
         }
@@ -282,7 +931,7 @@ export class RequesterCommand {
       if (activeTasksData.hasActiveTasks) {
         const activeTask = activeTasksData.activeTasks[0];
         if (this.jsonMode) {
-          console.log(JSON.stringify({
+          printResult({
             error: 'You already have an active task',
             activeTask: {
               id: activeTask.id,
@@ -293,7 +942,7 @@ export class RequesterCommand {
               createdAt: activeTask.createdAt,
               provider: activeTask.provider
             }
-          }));
+          });
         } else {
           console.log(chalk.red('\n❌ You already have an active task in progress\n'));
           console.log(chalk.yellow('Please wait for it to complete before requesting a new task.\n'));
@@ -321,14 +970,24 @@ export class RequesterCommand {
       }
     }
 
+    await this.checkSpendingLimits();
+
     if (!this.jsonMode) {
       console.log(chalk.green(`✅ Authenticated as: ${userEmail}\n`));
       console.log(chalk.bold.cyan('🚀 HokiPoki Request Mode\n'));
-      console.log(chalk.gray('Tool requested:'), this.toolName);
-      if (this.modelName) {
-        console.log(chalk.gray('Model:'), this.modelName);
+      if (this.isFanOut()) {
+        console.log(chalk.gray('Providers:'), `${this.candidates.length} (${this.candidates.map(c => this.formatTool(c)).join(', ')})`);
+      } else {
+        console.log(chalk.gray('Tool requested:'), this.toolName);
+        if (this.modelName) {
+          console.log(chalk.gray('Model:'), this.modelName);
+        }
       }
       console.log(chalk.gray('Task:'), this.options.task);
+      if (this.continuation) {
+        const { session } = this.continuation;
+        console.log(chalk.gray('Continuing:'), `${session.taskId} (${session.instructions.length} earlier instruction(s), provider ${session.providerId || 'unknown'})`);
+      }
 
       if (this.expandedFiles && this.expandedFiles.length > 0) {
         console.log(chalk.gray('Files:'), `${this.expandedFiles.length} file(s)`);
@@ -339,6 +998,39 @@ export class RequesterCommand {
           console.log(chalk.dim(`  ... and ${this.expandedFiles.length - 5} more`));
         }
       }
+      if (this.changeDiff) {
+        console.log(chalk.gray('Context:'), `diff of ${new GitContext().describe(this.options)} included in the task`);
+      }
+      if (this.dependencies) {
+        this.displayDependencies(this.dependencies);
+      }
+      if (this.uploadPlan) {
+        this.displayUploadPlan(this.uploadPlan);
+      }
+      console.log(chalk.gray('Estimated cost:'), this.describeEstimate());
+    }
+    if (this.uploadPlan) {
+      emitEvent('upload_trimmed', {
+        kept: this.uploadPlan.totals,
+        budget: this.uploadPlan.budget,
+        trimmed: this.uploadPlan.trimmed.map(t => t.file)
+      });
+    }
+    if (this.dependencies) {
+      emitEvent('dependencies_resolved', {
+        added: this.dependencies.added,
+        skipped: this.dependencies.skipped
+      });
+    }
+
+    // A follow-up uploads nothing new (the previous repo is restored)
+    if (!this.continuation) {
+      this.checkSecrets();
+    }
+
+    if (this.options.detach) {
+      this.detach();
+      return;
     }
 
     const spinner = this.jsonMode ? null : ora('Connecting to relay server...').start();
@@ -346,6 +1038,7 @@ export class RequesterCommand {
     try {
       await this.connectToMCP();
       if (spinner) spinner.succeed('Connected to relay server');
+      emitEvent('connected', { server: this.options.server });
 
       // Publish task
       await this.publishTask();
@@ -359,7 +1052,7 @@ export class RequesterCommand {
       if (spinner) spinner.fail('Failed to connect to relay server');
 
       if (this.jsonMode) {
-        console.log(JSON.stringify({ success: false, error: String(error) }));
+        printResult({ success: false, error: String(error) });
       } else {
         console.error(chalk.red(error));
       }
@@ -367,9 +1060,56 @@ export class RequesterCommand {
     }
   }
 
+  /**
+   * Hand the task to a background agent: a copy of this request (with --agent) that keeps
+   * the relay connection, git server and tunnel alive and waits for `hokipoki attach`
+   */
+  private detach(): void {
+    if (this.isFanOut()) {
+      const problem = '--detach cannot be combined with --providers or several --tool values';
+      if (this.jsonMode) {
+        printResult({ success: false, error: problem });
+      } else {
+        console.log(chalk.red(`\n❌ ${problem}\n`));
+      }
+      process.exit(1);
+    }
+
+    const store = new DetachedTaskStore();
+    const entry = store.create({
+      cwd: process.cwd(),
+      task: this.options.task,
+      tool: this.formatTool({ tool: this.toolName, model: this.modelName }),
+      applyMode: this.applyMode
+    });
+
+    const args = process.argv.slice(2).filter(arg => arg !== '--detach');
+    const events = fsSync.openSync(store.getEventsFile(entry.id), 'a');
+    const log = fsSync.openSync(store.getLogFile(entry.id), 'a');
+    const agent = spawn(process.execPath, [...process.execArgv, process.argv[1], ...args, '--agent', entry.id], {
+      cwd: process.cwd(),
+      detached: true,
+      stdio: ['ignore', events, log]
+    });
+    fsSync.closeSync(events);
+    fsSync.closeSync(log);
+    agent.unref();
+
+    entry.pid = agent.pid;
+    store.save(entry);
+
+    if (this.jsonMode) {
+      printResult({ success: true, detached: true, id: entry.id, pid: agent.pid });
+      return;
+    }
+    console.log(chalk.green(`\n🛰️  Detached: the task runs in the background (id ${entry.id})`));
+    console.log(chalk.gray('Follow it and review the result with:'), chalk.cyan(`hokipoki attach ${entry.id}`));
+    console.log(chalk.gray('List detached tasks with:'), chalk.cyan('hokipoki tasks pending'));
+  }
+
   private async connectToMCP(): Promise<void> {
     return new Promise<void>(async (resolve, reject) => {
-      this.ws = new WebSocket(this.options.server);
+      this.ws = new WebSocket(this.options.server!);
 
       this.ws.on('open', async () => {
         // STEP 1: Authenticate with JWT token (MUST be first message)
@@ -422,46 +1162,139 @@ export class RequesterCommand {
 
       this.ws.on('close', () => {
         console.log(chalk.yellow('\nConnection to relay server lost'));
+        emitEvent('disconnected');
       });
     });
   }
 
   private async publishTask() {
-    // Estimate credits based on task complexity
-    const credits = this.estimateCredits();
-
     this.send({
       type: 'publish_task',
       payload: {
         tool: this.toolName,
         model: this.modelName,
-        task: this.options.task,
+        task: this.getTaskDescription(),
         description: this.options.task,
         files: this.options.files || [],
-        estimatedDuration: 5,
-        credits,
-        workspaceId: this.workspaceId  // Include workspace ID for routing
+        estimatedDuration: this.creditEstimate!.estimatedMinutes,
+        credits: this.credits,
+        maxCredits: this.options.maxCredits ? parseFloat(this.options.maxCredits) : undefined,
+        workspaceId: this.workspaceId,  // Include workspace ID for routing
+        // Follow-up: ask for the provider that did the previous task
+        ...(this.continuation ? {
+          continuesTaskId: this.continuation.session.taskId,
+          preferredProviderId: this.continuation.session.providerId
+        } : {}),
+        // Fan-out: match this many distinct providers, one per tool slot
+        ...(this.isFanOut() ? {
+          providers: this.candidates.length,
+          tools: this.candidates.map(c => ({ tool: c.tool, model: c.model }))
+        } : {})
       }
     });
   }
 
-  private estimateCredits(): number {
-    // Simple heuristic for credit estimation
-    const baseCredits = 2.5;
-    const fileBonus = (this.options.files?.length || 0) * 0.5;
-    const complexityBonus = this.options.task.length > 100 ? 1 : 0;
-
-    return baseCredits + fileBonus + complexityBonus;
+  /**
+   * Estimate the cost from the upload, the model's tier and the execution time; fan-out
+   * costs the sum of its candidates
+   */
+  private estimateCredits(): void {
+    const estimator = new CreditEstimator();
+    const files = this.expandedFiles || this.continuation?.session.files || [];
+    const executionTimeoutMs = this.timeoutsMs.execution;
+
+    this.creditEstimate = estimator.estimate({ files, tool: this.toolName, model: this.modelName, executionTimeoutMs });
+    this.credits = this.creditEstimate.credits;
+    if (this.isFanOut()) {
+      for (const candidate of this.candidates) {
+        candidate.credits = estimator.estimate({ files, tool: candidate.tool, model: candidate.model, executionTimeoutMs }).credits;
+      }
+      this.credits = this.candidates.reduce((total, candidate) => total + candidate.credits!, 0);
+    }
+  }
+
+  /**
+   * Refuse to publish above --max-credits or beyond the monthly budget (config "monthlyBudget")
+   */
+  private async checkSpendingLimits(): Promise<void> {
+    let code: string | undefined;
+    let problem: string | undefined;
+    let hint: string | undefined;
+
+    const maxCredits = this.options.maxCredits ? parseFloat(this.options.maxCredits) : undefined;
+    if (maxCredits !== undefined && this.credits > maxCredits) {
+      code = 'max_credits_exceeded';
+      problem = `Estimated cost of ${this.credits} credits exceeds --max-credits ${maxCredits}`;
+      hint = 'Upload fewer files, pick a cheaper model, or raise --max-credits.';
+    }
+
+    const budget = new ConfigManager().get('monthlyBudget');
+    if (!problem && budget && !(Number(budget) >= 0)) {
+      problem = `Invalid monthlyBudget '${budget}' in config (expected a number of credits)`;
+      hint = 'Fix it with: hokipoki config set monthlyBudget <credits>';
+    } else if (!problem && budget) {
+      const service = new CreditService();
+      const spent = service.getMonthlySpend(await service.getAccount());
+      if (spent + this.credits > Number(budget)) {
+        code = 'monthly_budget_exceeded';
+        problem = `Monthly budget of ${budget} credits reached (${spent} spent this month, this task: ~${this.credits})`;
+        hint = 'See your spending with: hokipoki credits. Raise the budget with: hokipoki config set monthlyBudget <credits>';
+      }
+    }
+
+    if (!problem) {
+      return;
+    }
+    if (this.jsonMode) {
+      printResult({ success: false, code, error: problem, estimate: { ...this.creditEstimate, credits: this.credits } });
+    } else {
+      console.log(chalk.red(`\n❌ ${problem}`));
+      console.log(chalk.gray(`${hint}\n`));
+    }
+    process.exit(1);
+  }
+
+  private describeEstimate(): string {
+    const estimate = this.creditEstimate!;
+    const parts = [`${estimate.files} file(s)`, formatBytes(estimate.bytes), `~${estimate.estimatedMinutes} min`];
+    if (this.isFanOut()) {
+      parts.push(`${this.candidates.length} providers`);
+    } else {
+      parts.push(`${estimate.tier} tier`);
+    }
+    return `${this.credits} credits (${parts.join(', ')})`;
   }
 
   private async handleMCPMessage(message: any) {
+    // Late messages about a task cancelled after a timeout
+    if (message.taskId && this.cancelledTaskIds.has(message.taskId)) {
+      return;
+    }
+
     switch (message.type) {
       case 'task_published':
         this.taskId = message.taskId;
         console.log(chalk.green(`\n✅ Task published: ${message.taskId}`));
+        emitEvent('task_published', {
+          taskId: message.taskId,
+          tool: this.toolName,
+          model: this.modelName,
+          workspace: this.workspaceName,
+          files: this.expandedFiles || [],
+          credits: this.credits
+        });
+        this.startTimer('match');
 
         // Log task to backend
         if (this.taskId) {
+          await this.recordHistory({
+            id: this.taskId,
+            role: 'requester',
+            workspaceId: this.workspaceId,
+            workspace: this.workspaceName,
+            files: this.expandedFiles || [],
+            createdAt: new Date().toISOString()
+          });
           await this.logTask({
             id: this.taskId,
             tool: this.toolName,
@@ -474,7 +1307,11 @@ export class RequesterCommand {
 
       case 'task_matched':
       case 'provider_matched':  // Support both for compatibility
-        await this.handleTaskMatched(message);
+        if (this.isFanOut()) {
+          await this.handleFanOutMatch(message);
+        } else {
+          await this.handleTaskMatched(message);
+        }
         break;
 
       case 'peer_signal':
@@ -484,15 +1321,35 @@ export class RequesterCommand {
         break;
 
       case 'task_cancelled':
-        console.log(chalk.red(`\nTask cancelled: ${message.reason}`));
+        if (this.jsonMode) {
+          printResult({ success: false, error: `Task cancelled: ${message.reason}` });
+        } else {
+          console.log(chalk.red(`\nTask cancelled: ${message.reason}`));
+        }
         process.exit(1);
         break;
 
       case 'no_providers_available':
+        // Fan-out: carry on with the providers that did match
+        if (this.isFanOut() && this.candidates.some(c => c.providerId)) {
+          this.fanOutMatchingClosed = true;
+          if (!this.jsonMode) {
+            const matched = this.candidates.filter(c => c.providerId).length;
+            console.log(chalk.yellow(`\n⚠️  Only ${matched} of ${this.candidates.length} providers available`));
+          }
+          await this.checkFanOutDone();
+          break;
+        }
+
         const toolInfo = message.model ? `${message.tool}:${message.model}` : message.tool;
-        console.error(chalk.red(`\n❌ No providers available for tool: ${toolInfo}`));
-        console.log(chalk.yellow('All providers declined or no providers are online.'));
-        console.log(chalk.gray('Try again later or request a different tool.'));
+        emitEvent('no_providers_available', { taskId: this.taskId, tool: toolInfo });
+        if (this.jsonMode) {
+          printResult({ success: false, error: `No providers available for tool: ${toolInfo}` });
+        } else {
+          console.error(chalk.red(`\n❌ No providers available for tool: ${toolInfo}`));
+          console.log(chalk.yellow('All providers declined or no providers are online.'));
+          console.log(chalk.gray('Try again later or request a different tool.'));
+        }
 
         // Mark task as failed in database
         if (this.taskId) {
@@ -510,15 +1367,27 @@ export class RequesterCommand {
         break;
 
       case 'error':
-        console.error(chalk.red(`\nError: ${message.error}`));
+        if (this.jsonMode) {
+          printResult({ success: false, error: message.error });
+        } else {
+          console.error(chalk.red(`\nError: ${message.error}`));
+        }
         process.exit(1);
         break;
     }
   }
 
   private async handleTaskMatched(message: any) {
+    this.clearTimer('match');
+    this.startTimer('execution');
+    this.providerId = message.providerId;
+    emitEvent('provider_matched', { taskId: this.taskId, providerId: message.providerId });
     if (!this.jsonMode) {
       console.log(chalk.green(`\n🤝 Matched with provider: ${message.providerId}`));
+      const previousProvider = this.continuation?.session.providerId;
+      if (previousProvider && previousProvider !== message.providerId) {
+        console.log(chalk.yellow(`The previous provider (${previousProvider}) is unavailable; this one continues from its commits`));
+      }
       console.log(chalk.cyan('Establishing secure P2P connection...'));
     }
 
@@ -531,6 +1400,7 @@ export class RequesterCommand {
     );
 
     this.p2pConnection.on('connected', async () => {
+      emitEvent('p2p_connected', { taskId: this.taskId });
       if (!this.jsonMode) {
         console.log(chalk.green('✅ Secure P2P connection established'));
         console.log(chalk.cyan('Setting up encrypted git server...'));
@@ -544,7 +1414,7 @@ export class RequesterCommand {
 
     this.p2pConnection.on('error', (error: Error) => {
       if (this.jsonMode) {
-        console.log(JSON.stringify({ success: false, error: error.message }));
+        printResult({ success: false, error: error.message });
       } else {
         console.error(chalk.red('P2P connection error:'), error);
       }
@@ -561,34 +1431,7 @@ export class RequesterCommand {
     const spinner = this.jsonMode ? null : ora('Setting up ephemeral git server...').start();
 
     try {
-      // Fetch tunnel config from backend (requires authentication)
-      if (spinner) spinner.text = 'Fetching tunnel configuration...';
-      const tunnelConfig = await this.keycloakManager.getTunnelConfig();
-
-      // Convert TunnelConfig to FrpConfig
-      const frpConfig: FrpConfig = {
-        token: tunnelConfig.token,
-        serverAddr: tunnelConfig.serverAddr,
-        serverPort: tunnelConfig.serverPort,
-        tunnelDomain: tunnelConfig.tunnelDomain,
-        httpPort: tunnelConfig.httpPort
-      };
-
-      if (spinner) spinner.text = 'Setting up ephemeral git server...';
-
-      // Initialize ephemeral git server with tunnel config
-      this.gitServer = new EphemeralGitServer({
-        taskId: this.taskId!,
-        gitHost: this.options.gitHost,
-        tunnelConfig: frpConfig
-      });
-
-      // Initialize with expanded file list
-      await this.gitServer.initialize(this.expandedFiles || []);
-
-      // Start git server
-      await this.gitServer.start();
-      const gitConfig = await this.gitServer.getConfig();
+      await this.startGitServer(spinner);
 
       if (spinner) spinner.succeed('Git server ready');
 
@@ -597,17 +1440,9 @@ export class RequesterCommand {
         console.log(chalk.cyan('Sending encrypted git credentials to provider...'));
       }
 
-      this.p2pConnection?.sendP2P({
-        type: 'git_credentials',
-        payload: {
-          gitUrl: gitConfig.url,
-          gitToken: gitConfig.token,
-          tool: this.toolName,           // Base tool name (e.g., "codex")
-          model: this.modelName,          // Optional model (e.g., "gpt-5-codex-high")
-          taskDescription: this.options.task
-        }
-      });
+      await this.sendTaskToProvider();
 
+      emitEvent('awaiting_execution', { taskId: this.taskId });
       if (!this.jsonMode) {
         console.log(chalk.cyan('Waiting for provider to execute task on their machine...'));
       }
@@ -616,7 +1451,7 @@ export class RequesterCommand {
       if (spinner) spinner.fail('Failed to setup git server');
 
       if (this.jsonMode) {
-        console.log(JSON.stringify({ success: false, error: String(error) }));
+        printResult({ success: false, error: String(error) });
       } else {
         console.error(chalk.red(error));
       }
@@ -630,15 +1465,78 @@ export class RequesterCommand {
   }
 
 
+  /**
+   * Send the repo credentials and task over P2P; sent again for each follow-up in the session
+   */
+  private async sendTaskToProvider(): Promise<void> {
+    // Each follow-up gets the full --execution-timeout again
+    this.startTimer('execution');
+    const gitConfig = await this.gitServer!.getConfig();
+    this.p2pConnection?.sendP2P({
+      type: 'git_credentials',
+      payload: {
+        gitUrl: gitConfig.url,
+        gitToken: gitConfig.token,
+        tool: this.toolName,           // Base tool name (e.g., "codex")
+        model: this.modelName,          // Optional model (e.g., "gpt-5-codex-high")
+        taskDescription: this.getTaskDescription()
+      }
+    });
+  }
+
+  /**
+   * Snapshot the selected files into the ephemeral repo and expose it through the tunnel
+   */
+  private async startGitServer(spinner: Ora | null): Promise<void> {
+    // Fetch tunnel config from backend (requires authentication)
+    if (spinner) spinner.text = 'Fetching tunnel configuration...';
+    const tunnelConfig = await this.keycloakManager.getTunnelConfig();
+
+    // Convert TunnelConfig to FrpConfig
+    const frpConfig: FrpConfig = {
+      token: tunnelConfig.token,
+      serverAddr: tunnelConfig.serverAddr,
+      serverPort: tunnelConfig.serverPort,
+      tunnelDomain: tunnelConfig.tunnelDomain,
+      httpPort: tunnelConfig.httpPort
+    };
+
+    if (spinner) spinner.text = 'Setting up ephemeral git server...';
+
+    // Initialize ephemeral git server with tunnel config
+    this.gitServer = new EphemeralGitServer({
+      taskId: this.taskId!,
+      gitHost: this.options.gitHost,
+      tunnelConfig: frpConfig
+    });
+
+    // Initialize with expanded file list, or pick up where the continued task left off
+    if (this.continuation) {
+      const redactor = this.redactor;
+      await this.gitServer.restore(this.continuation.bundlePath, redactor && (text => redactor.restore(text)));
+    } else {
+      await this.gitServer.initialize(this.expandedFiles || [], this.redactedContents);
+    }
+    this.baseFiles = this.gitServer.getBaseFiles();
+
+    // Start git server
+    await this.gitServer.start();
+    emitEvent('git_server_ready', { taskId: this.taskId, files: this.expandedFiles?.length || 0 });
+  }
+
   private async handleP2PData(data: any) {
     switch (data.type) {
       case 'execution_complete':
+        this.clearTimer('execution');
+        emitEvent('execution_complete', { taskId: this.taskId });
         await this.handleExecutionComplete();
         break;
 
       case 'execution_failed':
+        this.clearTimer('execution');
+        emitEvent('execution_failed', { taskId: this.taskId, error: data.payload.error });
         if (this.jsonMode) {
-          console.log(JSON.stringify({ success: false, error: data.payload.error }));
+          printResult({ success: false, error: data.payload.error });
         } else {
           console.error(chalk.red(`\nProvider execution failed: ${data.payload.error}`));
         }
@@ -670,7 +1568,7 @@ export class RequesterCommand {
 
       case 'error':
         if (this.jsonMode) {
-          console.log(JSON.stringify({ success: false, error: data.payload.error }));
+          printResult({ success: false, error: data.payload.error });
         } else {
           console.error(chalk.red(`\nProvider error: ${data.payload.error}`));
         }
@@ -680,6 +1578,457 @@ export class RequesterCommand {
     }
   }
 
+  /**
+   * Fan-out: a provider matched one of the candidate slots. Each candidate gets its own
+   * copy of the snapshot, so providers work in parallel without seeing each other's pushes
+   */
+  private async handleFanOutMatch(message: any) {
+    const slot = this.candidates.find(c => !c.providerId && (!message.tool || c.tool === message.tool))
+      || this.candidates.find(c => !c.providerId);
+    if (!slot) {
+      return; // More matches than requested providers
+    }
+
+    slot.providerId = message.providerId;
+    slot.status = 'running';
+    slot.startedAt = Date.now();
+    if (this.candidates.every(c => c.providerId)) {
+      this.clearTimer('match');
+    }
+    if (this.timeoutsMs.execution > 0) {
+      slot.timer = setTimeout(() => {
+        this.settleCandidate(slot, 'failed', { error: `Timed out after ${this.formatLimit('execution')}` });
+      }, this.timeoutsMs.execution);
+    }
+    emitEvent('provider_matched', { taskId: this.taskId, providerId: message.providerId, candidate: slot.index });
+    if (!this.jsonMode) {
+      console.log(chalk.green(`\n🤝 Candidate #${slot.index}: matched with provider ${message.providerId} (${this.formatTool(slot)})`));
+    }
+
+    const connection = new P2PConnection(this.peerId!, message.providerId, 'requester', this.ws!);
+    slot.p2pConnection = connection;
+
+    connection.on('connected', async () => {
+      try {
+        // First connected provider starts the git server; the others reuse it
+        if (!this.gitServerReady) {
+          this.gitServerReady = this.startGitServer(null);
+        }
+        await this.gitServerReady;
+
+        const { url, token } = await this.gitServer!.createCandidate(String(slot.index));
+        connection.sendP2P({
+          type: 'git_credentials',
+          payload: {
+            gitUrl: url,
+            gitToken: token,
+            tool: slot.tool,
+            model: slot.model,
+            taskDescription: this.getTaskDescription()
+          }
+        });
+        if (!this.jsonMode) {
+          console.log(chalk.cyan(`Candidate #${slot.index}: waiting for provider to execute task...`));
+        }
+      } catch (error) {
+        await this.settleCandidate(slot, 'failed', { error: String(error) });
+      }
+    });
+
+    connection.on('data', async (data: any) => {
+      await this.handleFanOutP2PData(slot, data);
+    });
+
+    connection.on('error', async (error: Error) => {
+      await this.settleCandidate(slot, 'failed', { error: error.message });
+    });
+
+    await connection.connect();
+  }
+
+  private async handleFanOutP2PData(candidate: FanOutCandidate, data: any) {
+    switch (data.type) {
+      case 'execution_complete': {
+        const changes = this.restoreSecrets(await this.gitServer!.getChanges(String(candidate.index)));
+        const codeChanges = this.extractCodeChanges(changes);
+        await this.settleCandidate(candidate, 'completed', {
+          diff: codeChanges.trim() ? codeChanges : undefined,
+          aiReview: this.extractAIOutput(changes) || undefined
+        });
+        break;
+      }
+
+      case 'execution_failed':
+      case 'error':
+        await this.settleCandidate(candidate, 'failed', { error: data.payload?.error || 'Unknown error' });
+        break;
+
+      case 'confirmation_ack':
+        // Exit once every accepted provider has acknowledged
+        this.pendingAcks.delete(candidate.index);
+        if (this.pendingAcks.size === 0) {
+          if (!this.jsonMode) {
+            console.log(chalk.gray('Provider acknowledged completion'));
+          }
+          await this.cleanup();
+          process.exit(0);
+        }
+        break;
+    }
+  }
+
+  private async settleCandidate(
+    candidate: FanOutCandidate,
+    status: 'completed' | 'failed',
+    fields: Partial<FanOutCandidate>
+  ): Promise<void> {
+    if (candidate.status === 'completed' || candidate.status === 'failed') {
+      return;
+    }
+
+    clearTimeout(candidate.timer);
+    Object.assign(candidate, fields, { status, finishedAt: Date.now() });
+    emitEvent(status === 'completed' ? 'candidate_completed' : 'candidate_failed', {
+      taskId: this.taskId,
+      candidate: candidate.index,
+      providerId: candidate.providerId,
+      error: candidate.error
+    });
+
+    if (!this.jsonMode) {
+      if (status === 'completed') {
+        console.log(chalk.green(`✅ Candidate #${candidate.index} finished (${this.formatTool(candidate)})`));
+      } else {
+        console.log(chalk.red(`❌ Candidate #${candidate.index} failed: ${candidate.error}`));
+      }
+    }
+
+    await this.checkFanOutDone();
+  }
+
+  /**
+   * Start the review once every matched provider has finished and no more matches are expected
+   */
+  private async checkFanOutDone(): Promise<void> {
+    if (this.fanOutReviewStarted) {
+      return;
+    }
+
+    const matched = this.candidates.filter(c => c.providerId);
+    if (matched.length === 0 || matched.some(c => c.status === 'running')) {
+      return;
+    }
+
+    if (matched.length < this.candidates.length && !this.fanOutMatchingClosed) {
+      // Everyone matched so far is done: give the remaining slots a little longer to match
+      if (!this.fanOutGraceTimer) {
+        this.fanOutGraceTimer = setTimeout(() => {
+          this.fanOutMatchingClosed = true;
+          this.checkFanOutDone();
+        }, FAN_OUT_MATCH_GRACE_MS);
+      }
+      return;
+    }
+
+    if (this.fanOutGraceTimer) {
+      clearTimeout(this.fanOutGraceTimer);
+    }
+    this.fanOutReviewStarted = true;
+    await this.reviewFanOut();
+  }
+
+  private async reviewFanOut(): Promise<void> {
+    const matched = this.candidates.filter(c => c.providerId);
+    const completed = matched.filter(c => c.status === 'completed');
+
+    try {
+      if (completed.length === 0) {
+        if (this.taskId) {
+          await this.logTask({
+            id: this.taskId,
+            tool: this.toolName,
+            model: this.modelName,
+            description: this.options.task,
+            status: 'failed',
+            completedAt: new Date()
+          });
+        }
+
+        if (this.jsonMode) {
+          printResult({ success: false, error: 'All providers failed', candidates: matched.map(c => this.toCandidateResult(c)) });
+        } else {
+          console.error(chalk.red(`\n❌ All ${matched.length} providers failed`));
+        }
+        await this.cleanup();
+        process.exit(1);
+      }
+
+      if (this.jsonMode || this.aiMode) {
+        await this.reportFanOutCandidates(completed);
+        return;
+      }
+
+      // Interactive: compare, then accept one and reject the rest
+      console.log(chalk.bold.cyan('\n📊 Candidates:\n'));
+      this.displayCandidateTable(matched);
+
+      const withChanges = completed.filter(c => c.diff);
+      if (withChanges.length > 0) {
+        console.log(chalk.bold.cyan('\n📝 Proposed changes:\n'));
+        this.displaySideBySide(withChanges);
+      }
+      for (const candidate of completed.filter(c => c.aiReview)) {
+        console.log(chalk.bold.cyan(`\n📝 AI Review Results (#${candidate.index}):\n`));
+        console.log(chalk.white(candidate.aiReview));
+      }
+
+      const { choice } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'choice',
+          message: 'Which result do you want to keep?',
+          choices: [
+            ...completed.map(c => ({ name: `#${c.index} ${this.formatTool(c)} - ${this.formatStats(c)}`, value: c.index })),
+            { name: 'Reject all', value: 0 }
+          ]
+        }
+      ]);
+
+      const chosen = completed.find(c => c.index === choice);
+      for (const candidate of completed.filter(c => c !== chosen)) {
+        this.confirmCandidate(candidate, 'rejected');
+      }
+
+      if (!chosen) {
+        if (this.taskId) {
+          await this.logTask({
+            id: this.taskId,
+            tool: this.toolName,
+            model: this.modelName,
+            description: this.options.task,
+            status: 'failed',
+            credits: 0,
+            completedAt: new Date()
+          });
+        }
+        this.send({ type: 'task_complete', taskId: this.taskId });
+        console.log(chalk.yellow('\n❌ All candidates rejected'));
+        await this.cleanup();
+        process.exit(0);
+      }
+
+      // Continue with the regular review/apply flow for the chosen provider
+      this.chosenCandidate = chosen;
+      this.credits = chosen.credits ?? this.credits;
+      this.p2pConnection = chosen.p2pConnection;
+      this.providerId = chosen.providerId;
+      this.toolName = chosen.tool;
+      this.modelName = chosen.model;
+      if (this.taskId) {
+        await this.recordHistory({ id: this.taskId, diff: chosen.diff, aiOutput: chosen.aiReview });
+      }
+
+      if (chosen.diff) {
+        await this.reviewSolution({ diff: chosen.diff, aiReview: chosen.aiReview });
+        return;
+      }
+
+      // Review-only result: accept it as is
+      await this.storeResult({ aiOutput: chosen.aiReview });
+      if (this.taskId) {
+        await this.logTask({
+          id: this.taskId,
+          tool: this.toolName,
+          model: this.modelName,
+          description: this.options.task,
+          status: 'completed',
+          credits: this.credits,
+          completedAt: new Date()
+        });
+      }
+      this.confirmCandidate(chosen, 'accepted');
+      this.send({ type: 'task_complete', taskId: this.taskId });
+      console.log(chalk.green(`\n✅ Accepted review from candidate #${chosen.index}`));
+      console.log(chalk.gray('Waiting for provider acknowledgment...'));
+      await this.waitForAckWithTimeout();
+
+    } catch (error) {
+      console.error(chalk.red('Error reviewing candidates:'), error);
+      await this.cleanup();
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Non-interactive fan-out: save every candidate's patch and report them all without applying
+   * any. Nothing is charged yet: `hokipoki results apply <taskId>-<n>` charges the chosen one
+   */
+  private async reportFanOutCandidates(completed: FanOutCandidate[]): Promise<void> {
+    for (const candidate of completed) {
+      const stored = await this.storeResult({ diff: candidate.diff, aiOutput: candidate.aiReview }, candidate);
+      if (candidate.diff) {
+        candidate.patchFile = this.results.getPatchPath(stored.id);
+        await this.exportPatch(candidate.diff, stored.id);
+        await this.results.update(stored.id, { status: 'saved' });
+      }
+    }
+
+    if (this.taskId) {
+      await this.logTask({
+        id: this.taskId,
+        tool: this.toolName,
+        model: this.modelName,
+        description: this.options.task,
+        status: 'completed',
+        completedAt: new Date()
+      });
+    }
+
+    for (const candidate of completed) {
+      this.confirmCandidate(candidate, 'deferred');
+    }
+
+    const matched = this.candidates.filter(c => c.providerId);
+    if (this.jsonMode) {
+      printResult({
+        success: true,
+        fanOut: true,
+        taskId: this.taskId,
+        candidates: matched.map(c => this.toCandidateResult(c)),
+        credits: 0
+      });
+    } else {
+      for (const candidate of matched) {
+        const result = this.toCandidateResult(candidate);
+        console.log('\n[HOKIPOKI_CANDIDATE]');
+        console.log(`candidate: ${result.index}`);
+        console.log(`status: ${result.status}`);
+        console.log(`provider: ${result.providerId}`);
+        console.log(`tool: ${this.formatTool(candidate)}`);
+        if (result.error) console.log(`error: ${result.error}`);
+        if (result.patchFile) console.log(`patch_file: ${result.patchFile}`);
+        console.log(`files_changed: ${result.summary.filesChanged}`);
+        console.log(`insertions: ${result.summary.insertions}`);
+        console.log(`deletions: ${result.summary.deletions}`);
+        if (result.credits !== undefined) console.log(`credits: ${result.credits}`);
+        console.log('[/HOKIPOKI_CANDIDATE]');
+      }
+      console.log(chalk.gray(`\nNo candidate was applied or charged. Apply one with: hokipoki results apply ${this.taskId}-<candidate>`));
+    }
+
+    this.send({ type: 'task_complete', taskId: this.taskId });
+    await this.cleanup();
+    process.exit(0);
+  }
+
+  private confirmCandidate(candidate: FanOutCandidate, verdict: CandidateVerdict): void {
+    const accepted = verdict === 'accepted';
+    try {
+      candidate.p2pConnection?.sendP2P({
+        type: 'confirmation',
+        payload: { accepted, verdict, credits: accepted ? candidate.credits : 0, taskId: this.taskId }
+      });
+      if (accepted) {
+        this.reportCharge(candidate.credits ?? this.credits);
+        this.pendingAcks.add(candidate.index);
+      }
+    } catch {
+      // Provider already disconnected
+    }
+  }
+
+  private toCandidateResult(candidate: FanOutCandidate) {
+    const summary = this.parseDiffSummary(candidate.diff || '');
+    return {
+      index: candidate.index,
+      providerId: candidate.providerId,
+      tool: candidate.tool,
+      model: candidate.model,
+      status: candidate.status,
+      error: candidate.error,
+      hasCodeChanges: !!candidate.diff,
+      aiReview: candidate.aiReview || '',
+      patch: candidate.diff || '',
+      resultId: candidate.patchFile ? `${this.taskId}-${candidate.index}` : undefined,
+      patchFile: candidate.patchFile,
+      credits: candidate.credits,
+      summary: {
+        filesChanged: summary.files.size,
+        insertions: summary.insertions,
+        deletions: summary.deletions
+      },
+      files: Array.from(summary.files),
+      durationMs: candidate.startedAt && candidate.finishedAt ? candidate.finishedAt - candidate.startedAt : undefined
+    };
+  }
+
+  private formatTool(candidate: { tool: string; model?: string }): string {
+    return candidate.model ? `${candidate.tool}:${candidate.model}` : candidate.tool;
+  }
+
+  private formatStats(candidate: FanOutCandidate): string {
+    if (!candidate.diff) {
+      return candidate.aiReview ? 'review only' : 'no changes';
+    }
+    const { files, insertions, deletions } = this.parseDiffSummary(candidate.diff);
+    return `${files.size} file(s), +${insertions} -${deletions}`;
+  }
+
+  private displayCandidateTable(candidates: FanOutCandidate[]) {
+    console.log(chalk.gray(`  ${'#'.padEnd(4)}${'Tool'.padEnd(24)}${'Provider'.padEnd(14)}${'Status'.padEnd(12)}${'Time'.padEnd(8)}Changes`));
+    for (const candidate of candidates) {
+      const seconds = candidate.startedAt && candidate.finishedAt
+        ? `${Math.round((candidate.finishedAt - candidate.startedAt) / 1000)}s`
+        : '-';
+      const status = candidate.status === 'completed'
+        ? chalk.green(candidate.status.padEnd(12))
+        : chalk.red(candidate.status.padEnd(12));
+      const changes = candidate.status === 'completed' ? this.formatStats(candidate) : chalk.red(candidate.error || '');
+      console.log(
+        `  ${String(candidate.index).padEnd(4)}${this.formatTool(candidate).padEnd(24)}` +
+        `${(candidate.providerId || '').slice(0, 12).padEnd(14)}${status}${seconds.padEnd(8)}${changes}`
+      );
+    }
+  }
+
+  /**
+   * Print candidate diffs in columns (up to three per row of columns, truncated to the terminal width)
+   */
+  private displaySideBySide(candidates: FanOutCandidate[]) {
+    const maxRows = 200;
+    const width = process.stdout.columns || 120;
+    const gutter = ' │ ';
+
+    for (let start = 0; start < candidates.length; start += 3) {
+      const group = candidates.slice(start, start + 3);
+      const columnWidth = Math.max(20, Math.floor((width - gutter.length * (group.length - 1)) / group.length));
+      const columns = group.map(candidate => [
+        `#${candidate.index} ${this.formatTool(candidate)}`,
+        this.formatStats(candidate),
+        '─'.repeat(columnWidth),
+        ...candidate.diff!.split('\n')
+      ]);
+      const rows = Math.max(...columns.map(lines => lines.length));
+
+      for (let row = 0; row < Math.min(rows, maxRows); row++) {
+        const cells = columns.map(lines => {
+          const raw = lines[row] ?? '';
+          const text = raw.length > columnWidth ? raw.slice(0, columnWidth - 1) + '…' : raw.padEnd(columnWidth);
+          if (row < 2) return chalk.bold(text);
+          if (raw.startsWith('+') && !raw.startsWith('+++')) return chalk.green(text);
+          if (raw.startsWith('-') && !raw.startsWith('---')) return chalk.red(text);
+          if (raw.startsWith('@@')) return chalk.cyan(text);
+          return text;
+        });
+        console.log(cells.join(chalk.gray(gutter)));
+      }
+      if (rows > maxRows) {
+        console.log(chalk.gray(`… ${rows - maxRows} more lines (choose a candidate to see its full diff)`));
+      }
+      console.log('');
+    }
+  }
+
   /**
    * Handle execution completion - fetch changes from git
    */
@@ -691,10 +2040,14 @@ export class RequesterCommand {
         throw new Error('Git server not initialized');
       }
 
-      // Get changes from git
-      const changes = await this.gitServer.getChanges();
+      // Get changes from git (always against the original upload, so follow-ups show the combined result)
+      const changes = this.restoreSecrets(await this.gitServer.getChanges());
+      await this.saveSession();
 
       if (spinner) spinner.succeed('Results received');
+      if (this.previousInstructions.length > 0 && !this.jsonMode) {
+        console.log(chalk.gray(`Showing the combined changes of all ${this.previousInstructions.length + 1} instructions against the original upload`));
+      }
 
       if (changes && changes.trim()) {
         // Check if this includes AI review output
@@ -705,20 +2058,19 @@ export class RequesterCommand {
         const hasCodeChanges = codeChanges.trim().length > 0;
 
         // Extract AI review output if present
-        let aiOutput = '';
-        if (hasReviewOutput) {
-          const outputMatch = changes.match(/\+## Output\n\+([\s\S]*?)(?=diff --git|$)/);
-          if (outputMatch && outputMatch[1]) {
-            aiOutput = outputMatch[1].split('\n')
-              .filter(line => line.startsWith('+'))
-              .map(line => line.substring(1))
-              .join('\n');
-
-            if (!this.jsonMode) {
-              console.log(chalk.bold.cyan('\n📝 AI Review Results:\n'));
-              console.log(chalk.white(aiOutput));
-            }
-          }
+        const aiOutput = this.extractAIOutput(changes);
+        if (aiOutput && !this.jsonMode) {
+          console.log(chalk.bold.cyan('\n📝 AI Review Results:\n'));
+          console.log(chalk.white(aiOutput));
+        }
+
+        // Keep results in local history (viewable with: hokipoki tasks show <id>)
+        if (this.taskId) {
+          await this.recordHistory({
+            id: this.taskId,
+            diff: hasCodeChanges ? codeChanges : undefined,
+            aiOutput: aiOutput || undefined
+          });
         }
 
         // If there are code changes, offer to review and apply them
@@ -732,6 +2084,8 @@ export class RequesterCommand {
 
         // If only review output (no code changes), auto-accept
         if (hasReviewOutput && !hasCodeChanges) {
+          const { id: resultId } = await this.storeResult({ aiOutput: aiOutput || undefined });
+
           // Log task completion to backend (before sending confirmation)
           if (this.taskId) {
             await this.logTask({
@@ -740,31 +2094,24 @@ export class RequesterCommand {
               model: this.modelName,
               description: this.options.task,
               status: 'completed',
-              credits: 2.5,
+              credits: this.credits,
               completedAt: new Date()
             });
           }
 
-          this.p2pConnection?.sendP2P({
-            type: 'confirmation',
-            payload: {
-              accepted: true,
-              credits: 2.5,
-              taskId: this.taskId
-            }
-          });
-
           if (this.jsonMode) {
-            console.log(JSON.stringify({
+            printResult({
               success: true,
               hasCodeChanges: false,
               aiReview: aiOutput,
-              credits: 2.5
-            }));
+              resultId,
+              credits: this.credits
+            });
           } else {
             console.log(chalk.green('\n✅ Review received from provider'));
-            // TODO: Credits system coming soon
-            // console.log(chalk.green('💰 2.5 credits transferred to provider'));
+          }
+          this.sendConfirmation('accepted');
+          if (!this.jsonMode) {
             console.log(chalk.gray('Waiting for provider acknowledgment...'));
           }
 
@@ -781,29 +2128,22 @@ export class RequesterCommand {
             model: this.modelName,
             description: this.options.task,
             status: 'completed',
-            credits: 2.5,
+            credits: this.credits,
             completedAt: new Date()
           });
         }
 
-        this.p2pConnection?.sendP2P({
-          type: 'confirmation',
-          payload: {
-            accepted: true,
-            credits: 2.5,
-            taskId: this.taskId
-          }
-        });
-
         if (this.jsonMode) {
-          console.log(JSON.stringify({
+          printResult({
             success: true,
             hasCodeChanges: false,
-            credits: 2.5
-          }));
+            credits: this.credits
+          });
         } else {
           console.log(chalk.yellow('\nNo changes were made'));
-          console.log(chalk.green('💰 2.5 credits transferred to provider'));
+        }
+        this.sendConfirmation('accepted');
+        if (!this.jsonMode) {
           console.log(chalk.gray('Waiting for provider acknowledgment...'));
         }
 
@@ -815,7 +2155,7 @@ export class RequesterCommand {
       if (spinner) spinner.fail('Failed to fetch results');
 
       if (this.jsonMode) {
-        console.log(JSON.stringify({ success: false, error: String(error) }));
+        printResult({ success: false, error: String(error) });
       } else {
         console.error(chalk.red(error));
       }
@@ -823,34 +2163,168 @@ export class RequesterCommand {
       await this.cleanup();
       process.exit(1);
     }
-  }
-
-  /**
-   * Wait for confirmation_ack with a timeout fallback
-   * This prevents hanging forever if provider doesn't respond
-   */
-  private async waitForAckWithTimeout(timeoutMs: number = 5000): Promise<void> {
-    return new Promise((resolve) => {
-      const timeout = setTimeout(async () => {
-        // Timeout reached - cleanup and exit anyway
-        if (!this.jsonMode) {
-          console.log(chalk.gray('Provider ack timeout - cleaning up...'));
-        }
-        await this.cleanup();
-        process.exit(0);
-      }, timeoutMs);
+  }
+
+  /**
+   * Wait for confirmation_ack with a timeout fallback
+   * This prevents hanging forever if provider doesn't respond
+   */
+  private async waitForAckWithTimeout(timeoutMs: number = 5000): Promise<void> {
+    return new Promise((resolve) => {
+      const timeout = setTimeout(async () => {
+        // Timeout reached - cleanup and exit anyway
+        if (!this.jsonMode) {
+          console.log(chalk.gray('Provider ack timeout - cleaning up...'));
+        }
+        await this.cleanup();
+        process.exit(0);
+      }, timeoutMs);
+
+      // The actual ack handler in handleP2PData will call cleanup and exit
+      // This timeout is just a fallback safety net
+      // Clear timeout if we're somehow still running after ack
+      // (shouldn't happen since handleP2PData calls process.exit)
+    });
+  }
+
+  private startTimer(kind: TimeoutKind): void {
+    this.clearTimer(kind);
+    if (this.timeoutsMs[kind] > 0) {
+      this.timers[kind] = setTimeout(() => this.handleTimeout(kind), this.timeoutsMs[kind]);
+    }
+  }
+
+  private clearTimer(kind: TimeoutKind): void {
+    clearTimeout(this.timers[kind]);
+    delete this.timers[kind];
+  }
+
+  private formatLimit(kind: TimeoutKind): string {
+    const seconds = Math.round(this.timeoutsMs[kind] / 1000);
+    if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+    if (seconds % 60 === 0) return `${seconds / 60}m`;
+    return `${seconds}s`;
+  }
+
+  /**
+   * No provider matched (--match-timeout) or the matched one didn't finish (--execution-timeout):
+   * cancel the task, then re-publish it while --retries are left, or give up
+   */
+  private async handleTimeout(kind: TimeoutKind): Promise<void> {
+    delete this.timers[kind];
+    const limit = this.formatLimit(kind);
+
+    // Fan-out: carry on with the providers that did match
+    if (kind === 'match' && this.isFanOut() && this.candidates.some(c => c.providerId)) {
+      this.fanOutMatchingClosed = true;
+      if (!this.jsonMode) {
+        const matched = this.candidates.filter(c => c.providerId).length;
+        console.log(chalk.yellow(`\n⚠️  Only ${matched} of ${this.candidates.length} providers matched within ${limit}`));
+      }
+      await this.checkFanOutDone();
+      return;
+    }
+
+    const code = `${kind}_timeout`;
+    const error = kind === 'match'
+      ? `No provider accepted the task within ${limit}`
+      : `The provider did not return a result within ${limit}`;
+    const taskId = this.taskId;
+    const providerId = this.providerId;
+    emitEvent(code, { taskId, providerId, timeoutMs: this.timeoutsMs[kind], attempt: this.attempts });
+    if (!this.jsonMode) {
+      console.log(chalk.yellow(`\n⏰ ${error} - cancelling task...`));
+    }
+
+    await this.cancelTask(error);
+    await this.resetSession();
+
+    if (this.retriesLeft > 0) {
+      this.retriesLeft--;
+      this.attempts++;
+      emitEvent('task_republished', { previousTaskId: taskId, attempt: this.attempts, retriesLeft: this.retriesLeft });
+      if (!this.jsonMode) {
+        console.log(chalk.cyan(`🔁 Publishing the task again (attempt ${this.attempts}, ${this.retriesLeft} retr${this.retriesLeft === 1 ? 'y' : 'ies'} left)`));
+        console.log(chalk.cyan('\n⏳ Awaiting provider...'));
+      }
+      await this.publishTask();
+      return;
+    }
+
+    if (this.jsonMode) {
+      printResult({ success: false, code, error, taskId, providerId, attempts: this.attempts });
+    } else {
+      console.log(chalk.red(`\n❌ ${error}`));
+      console.log(chalk.gray(kind === 'match'
+        ? 'Try again later, request a different tool, or wait longer with --match-timeout (or --retries).'
+        : 'Give the provider more time with --execution-timeout, or re-publish automatically with --retries.'));
+    }
+    process.exit(1);
+  }
+
+  /**
+   * Drop the current provider, git server and tunnel so the task can be published afresh
+   */
+  private async resetSession(): Promise<void> {
+    if (this.p2pConnection) {
+      this.p2pConnection.removeAllListeners();
+      this.p2pConnection.disconnect();
+      this.p2pConnection = undefined;
+    }
+    await this.cleanup();
+    this.gitServer = undefined;
+    this.providerId = undefined;
+    this.taskId = undefined;
+  }
+
+  /**
+   * Cancel the task on the relay and in the backend; returns whether the backend confirmed
+   */
+  private async cancelTask(reason: string): Promise<boolean> {
+    if (!this.taskId) {
+      return false;
+    }
+
+    // The relay drops the task and tells the matched provider, if any, to stop
+    this.cancelledTaskIds.add(this.taskId);
+    this.send({ type: 'cancel_task', taskId: this.taskId, payload: { reason } });
+
+    let cancelled = false;
+    try {
+      const token = await this.keycloakManager.getToken();
+      if (token) {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), 3000);
+        const response = await fetch(`${this.backendUrl}/tasks/${this.taskId}/cancel`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ reason }),
+          signal: controller.signal
+        });
+        clearTimeout(timeoutId);
+        cancelled = response.ok;
+      }
+    } catch (error) {
+      // Best-effort: the backend also expires tasks whose requester is gone
+    }
 
-      // The actual ack handler in handleP2PData will call cleanup and exit
-      // This timeout is just a fallback safety net
-      // Clear timeout if we're somehow still running after ack
-      // (shouldn't happen since handleP2PData calls process.exit)
+    await this.recordHistory({
+      id: this.taskId,
+      status: 'cancelled',
+      completedAt: new Date().toISOString()
     });
+    return cancelled;
   }
 
   /**
    * Cleanup git server and temp files
    */
   private async cleanup() {
+    this.clearTimer('match');
+    this.clearTimer('execution');
     if (this.gitServer) {
       await this.gitServer.stop();
     }
@@ -858,11 +2332,29 @@ export class RequesterCommand {
 
   private async reviewSolution(payload: any) {
     try {
+      // Keep the result outside the repository (see: hokipoki results)
+      const { id: resultId } = await this.storeResult({ diff: payload.diff, aiOutput: payload.aiReview });
+      const patchFilePath = this.results.getPatchPath(resultId);
+      const exportedPatch = await this.exportPatch(payload.diff);
+
+      // Check the result locally before anything touches the checkout
+      let verification: VerificationResult | undefined;
+      if (this.options.verify) {
+        verification = await this.verifyPatch(patchFilePath);
+        const { output, durationMs, ...outcome } = verification;
+        await this.results.update(resultId, { verification: outcome });
+        if (!verification.passed) {
+          await this.handleFailedVerification(resultId, payload, verification);
+          return;
+        }
+      }
+
       // Detect new files in the diff
       const newFiles = this.detectNewFiles(payload.diff);
 
-      // Auto-create new files before patch processing
-      if (newFiles.length > 0) {
+      // Auto-create new files before patch processing (only when applying into the checkout,
+      // and not ahead of the decision of a detached task or for JSON output, which only saves)
+      if (newFiles.length > 0 && this.applyMode === 'working-tree' && !this.options.agent && !this.jsonMode) {
         console.log(chalk.cyan(`\n📄 Detected ${newFiles.length} new file(s):`));
 
         for (const filename of newFiles) {
@@ -882,20 +2374,14 @@ export class RequesterCommand {
         console.log('');
       }
 
-      // Save patch file
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const patchFileName = `hokipoki-${this.taskId}-${timestamp}.patch`;
-      const patchDir = path.join(process.cwd(), 'patches');
-      const patchFilePath = path.join(patchDir, patchFileName);
-
-      // Create patches directory if it doesn't exist
-      await fs.mkdir(patchDir, { recursive: true });
-
-      await fs.writeFile(patchFilePath, payload.diff, 'utf8');
-
       // Extract diff summary for JSON output
       const summary = this.parseDiffSummary(payload.diff);
 
+      if (this.options.agent) {
+        await this.awaitDetachedReview(payload, resultId, summary, verification);
+        return;
+      }
+
       if (this.jsonMode) {
         // Log task completion to backend first
         if (this.taskId) {
@@ -905,35 +2391,32 @@ export class RequesterCommand {
             model: this.modelName,
             description: this.options.task,
             status: 'completed',
-            credits: 2.5,
+            credits: this.credits,
             completedAt: new Date()
           });
         }
 
         // Auto-save in JSON mode and output results
-        this.p2pConnection?.sendP2P({
-          type: 'confirmation',
-          payload: {
-            accepted: true,
-            credits: 2.5,
-            taskId: this.taskId
-          }
-        });
+        this.sendConfirmation('accepted');
+        await this.results.update(resultId, { status: 'saved' });
 
-        console.log(JSON.stringify({
+        printResult({
           success: true,
           hasCodeChanges: true,
           aiReview: payload.aiReview || '',
           patch: payload.diff,
-          patchFile: patchFileName,
+          resultId,
+          patchFile: patchFilePath,
+          exportedPatch,
           summary: {
             filesChanged: summary.files.size,
             insertions: summary.insertions,
             deletions: summary.deletions
           },
           files: Array.from(summary.files),
-          credits: 2.5
-        }));
+          verification,
+          credits: this.credits
+        });
 
         // Notify MCP server
         this.send({
@@ -947,7 +2430,14 @@ export class RequesterCommand {
       }
 
       // Interactive mode - display and prompt
-      console.log(chalk.gray(`\n💾 Patch saved: patches/${patchFileName}\n`));
+      console.log(chalk.gray(`\n💾 Result saved: ${resultId}`) + chalk.dim(`  (hokipoki results show ${resultId})`));
+      if (exportedPatch) {
+        console.log(chalk.gray(`   Exported to: ${exportedPatch}`));
+      }
+      console.log('');
+      if (verification) {
+        this.printVerification(verification);
+      }
 
       // Display diff with summary
       console.log(chalk.bold.cyan('📝 Proposed changes:\n'));
@@ -958,10 +2448,14 @@ export class RequesterCommand {
       if (this.aiMode) {
         console.log('\n[HOKIPOKI_RESULT]');
         console.log(`status: success`);
-        console.log(`patch_file: patches/${patchFileName}`);
+        console.log(`result_id: ${resultId}`);
+        console.log(`patch_file: ${patchFilePath}`);
         console.log(`files_changed: ${summary.files.size}`);
         console.log(`insertions: ${summary.insertions}`);
         console.log(`deletions: ${summary.deletions}`);
+        if (verification) {
+          console.log(`verification: passed (${verification.command})`);
+        }
         console.log('[/HOKIPOKI_RESULT]');
 
         console.log('\n[HOKIPOKI_PATCH]');
@@ -976,7 +2470,7 @@ export class RequesterCommand {
             model: this.modelName,
             description: this.options.task,
             status: 'completed',
-            credits: 2.5,
+            credits: this.credits,
             completedAt: new Date()
           });
         }
@@ -984,13 +2478,11 @@ export class RequesterCommand {
         // In AI mode: auto-apply patch by default (unless --no-auto-apply flag is set)
         if (this.noAutoApply) {
           // User explicitly disabled auto-apply
-          console.log(chalk.cyan(`\n📄 Patch saved: patches/${patchFileName}`));
-          console.log(chalk.gray('Apply it with:'), chalk.cyan(`git apply patches/${patchFileName}`));
+          console.log(chalk.cyan(`\n📄 Result saved: ${resultId}`));
+          console.log(chalk.gray('Apply it with:'), chalk.cyan(`hokipoki results apply ${resultId}`));
 
-          this.p2pConnection?.sendP2P({
-            type: 'confirmation',
-            payload: { accepted: true, credits: 2.5, taskId: this.taskId }
-          });
+          await this.results.update(resultId, { status: 'saved' });
+          this.sendConfirmation('accepted');
 
           this.send({ type: 'task_complete', taskId: this.taskId });
 
@@ -1002,34 +2494,20 @@ export class RequesterCommand {
         // Auto-apply patch
         try {
           // Initialize git repo if needed (non-destructive, just creates .git/)
-          if (!this.isGitRepo()) {
+          if (this.applyMode === 'working-tree' && !this.isGitRepo()) {
             console.log(chalk.gray('Initializing git repository for patch apply...'));
             execSync('git init', { stdio: 'pipe' });
             execSync('git config user.name "HokiPoki"', { stdio: 'pipe' });
             execSync('git config user.email "noreply@hokipoki.ai"', { stdio: 'pipe' });
           }
 
-          // Check if patch can be applied cleanly
-          execSync(`git apply --check "${patchFilePath}"`, { stdio: 'pipe' });
-
-          // Apply the patch
-          execSync(`git apply "${patchFilePath}"`, { stdio: 'inherit' });
-
-          console.log(chalk.green('\n✅ Changes applied successfully'));
-          console.log(chalk.gray(`Patch file: patches/${patchFileName}`));
-
-          // Clean up patch file after successful apply
-          await fs.unlink(patchFilePath);
+          const result = this.applyPatch(patchFilePath);
+          this.printApplyResult(result);
+          await this.recordApply(resultId, result);
+          console.log(chalk.gray(`Patch file: ${patchFilePath}`));
 
           // Confirm with provider
-          this.p2pConnection?.sendP2P({
-            type: 'confirmation',
-            payload: { accepted: true, credits: 2.5, taskId: this.taskId }
-          });
-
-          // TODO: Credits system coming soon
-          // console.log(chalk.green('💰 2.5 credits transferred to provider'));
-
+          this.sendConfirmation('accepted');
         } catch (error: any) {
           console.error(chalk.red('\n❌ Failed to apply patch automatically'));
 
@@ -1041,19 +2519,15 @@ export class RequesterCommand {
             console.error(chalk.gray('  [sandbox_workspace_write]'));
             console.error(chalk.gray('  writable_roots = [".git"]'));
           } else {
-            console.error(chalk.yellow('The patch may have conflicts with your current code.'));
+            console.error(chalk.yellow(this.describeApplyError(error)));
           }
 
-          console.log(chalk.gray(`\nPatch saved at: patches/${patchFileName}`));
-          console.log(chalk.gray('Review and apply it manually with:'), chalk.cyan(`git apply patches/${patchFileName}`));
+          await this.results.update(resultId, { status: 'failed' });
+          console.log(chalk.gray(`\nPatch saved at: ${patchFilePath}`));
+          console.log(chalk.gray('Review and apply it later with:'), chalk.cyan(`hokipoki results apply ${resultId}`));
 
           // Still confirm with provider even if apply failed
-          this.p2pConnection?.sendP2P({
-            type: 'confirmation',
-            payload: { accepted: true, credits: 2.5, taskId: this.taskId }
-          });
-          // TODO: Credits system coming soon
-          // console.log(chalk.green('💰 2.5 credits transferred to provider'));
+          this.sendConfirmation('accepted');
         }
 
         this.send({ type: 'task_complete', taskId: this.taskId });
@@ -1071,6 +2545,8 @@ export class RequesterCommand {
           message: 'How would you like to proceed?',
           choices: [
             { name: 'Apply changes now (git apply)', value: 'apply' },
+            { name: 'Review hunk by hunk (apply only what you accept)', value: 'review' },
+            { name: 'Ask the same provider for a follow-up change', value: 'followup' },
             { name: 'Keep patch file for manual review', value: 'save' },
             { name: 'Reject changes', value: 'reject' }
           ],
@@ -1078,97 +2554,66 @@ export class RequesterCommand {
         }
       ]);
 
-      // Log task completion to backend first
-      if (this.taskId) {
+      if (action === 'followup') {
+        await this.requestFollowUp();
+        return; // The next execution_complete brings the combined result
+      }
+
+      // Log task completion to backend first (hunk review logs once the verdict is known)
+      if (this.taskId && action !== 'review') {
         await this.logTask({
           id: this.taskId,
           tool: this.toolName,
           model: this.modelName,
           description: this.options.task,
           status: action === 'reject' ? 'failed' : 'completed',
-          credits: action === 'reject' ? 0 : 2.5,
+          credits: action === 'reject' ? 0 : this.credits,
           completedAt: new Date()
         });
       }
 
-      if (action === 'apply') {
+      if (action === 'review') {
+        await this.reviewHunks(payload.diff, resultId);
+
+      } else if (action === 'apply') {
         // Check if patch can be applied cleanly
         try {
-          execSync(`git apply --check "${patchFilePath}"`, { stdio: 'pipe' });
-
-          // Apply the patch
-          execSync(`git apply "${patchFilePath}"`, { stdio: 'inherit' });
-
-          console.log(chalk.green('\n✅ Changes applied successfully'));
-          console.log(chalk.gray(`Run 'git status' to see the changes`));
-
-          // Clean up patch file after successful apply
-          await fs.unlink(patchFilePath);
+          const result = this.applyPatch(patchFilePath);
+          this.printApplyResult(result);
+          await this.recordApply(resultId, result);
+          if (result.conflicts?.length) {
+            console.log(chalk.gray(`Original patch kept at: ${patchFilePath}`));
+          }
 
           // Confirm with provider
-          this.p2pConnection?.sendP2P({
-            type: 'confirmation',
-            payload: {
-              accepted: true,
-              credits: 2.5,
-              taskId: this.taskId
-            }
-          });
-
-          // TODO: Credits system coming soon
-          // console.log(chalk.green('💰 2.5 credits transferred to provider'));
-
+          this.sendConfirmation('accepted');
         } catch (error: any) {
           console.error(chalk.red('\n❌ Failed to apply patch'));
-          console.error(chalk.yellow('The patch may have conflicts with your current code.'));
-          console.log(chalk.gray(`\nYou can manually apply it later with:`));
-          console.log(chalk.cyan(`  git apply patches/${patchFileName}`));
+          console.error(chalk.yellow(this.describeApplyError(error)));
+          await this.results.update(resultId, { status: 'failed' });
+          console.log(chalk.gray(`\nYou can apply it later with:`));
+          console.log(chalk.cyan(`  hokipoki results apply ${resultId}`));
           console.log(chalk.gray(`Or review it with:`));
-          console.log(chalk.cyan(`  cat patches/${patchFileName}`));
+          console.log(chalk.cyan(`  hokipoki results show ${resultId}`));
 
           // Still confirm with provider even if apply failed
-          this.p2pConnection?.sendP2P({
-            type: 'confirmation',
-            payload: {
-              accepted: true,
-              credits: 2.5,
-              taskId: this.taskId
-            }
-          });
-          // TODO: Credits system coming soon
-          // console.log(chalk.green('💰 2.5 credits transferred to provider'));
+          this.sendConfirmation('accepted');
         }
 
       } else if (action === 'save') {
-        console.log(chalk.green('\n💾 Patch saved for later review'));
-        console.log(chalk.gray(`\nTo apply manually:`));
-        console.log(chalk.cyan(`  git apply patches/${patchFileName}`));
+        await this.results.update(resultId, { status: 'saved' });
+        console.log(chalk.green('\n💾 Result saved for later review'));
+        console.log(chalk.gray(`\nTo apply it:`));
+        console.log(chalk.cyan(`  hokipoki results apply ${resultId}`));
 
         // Confirm with provider
-        this.p2pConnection?.sendP2P({
-          type: 'confirmation',
-          payload: {
-            accepted: true,
-            credits: 2.5,
-            taskId: this.taskId
-          }
-        });
-        // TODO: Credits system coming soon
-        // console.log(chalk.green('💰 2.5 credits transferred to provider'));
+        this.sendConfirmation('accepted');
 
       } else {
         console.log(chalk.yellow('\n❌ Changes rejected'));
+        await this.results.update(resultId, { status: 'rejected' });
 
-        // Delete patch file if rejected
-        await fs.unlink(patchFilePath);
-
-        this.p2pConnection?.sendP2P({
-          type: 'confirmation',
-          payload: {
-            accepted: false,
-            taskId: this.taskId
-          }
-        });
+        this.sendConfirmation('rejected');
       }
 
       // Notify MCP server of completion
@@ -1189,6 +2634,586 @@ export class RequesterCommand {
     }
   }
 
+  /**
+   * Run --verify against the patch in a temporary worktree
+   */
+  private async verifyPatch(patchFile: string): Promise<VerificationResult> {
+    const spinner = this.jsonMode ? null : ora(`Verifying the changes: ${this.options.verify}`).start();
+    emitEvent('verification_started', { taskId: this.taskId, command: this.options.verify });
+    try {
+      const result = await new PatchVerifier(this.options.verify!).verify(patchFile, this.expandedFiles || [], this.baseFiles);
+      if (spinner && result.passed) {
+        spinner.succeed('Verification passed');
+      } else if (spinner) {
+        spinner.fail('Verification failed');
+      }
+      emitEvent('verification_finished', { taskId: this.taskId, ...result });
+      return result;
+    } catch (error: any) {
+      if (spinner) spinner.fail('Verification could not run');
+      const result: VerificationResult = {
+        command: this.options.verify!,
+        passed: false,
+        exitCode: null,
+        output: error.stderr?.toString().trim() || error.message,
+        durationMs: 0
+      };
+      emitEvent('verification_finished', { taskId: this.taskId, ...result });
+      return result;
+    }
+  }
+
+  private printVerification(result: VerificationResult) {
+    const took = `${(result.durationMs / 1000).toFixed(1)}s`;
+    if (result.passed) {
+      console.log(chalk.green(`✅ Verification passed: ${result.command}`) + chalk.gray(` (${took})\n`));
+      return;
+    }
+
+    const status = result.timedOut ? 'timed out' : result.exitCode === null ? 'did not run' : `exited with ${result.exitCode}`;
+    console.log(chalk.red(`\n❌ Verification failed: ${result.command} ${status}`) + chalk.gray(` (${took})`));
+    const lines = result.output.split('\n');
+    if (lines.length > 30) {
+      console.log(chalk.gray(`   ... ${lines.length - 30} earlier line(s)`));
+    }
+    lines.slice(-30).forEach(line => console.log(chalk.gray(`   ${line}`)));
+  }
+
+  /**
+   * Local --verify output about to go to the provider: secrets that were uploaded as placeholders
+   * get their placeholder back, anything else the scanner recognizes is masked
+   */
+  private redactVerificationOutput(output: string): string {
+    const redacted = this.redactor ? this.redactor.redact(output) : output;
+    const scanner = this.options.allowlist ? new SecretScanner(path.resolve(this.options.allowlist)) : new SecretScanner();
+    const secrets = new Set(scanner.scanText('verification output', redacted).map(finding => finding.secret));
+    return Array.from(secrets)
+      .sort((a, b) => b.length - a.length)
+      .reduce((text, secret) => text.split(secret).join('[redacted]'), redacted);
+  }
+
+  /**
+   * The patch failed --verify: send the output back to the provider while retries are left,
+   * otherwise reject the result (it stays in the result store for inspection)
+   */
+  private async handleFailedVerification(resultId: string, payload: any, verification: VerificationResult): Promise<void> {
+    if (!this.jsonMode) {
+      this.printVerification(verification);
+    }
+    // The check ran with the real secrets restored; redact before truncating so no secret is cut in half
+    const output = this.redactVerificationOutput(verification.output);
+    const feedback = output.length > VERIFY_FEEDBACK_CHARS
+      ? '…' + output.slice(-VERIFY_FEEDBACK_CHARS)
+      : output;
+
+    if (this.verifyRetries > 0) {
+      this.verifyRetries--;
+      this.previousInstructions.push(this.options.task);
+      this.options.task = `Your changes failed the requester's check \`${verification.command}\`` +
+        (verification.exitCode !== null ? ` (exit code ${verification.exitCode})` : '') +
+        `. Fix the problems below and keep the rest of the changes.\n\n\`\`\`\n${feedback}\n\`\`\``;
+      await this.sendTaskToProvider();
+
+      emitEvent('follow_up_requested', { taskId: this.taskId, reason: 'verification_failed', retriesLeft: this.verifyRetries });
+      if (!this.jsonMode) {
+        console.log(chalk.cyan(`\n🔁 Sent the failure output back to the provider (${this.verifyRetries} retr${this.verifyRetries === 1 ? 'y' : 'ies'} left). Waiting for the updated result...`));
+      }
+      return; // The next execution_complete brings the revised result
+    }
+
+    await this.results.update(resultId, { status: 'failed' });
+    const summary = this.parseDiffSummary(payload.diff);
+
+    if (this.taskId) {
+      await this.logTask({
+        id: this.taskId,
+        tool: this.toolName,
+        model: this.modelName,
+        description: this.options.task,
+        status: 'failed',
+        credits: 0,
+        completedAt: new Date()
+      });
+    }
+    this.sendConfirmation('rejected', {
+      reason: 'verification_failed',
+      verification: { command: verification.command, exitCode: verification.exitCode, output: feedback }
+    });
+
+    if (this.jsonMode) {
+      printResult({
+        success: false,
+        error: `Verification failed: ${verification.command}`,
+        hasCodeChanges: true,
+        verification,
+        resultId,
+        patchFile: this.results.getPatchPath(resultId),
+        summary: {
+          filesChanged: summary.files.size,
+          insertions: summary.insertions,
+          deletions: summary.deletions
+        },
+        files: Array.from(summary.files),
+        credits: 0
+      });
+    } else {
+      console.log(chalk.yellow('\nChanges rejected. Nothing was applied.'));
+      console.log(chalk.gray('Inspect the result with:'), chalk.cyan(`hokipoki results show ${resultId}`));
+    }
+
+    this.send({ type: 'task_complete', taskId: this.taskId });
+    await this.waitForAckWithTimeout();
+  }
+
+  /**
+   * Background agent: publish the result for review and act on the decision made in
+   * `hokipoki attach` (the relay connection and git server stay up until then)
+   */
+  private async awaitDetachedReview(
+    payload: any,
+    resultId: string,
+    summary: { files: Set<string>; insertions: number; deletions: number },
+    verification?: VerificationResult
+  ): Promise<void> {
+    const patchFile = this.results.getPatchPath(resultId);
+    emitEvent('review_pending', {
+      taskId: this.taskId,
+      resultId,
+      patchFile,
+      aiReview: payload.aiReview || '',
+      summary: {
+        filesChanged: summary.files.size,
+        insertions: summary.insertions,
+        deletions: summary.deletions
+      },
+      files: Array.from(summary.files),
+      verification
+    });
+    console.log(chalk.cyan(`\n⏸  Result ${resultId} saved; waiting for hokipoki attach to review it`));
+
+    const decision: DetachedDecision = await new DetachedTaskStore().waitForDecision(this.options.agent!);
+
+    let applied = false;
+    let error: string | undefined;
+    if (decision === 'apply') {
+      try {
+        const result = this.applyPatch(patchFile);
+        this.printApplyResult(result);
+        await this.recordApply(resultId, result);
+        applied = !result.conflicts?.length;
+      } catch (applyError: any) {
+        error = this.describeApplyError(applyError);
+        await this.results.update(resultId, { status: 'failed' });
+        console.log(chalk.red(`\n❌ Failed to apply patch: ${error}`));
+      }
+    } else {
+      await this.results.update(resultId, { status: decision === 'reject' ? 'rejected' : 'saved' });
+    }
+
+    if (this.taskId) {
+      await this.logTask({
+        id: this.taskId,
+        tool: this.toolName,
+        model: this.modelName,
+        description: this.options.task,
+        status: decision === 'reject' ? 'failed' : 'completed',
+        credits: decision === 'reject' ? 0 : this.credits,
+        completedAt: new Date()
+      });
+    }
+    this.sendConfirmation(decision === 'reject' ? 'rejected' : 'accepted');
+
+    printResult({
+      success: !error,
+      hasCodeChanges: true,
+      action: decision,
+      applied,
+      resultId,
+      patchFile,
+      error
+    });
+
+    this.send({ type: 'task_complete', taskId: this.taskId });
+    await this.waitForAckWithTimeout();
+  }
+
+  /**
+   * Follow-up within the open P2P session: the provider runs again on the same repo,
+   * on top of its pushed commits
+   */
+  private async requestFollowUp(): Promise<void> {
+    const { followUp } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'followUp',
+        message: 'What should be changed?',
+        validate: (value: string) => value.trim() ? true : 'Describe the follow-up change'
+      }
+    ]);
+
+    this.previousInstructions.push(this.options.task);
+    this.options.task = followUp.trim();
+    await this.sendTaskToProvider();
+
+    emitEvent('follow_up_requested', { taskId: this.taskId, task: this.options.task });
+    console.log(chalk.cyan('\n🔁 Follow-up sent to the provider. Waiting for the updated result...'));
+  }
+
+  /**
+   * Save a result (or a fan-out candidate's) in the result store
+   */
+  private async storeResult(artifacts: { diff?: string; aiOutput?: string }, candidate?: FanOutCandidate): Promise<ResultMeta> {
+    const summary = artifacts.diff ? this.parseDiffSummary(artifacts.diff) : undefined;
+    const source = candidate || this.chosenCandidate;
+    return this.results.save({
+      id: candidate ? `${this.taskId}-${candidate.index}` : this.taskId!,
+      taskId: this.taskId!,
+      candidate: source?.index,
+      description: this.options.task,
+      tool: candidate ? candidate.tool : this.toolName,
+      model: candidate ? candidate.model : this.modelName,
+      providerId: candidate ? candidate.providerId : this.providerId,
+      workspace: this.workspaceName,
+      cwd: process.cwd(),
+      baseCommit: this.baseCommit,
+      applyMode: this.applyMode,
+      credits: candidate?.credits,
+      status: artifacts.diff ? 'pending' : 'review_only',
+      summary: summary && { filesChanged: summary.files.size, insertions: summary.insertions, deletions: summary.deletions },
+      files: summary && Array.from(summary.files)
+    }, {
+      diff: artifacts.diff,
+      aiOutput: artifacts.aiOutput,
+      commitMessages: this.gitServer?.getCommitMessages(source ? String(source.index) : undefined).map(message => this.restoreSecrets(message)),
+      baseFiles: this.baseFiles
+    });
+  }
+
+  /**
+   * With config "exportPatches", also write the patch to ./patches; returns its path
+   */
+  private async exportPatch(diff: string, name: string = this.taskId!): Promise<string | undefined> {
+    if (!this.exportPatches) {
+      return undefined;
+    }
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const patchFile = path.join('patches', `hokipoki-${name}-${timestamp}.patch`);
+    await fs.mkdir(path.join(process.cwd(), 'patches'), { recursive: true });
+    await fs.writeFile(path.join(process.cwd(), patchFile), diff, 'utf8');
+    return patchFile;
+  }
+
+  private async recordApply(resultId: string, result: ApplyResult): Promise<void> {
+    await this.results.update(resultId, { status: result.conflicts?.length ? 'conflicts' : 'applied', apply: result });
+  }
+
+  /**
+   * Apply a patch with the selected --apply-mode (throws if it doesn't apply)
+   */
+  private applyPatch(patchFilePath: string): ApplyResult {
+    return new PatchApplier().apply(patchFilePath, this.applyMode, {
+      taskId: this.taskId!,
+      description: this.options.task,
+      providerId: this.providerId,
+      tool: this.toolName,
+      model: this.modelName
+    }, this.baseCommit, this.baseFiles);
+  }
+
+  /**
+   * git failures mean conflicts; anything else (e.g. branch already exists) is shown as is
+   */
+  private describeApplyError(error: any): string {
+    return error.stderr !== undefined
+      ? 'The patch may have conflicts with your current code.'
+      : error.message;
+  }
+
+  private printApplyResult(result: ApplyResult) {
+    emitEvent('patch_applied', { taskId: this.taskId, ...result });
+    if (result.conflicts?.length) {
+      this.printConflicts(result);
+      return;
+    }
+    if (result.mode === 'working-tree') {
+      if (result.merged) {
+        console.log(chalk.green('\n✅ Changes merged with your edits made during the task'));
+        result.merged.forEach(file => console.log(chalk.gray(`   ${file}`)));
+      } else {
+        console.log(chalk.green('\n✅ Changes applied successfully'));
+      }
+      console.log(chalk.gray(`Run 'git status' to see the changes`));
+      return;
+    }
+
+    console.log(chalk.green(`\n✅ Changes committed to branch ${result.branch} (${result.commit!.slice(0, 7)})`));
+    if (result.worktreePath) {
+      console.log(chalk.gray('Checked out in worktree:'), chalk.cyan(result.worktreePath));
+      console.log(chalk.gray('Remove it when done:'), chalk.cyan(`git worktree remove ${result.worktreePath}`));
+    } else {
+      console.log(chalk.gray('Your checkout is untouched. Inspect with:'), chalk.cyan(`git show ${result.branch}`));
+    }
+    console.log(chalk.gray('Merge it with:'), chalk.cyan(`git merge ${result.branch}`));
+  }
+
+  /**
+   * The patch was merged three-way but some changes overlap with edits made during the task
+   */
+  private printConflicts(result: ApplyResult) {
+    const where = result.worktreePath ? ` in worktree ${result.worktreePath}` : '';
+    console.log(chalk.yellow(`\n⚠️  Changes merged with ${result.conflicts!.length} conflict(s)${where}:`));
+    for (const conflict of result.conflicts!) {
+      console.log(chalk.yellow(`   ${conflict.file}`), chalk.gray(`(${conflict.reason})`));
+    }
+    console.log(chalk.gray('Resolve the <<<<<<< / >>>>>>> markers, then review with'), chalk.cyan('git diff'));
+    if (result.worktreePath) {
+      console.log(chalk.gray('Commit the result on'), chalk.cyan(result.branch!), chalk.gray('from the worktree when done'));
+    }
+  }
+
+  /**
+   * Tell the provider how its result was received
+   */
+  private sendConfirmation(verdict: ReviewVerdict, details: Record<string, unknown> = {}) {
+    this.p2pConnection?.sendP2P({
+      type: 'confirmation',
+      payload: {
+        accepted: verdict !== 'rejected',
+        verdict,
+        credits: verdict === 'rejected' ? 0 : this.credits,
+        taskId: this.taskId,
+        ...details
+      }
+    });
+    if (verdict !== 'rejected') {
+      this.reportCharge(this.credits);
+    }
+  }
+
+  /**
+   * Every accepted result is charged the estimate shown before publishing
+   */
+  private reportCharge(credits: number) {
+    if (!this.jsonMode) {
+      console.log(chalk.green(`💰 ${credits} credits charged`) + chalk.gray(' (the estimate shown before publishing)'));
+    }
+  }
+
+  /**
+   * `git add -p`-style review: accept, skip or edit each hunk, apply the accepted ones
+   * and save the skipped ones to a separate .rejected.patch
+   */
+  private async reviewHunks(diff: string, resultId: string): Promise<void> {
+    const patchFilePath = this.results.getPatchPath(resultId);
+    const files = parsePatch(diff);
+    const total = files.reduce((sum, file) => sum + Math.max(file.hunks.length, 1), 0);
+    const accepted: Array<{ file: PatchFile; hunks: PatchHunk[] }> = [];
+    const rejected: Array<{ file: PatchFile; hunks: PatchHunk[] }> = [];
+    let acceptedCount = 0;
+    let editedCount = 0;
+    let position = 0;
+    let skipAll = false;
+
+    for (const file of files) {
+      const keep: PatchHunk[] = [];
+      const drop: PatchHunk[] = [];
+      let fileDecision: 'accept' | 'skip' | undefined = skipAll ? 'skip' : undefined;
+      // Binary and mode-only changes have no hunks; review them as a single unit
+      const units: Array<PatchHunk | undefined> = file.hunks.length > 0 ? file.hunks : [undefined];
+
+      for (const hunk of units) {
+        position++;
+        let decision = fileDecision;
+
+        if (!decision) {
+          const label = file.isNew ? 'new file' : file.isDeleted ? 'deleted' : file.isBinary ? 'binary' : 'modified';
+          console.log(chalk.bold(`\n📄 ${file.path} ${chalk.gray(`(${label}, change ${position}/${total})`)}`));
+          this.displayDiff(hunk ? [formatHunkHeader(hunk), ...hunk.lines].join('\n') : file.header.slice(1).join('\n'));
+
+          const { choice } = await inquirer.prompt([
+            {
+              type: 'expand',
+              name: 'choice',
+              message: 'Apply this change?',
+              choices: [
+                { key: 'y', name: 'Accept this change', value: 'accept' },
+                { key: 'n', name: 'Skip this change', value: 'skip' },
+                ...(hunk && !file.isBinary ? [{ key: 'e', name: 'Edit this change in $EDITOR', value: 'edit' } as const] : []),
+                { key: 'a', name: 'Accept this and the remaining changes in the file', value: 'accept-file' },
+                { key: 'd', name: 'Skip this and the remaining changes in the file', value: 'skip-file' },
+                { key: 'q', name: 'Skip this and everything left', value: 'quit' }
+              ] as const,
+              default: 'y'
+            }
+          ]);
+
+          if (choice === 'edit') {
+            const edited = this.editHunk(file, hunk!);
+            if (edited) {
+              keep.push(edited);
+              acceptedCount++;
+              editedCount++;
+            } else {
+              console.log(chalk.gray('   Edited change is empty - skipped'));
+              drop.push(hunk!);
+            }
+            continue;
+          }
+
+          if (choice === 'accept-file') fileDecision = 'accept';
+          if (choice === 'skip-file') fileDecision = 'skip';
+          if (choice === 'quit') {
+            fileDecision = 'skip';
+            skipAll = true;
+          }
+          decision = choice === 'accept' || choice === 'accept-file' ? 'accept' : 'skip';
+        }
+
+        if (decision === 'accept') {
+          if (hunk) keep.push(hunk);
+          acceptedCount++;
+        } else if (hunk) {
+          drop.push(hunk);
+        }
+        if (!hunk && decision === 'skip') {
+          rejected.push({ file, hunks: [] });
+        }
+        if (!hunk && decision === 'accept') {
+          accepted.push({ file, hunks: [] });
+        }
+      }
+
+      if (keep.length > 0) accepted.push({ file, hunks: keep });
+      if (drop.length > 0) rejected.push({ file, hunks: drop });
+    }
+
+    const verdict: ReviewVerdict = acceptedCount === 0
+      ? 'rejected'
+      : acceptedCount === total && editedCount === 0 ? 'accepted' : 'partial';
+    const patchBase = patchFilePath.replace(/\.patch$/, '');
+
+    // In working-tree mode new files were already created from the full diff:
+    // rewrite accepted ones, remove skipped ones. Other modes apply them from the patch.
+    const newFilesCreated = this.applyMode === 'working-tree';
+    for (const { file, hunks } of accepted.filter(entry => newFilesCreated && entry.file.isNew)) {
+      const lines = hunks.flatMap(hunk => hunk.lines);
+      const content = lines.filter(line => line.startsWith('+')).map(line => line.substring(1)).join('\n');
+      const trailingNewline = lines.some(line => line.startsWith('\\')) ? '' : '\n';
+      await fs.mkdir(path.dirname(path.join(process.cwd(), file.path)), { recursive: true });
+      await fs.writeFile(path.join(process.cwd(), file.path), content + trailingNewline, 'utf8');
+    }
+    for (const { file } of rejected.filter(entry => newFilesCreated && entry.file.isNew)) {
+      await fs.rm(path.join(process.cwd(), file.path), { force: true });
+    }
+
+    const acceptedPatch = buildPatch(accepted.filter(entry => !(newFilesCreated && entry.file.isNew)));
+    const rejectedPatch = buildPatch(rejected);
+    const rejectedPath = `${patchBase}.rejected.patch`;
+    if (rejectedPatch) {
+      await fs.writeFile(rejectedPath, rejectedPatch, 'utf8');
+    }
+
+    let applied = true;
+    let applyResult: ApplyResult | undefined;
+    if (acceptedPatch) {
+      const acceptedPath = `${patchBase}.accepted.patch`;
+      await fs.writeFile(acceptedPath, acceptedPatch, 'utf8');
+      try {
+        applyResult = this.applyPatch(acceptedPath);
+        applied = !applyResult.conflicts?.length;
+        await fs.unlink(acceptedPath);
+      } catch (error: any) {
+        applied = false;
+        console.error(chalk.red('\n❌ Failed to apply the accepted changes'));
+        console.error(chalk.yellow(this.describeApplyError(error)));
+        console.log(chalk.gray('Apply it manually with:'), chalk.cyan(`git apply ${acceptedPath}`));
+      }
+    }
+    await this.results.update(resultId, {
+      status: verdict === 'rejected' ? 'rejected' : applied ? 'applied' : applyResult?.conflicts?.length ? 'conflicts' : 'failed',
+      apply: applyResult
+    });
+
+    const rejectedCount = total - acceptedCount;
+    if (verdict === 'rejected') {
+      console.log(chalk.yellow('\n❌ All changes rejected'));
+    } else {
+      console.log(chalk.green(`\n✅ Accepted ${acceptedCount} of ${total} change(s)${editedCount ? ` (${editedCount} edited)` : ''}`));
+      if (applyResult) {
+        this.printApplyResult(applyResult);
+      }
+    }
+    if (rejectedPatch) {
+      console.log(chalk.gray(`Skipped changes saved to: ${rejectedPath}`));
+    }
+
+    if (this.taskId) {
+      await this.logTask({
+        id: this.taskId,
+        tool: this.toolName,
+        model: this.modelName,
+        description: this.options.task,
+        status: verdict === 'rejected' ? 'failed' : 'completed',
+        credits: verdict === 'rejected' ? 0 : this.credits,
+        completedAt: new Date()
+      });
+    }
+
+    this.sendConfirmation(verdict, {
+      hunks: { total, accepted: acceptedCount, edited: editedCount, rejected: rejectedCount }
+    });
+  }
+
+  /**
+   * Open one hunk in the user's editor; returns the edited hunk, or undefined if it was emptied
+   */
+  private editHunk(file: PatchFile, hunk: PatchHunk): PatchHunk | undefined {
+    const tempFile = path.join(os.tmpdir(), `hokipoki-hunk-${process.pid}-${Date.now()}.diff`);
+    const instructions = [
+      `# Editing a change to ${file.path}`,
+      '#',
+      "# To drop a '-' line, turn it into a ' ' (context) line.",
+      "# To drop a '+' line, delete it.",
+      '# Lines starting with # are removed. Delete everything to skip this change.'
+    ];
+    fsSync.writeFileSync(tempFile, [formatHunkHeader(hunk), ...hunk.lines, ...instructions].join('\n') + '\n');
+
+    try {
+      const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+      spawnSync(editor, [tempFile], { stdio: 'inherit', shell: true });
+      const lines = fsSync.readFileSync(tempFile, 'utf8').split('\n')
+        .filter(line => !line.startsWith('#') && !line.startsWith('@@'));
+      while (lines.length > 0 && lines[lines.length - 1] === '') {
+        lines.pop();
+      }
+      // Editors that strip trailing whitespace turn a blank context line into an empty one
+      const body = lines.map(line => line === '' ? ' ' : line).filter(line => /^[ +\-\\]/.test(line));
+      if (!body.some(line => line.startsWith('+') || line.startsWith('-'))) {
+        return undefined;
+      }
+      return recountHunk({ ...hunk, lines: body });
+    } finally {
+      fsSync.rmSync(tempFile, { force: true });
+    }
+  }
+
+  /**
+   * Output section of AI_OUTPUT.md, if the provider's tool wrote one
+   */
+  private extractAIOutput(changes: string): string {
+    if (!changes.includes('AI_OUTPUT.md')) {
+      return '';
+    }
+    const outputMatch = changes.match(/\+## Output\n\+([\s\S]*?)(?=diff --git|$)/);
+    if (!outputMatch || !outputMatch[1]) {
+      return '';
+    }
+    return outputMatch[1].split('\n')
+      .filter(line => line.startsWith('+'))
+      .map(line => line.substring(1))
+      .join('\n');
+  }
+
   private extractCodeChanges(fullDiff: string): string {
     // Extract only code changes, excluding AI_OUTPUT.md
     const lines = fullDiff.split('\n');
@@ -1347,6 +3372,17 @@ export class RequesterCommand {
     return await this.keycloakManager.getToken();
   }
 
+  /**
+   * Update local task history; a failed write must not interrupt the task
+   */
+  private async recordHistory(update: TaskRecordUpdate): Promise<void> {
+    try {
+      await this.history.record(update);
+    } catch {
+      // Local history is best-effort
+    }
+  }
+
   /**
    * Log task to backend API
    */
@@ -1360,6 +3396,19 @@ export class RequesterCommand {
     providerId?: string;
     completedAt?: Date;
   }): Promise<void> {
+    // Record locally first so history works even when the backend is unreachable
+    await this.recordHistory({
+      id: taskData.id,
+      role: 'requester',
+      tool: taskData.tool,
+      model: taskData.model,
+      description: taskData.description,
+      status: taskData.status,
+      credits: taskData.credits,
+      providerId: taskData.providerId || this.providerId,
+      completedAt: taskData.completedAt?.toISOString()
+    });
+
     try {
       const token = await this.getBackendToken();
 
@@ -1401,29 +3450,8 @@ export class RequesterCommand {
     }
 
     // Cancel task in backend database if we have a task ID
-    if (this.taskId) {
-      try {
-        const token = await this.keycloakManager.getToken();
-        if (token) {
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 3000);
-          await fetch(`${this.backendUrl}/tasks/${this.taskId}/cancel`, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${token}`,
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({}),
-            signal: controller.signal
-          });
-          clearTimeout(timeoutId);
-          if (!this.jsonMode) {
-            console.log(chalk.gray('Task cancelled in database'));
-          }
-        }
-      } catch (error) {
-        // Silent fail - process is exiting anyway
-      }
+    if (await this.cancelTask('Requester interrupted') && !this.jsonMode) {
+      console.log(chalk.gray('Task cancelled in database'));
     }
 
     // Cleanup resources
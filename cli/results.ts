@@ -0,0 +1,366 @@
+// Results CLI Command
+// Browse, apply, export and prune the results kept in the profile's result store
+
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CreditService } from '../src/services/credit-service';
+import { ApplyResult, APPLY_MODES, PatchApplier } from '../src/services/patch-applier';
+import { ResultMeta, ResultStatus, ResultStore } from '../src/services/result-store';
+import { isStructuredOutput, printResult } from '../src/utils/output';
+
+interface ResultsListOptions {
+  status?: string;
+  limit?: string;
+  json?: boolean;
+}
+
+interface ResultsShowOptions {
+  patch?: boolean;
+  json?: boolean;
+}
+
+interface ResultsApplyOptions {
+  applyMode?: string;
+  force?: boolean;
+  json?: boolean;
+}
+
+interface ResultsExportOptions {
+  dir?: string;
+  json?: boolean;
+}
+
+interface ResultsPruneOptions {
+  olderThan?: string;
+  status?: string;
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+const DEFAULT_PRUNE_AGE = '30d';
+
+export class ResultsCommand {
+  private store = new ResultStore();
+  private jsonMode = false;
+
+  async list(options: ResultsListOptions): Promise<void> {
+    this.jsonMode = isStructuredOutput(options);
+    const limit = options.limit ? parseInt(options.limit, 10) : 20;
+    const results = (await this.store.list())
+      .filter(result => !options.status || result.status === options.status)
+      .slice(0, limit > 0 ? limit : undefined);
+
+    if (this.jsonMode) {
+      printResult({ results });
+      return;
+    }
+
+    console.log(chalk.cyan('\n📦 Results\n'));
+    if (results.length === 0) {
+      console.log(chalk.gray('  No results stored\n'));
+      return;
+    }
+
+    for (const result of results) {
+      const status = this.colorStatus(result.status) + ' '.repeat(Math.max(0, 11 - result.status.length));
+      const tool = result.model ? `${result.tool}:${result.model}` : result.tool;
+      const stats = result.summary
+        ? `${result.summary.filesChanged} file(s) ${chalk.green(`+${result.summary.insertions}`)} ${chalk.red(`-${result.summary.deletions}`)}`
+        : chalk.gray('no code changes');
+      console.log(`  ${chalk.bold(this.shortId(result))}  ${status} ${chalk.cyan(tool)}  ${stats}`);
+      console.log(chalk.gray(`            ${new Date(result.createdAt).toLocaleString()} · ${this.truncate(result.description, 70)}`));
+    }
+    console.log(chalk.gray(`\n  ${results.length} result(s). Details: hokipoki results show <id>\n`));
+  }
+
+  async show(id: string, options: ResultsShowOptions): Promise<void> {
+    this.jsonMode = isStructuredOutput(options);
+    const result = await this.find(id);
+    const artifacts = await this.store.readArtifacts(result.id);
+
+    if (options.patch) {
+      if (!artifacts.diff) {
+        this.fail(`Result ${result.id} has no code changes`);
+      }
+      process.stdout.write(artifacts.diff);
+      return;
+    }
+
+    if (this.jsonMode) {
+      printResult({ ...result, dir: this.store.getDir(result.id), ...artifacts });
+      return;
+    }
+
+    console.log(chalk.cyan('\n📦 Result Details\n'));
+    console.log(chalk.gray('  ID:          '), result.id);
+    console.log(chalk.gray('  Status:      '), this.colorStatus(result.status));
+    console.log(chalk.gray('  Tool:        '), result.model ? `${result.tool}:${result.model}` : result.tool);
+    console.log(chalk.gray('  Description: '), result.description);
+    if (result.providerId) {
+      console.log(chalk.gray('  Provider:    '), result.providerId);
+    }
+    console.log(chalk.gray('  Directory:   '), result.cwd);
+    if (result.baseCommit) {
+      console.log(chalk.gray('  Based on:    '), result.baseCommit.slice(0, 7));
+    }
+    console.log(chalk.gray('  Received:    '), new Date(result.createdAt).toLocaleString());
+    if (result.apply?.branch) {
+      console.log(chalk.gray('  Branch:      '), result.apply.branch + (result.apply.commit ? ` (${result.apply.commit.slice(0, 7)})` : ''));
+    }
+    if (result.verification) {
+      const verdict = result.verification.passed ? chalk.green('passed') : chalk.red(`failed (exit code ${result.verification.exitCode})`);
+      console.log(chalk.gray('  Verification:'), `${result.verification.command}: ${verdict}`);
+    }
+    console.log(chalk.gray('  Stored in:   '), this.store.getDir(result.id));
+
+    if (artifacts.uploaded && artifacts.uploaded.length > 0) {
+      console.log(chalk.gray(`\n  Files uploaded (${artifacts.uploaded.length}):`));
+      artifacts.uploaded.forEach(file => console.log(chalk.dim(`    - ${file.path}`)));
+    }
+
+    if (artifacts.commitMessage) {
+      console.log(chalk.bold.cyan('\n📝 Commit Message:\n'));
+      console.log(chalk.white(artifacts.commitMessage.trimEnd()));
+    }
+
+    if (artifacts.aiOutput) {
+      console.log(chalk.bold.cyan('\n📝 AI Output:\n'));
+      console.log(chalk.white(artifacts.aiOutput));
+    }
+
+    if (artifacts.diff) {
+      console.log(chalk.bold.cyan('\n📝 Code Changes:\n'));
+      for (const line of artifacts.diff.split('\n')) {
+        if (line.startsWith('+')) {
+          console.log(chalk.green(line));
+        } else if (line.startsWith('-')) {
+          console.log(chalk.red(line));
+        } else if (line.startsWith('@@')) {
+          console.log(chalk.cyan(line));
+        } else {
+          console.log(line);
+        }
+      }
+    }
+    console.log('');
+  }
+
+  /**
+   * Apply a stored result from the directory it was requested in
+   */
+  async apply(id: string, options: ResultsApplyOptions): Promise<void> {
+    this.jsonMode = isStructuredOutput(options);
+    const result = await this.find(id);
+    const mode = options.applyMode || result.applyMode;
+
+    if (!PatchApplier.isApplyMode(mode)) {
+      this.fail(`Invalid apply mode '${mode}' (expected ${APPLY_MODES.join(', ')})`);
+    }
+    if (!result.summary) {
+      this.fail(`Result ${result.id} has no code changes to apply`);
+    }
+    const alreadyApplied = result.status === 'applied' || result.status === 'conflicts';
+    if (alreadyApplied && !options.force) {
+      this.fail(`Result ${result.id} was already applied`, 'Apply it again with --force');
+    }
+    if (result.status === 'rejected' && !options.force) {
+      this.fail(`Result ${result.id} was rejected`, 'Apply it anyway with --force');
+    }
+    if (!fs.existsSync(result.cwd)) {
+      this.fail(`The request directory no longer exists: ${result.cwd}`);
+    }
+
+    // Patch paths are relative to the request directory
+    process.chdir(result.cwd);
+    const baseFiles = await this.store.readBaseFiles(result.id);
+    let applied: ApplyResult;
+    try {
+      applied = new PatchApplier().apply(this.store.getPatchPath(result.id), mode, {
+        taskId: result.taskId,
+        description: result.description,
+        providerId: result.providerId,
+        tool: result.tool,
+        model: result.model
+      }, result.baseCommit, baseFiles);
+    } catch (error: any) {
+      const detail = error.stderr !== undefined ? error.stderr.toString().trim() : error.message;
+      this.fail(`Could not apply ${result.id}: ${detail || 'the patch does not apply'}`,
+        `Inspect it with: hokipoki results show ${result.id}`);
+    }
+
+    await this.store.update(result.id, { status: applied.conflicts?.length ? 'conflicts' : 'applied', apply: applied });
+    const charged = !alreadyApplied ? await this.chargeCandidate(result) : undefined;
+
+    if (this.jsonMode) {
+      printResult({ success: true, id: result.id, ...applied, ...(charged !== undefined && { credits: charged }) });
+      return;
+    }
+    if (charged !== undefined) {
+      console.log(chalk.gray(`\n💰 Charged ${charged} credits for candidate #${result.candidate}; the other candidates were rejected`));
+    }
+    if (applied.conflicts?.length) {
+      console.log(chalk.yellow(`\n⚠️  Applied ${result.id} with conflicts to resolve:`));
+      applied.conflicts.forEach(conflict => console.log(chalk.yellow(`   ${conflict.file}: ${conflict.reason}`)));
+      if (applied.worktreePath) {
+        console.log(chalk.gray('In worktree:'), chalk.cyan(applied.worktreePath));
+      }
+      console.log('');
+      return;
+    }
+    if (applied.mode === 'working-tree') {
+      console.log(chalk.green(`\n✅ Applied ${result.id} in ${result.cwd}`));
+      console.log(chalk.gray(`Run 'git status' to see the changes\n`));
+      return;
+    }
+    console.log(chalk.green(`\n✅ Committed ${result.id} to branch ${applied.branch} (${applied.commit!.slice(0, 7)})`));
+    if (applied.worktreePath) {
+      console.log(chalk.gray('Checked out in worktree:'), chalk.cyan(applied.worktreePath));
+    }
+    console.log(chalk.gray('Merge it with:'), chalk.cyan(`git merge ${applied.branch}`), '\n');
+  }
+
+  /**
+   * Copy a result's patch (and AI output) out of the store, by default to ./patches
+   */
+  async export(id: string, options: ResultsExportOptions): Promise<void> {
+    this.jsonMode = isStructuredOutput(options);
+    const result = await this.find(id);
+    const artifacts = await this.store.readArtifacts(result.id);
+    const dir = path.resolve(options.dir || 'patches');
+    fs.mkdirSync(dir, { recursive: true });
+
+    const written: string[] = [];
+    if (artifacts.diff) {
+      const patchFile = path.join(dir, `hokipoki-${result.id}.patch`);
+      fs.writeFileSync(patchFile, artifacts.diff);
+      written.push(patchFile);
+    }
+    if (artifacts.aiOutput) {
+      const outputFile = path.join(dir, `hokipoki-${result.id}.md`);
+      fs.writeFileSync(outputFile, artifacts.aiOutput);
+      written.push(outputFile);
+    }
+
+    if (this.jsonMode) {
+      printResult({ success: true, id: result.id, files: written });
+      return;
+    }
+    console.log(chalk.green(`\n✅ Exported ${result.id}:`));
+    written.forEach(file => console.log(chalk.gray(`   ${path.relative(process.cwd(), file)}`)));
+    console.log('');
+  }
+
+  /**
+   * Remove results older than --older-than (default 30 days)
+   */
+  async prune(options: ResultsPruneOptions): Promise<void> {
+    this.jsonMode = isStructuredOutput(options);
+    const age = options.olderThan || DEFAULT_PRUNE_AGE;
+    const match = age.match(/^(\d+)([mhdw])$/);
+    if (!match) {
+      this.fail(`Invalid age for --older-than: ${age}`, 'Use a relative age such as 30d, 12h or 2w');
+    }
+    const unitMs: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+    const cutoff = Date.now() - parseInt(match[1], 10) * unitMs[match[2]];
+
+    const pruned = (await this.store.list()).filter(result =>
+      new Date(result.createdAt).getTime() < cutoff && (!options.status || result.status === options.status));
+    if (!options.dryRun) {
+      for (const result of pruned) {
+        await this.store.remove(result.id);
+      }
+    }
+
+    if (this.jsonMode) {
+      printResult({ dryRun: !!options.dryRun, pruned: pruned.map(result => result.id) });
+      return;
+    }
+    if (pruned.length === 0) {
+      console.log(chalk.gray(`\nNo results older than ${age}\n`));
+      return;
+    }
+    console.log(options.dryRun
+      ? chalk.cyan(`\nWould remove ${pruned.length} result(s) older than ${age}:`)
+      : chalk.green(`\n🧹 Removed ${pruned.length} result(s) older than ${age}:`));
+    pruned.forEach(result => console.log(chalk.gray(`   ${this.shortId(result)}  ${result.status}  ${this.truncate(result.description, 60)}`)));
+    console.log('');
+  }
+
+  /**
+   * Fan-out candidates saved without choosing are charged when the first one is applied; the
+   * other candidates of the task are rejected. Returns the credits charged, if any
+   */
+  private async chargeCandidate(result: ResultMeta): Promise<number | undefined> {
+    if (result.candidate === undefined || result.id === result.taskId || !result.credits || result.charged) {
+      return undefined;
+    }
+
+    const siblings = (await this.store.list()).filter(other => other.taskId === result.taskId && other.id !== result.id);
+    // A task is charged once, whichever candidates are applied afterwards (e.g. with --force)
+    if (siblings.some(other => other.charged || other.status === 'applied' || other.status === 'conflicts')) {
+      return undefined;
+    }
+    for (const sibling of siblings.filter(other => other.status === 'saved')) {
+      await this.store.update(sibling.id, { status: 'rejected' });
+    }
+    await this.store.update(result.id, { charged: true });
+
+    const logged = await new CreditService().recordSpend({
+      taskId: result.taskId,
+      credits: result.credits,
+      providerId: result.providerId,
+      tool: result.tool,
+      model: result.model,
+      description: result.description
+    });
+    if (!logged && !this.jsonMode) {
+      console.log(chalk.dim('Note: Task logging to dashboard failed'));
+    }
+    return result.credits;
+  }
+
+  private async find(id: string): Promise<ResultMeta> {
+    const result = await this.store.get(id);
+    if (!result) {
+      this.fail(`Result '${id}' not found`, 'List results with: hokipoki results list');
+    }
+    return result;
+  }
+
+  /**
+   * Task IDs are long; show the first 8 characters (plus the candidate number of fan-out results)
+   */
+  private shortId(result: ResultMeta): string {
+    return result.candidate !== undefined && result.id !== result.taskId
+      ? `${result.taskId.slice(0, 8)}-${result.candidate}`
+      : result.id.slice(0, 8);
+  }
+
+  private colorStatus(status: ResultStatus): string {
+    switch (status) {
+      case 'applied': return chalk.green(status);
+      case 'failed':
+      case 'rejected': return chalk.red(status);
+      case 'conflicts': return chalk.yellow(status);
+      default: return chalk.cyan(status);
+    }
+  }
+
+  private truncate(text: string, max: number): string {
+    return text.length > max ? text.slice(0, max - 3) + '...' : text;
+  }
+
+  private fail(message: string, hint?: string): never {
+    if (this.jsonMode) {
+      printResult({ success: false, error: message });
+    } else {
+      console.log(chalk.red(`\n❌ ${message}`));
+      if (hint) {
+        console.log(chalk.gray(hint));
+      }
+      console.log('');
+    }
+    process.exit(1);
+  }
+}
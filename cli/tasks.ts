@@ -0,0 +1,357 @@
+// Tasks CLI Command
+// Browse past tasks: merges local history with the backend task list
+
+import chalk from 'chalk';
+import { KeycloakManager } from '../auth/keycloak-manager';
+import { ConfigManager } from '../config/config-manager';
+import { TaskHistory, TaskRecord } from '../src/services/task-history';
+import { DetachedStatus, DetachedTaskStore } from '../src/services/detached-tasks';
+import { printResult } from '../src/utils/output';
+
+interface TasksListOptions {
+  tool?: string;
+  status?: string;
+  since?: string;
+  until?: string;
+  workspace?: string;
+  limit?: string;
+  json?: boolean;
+}
+
+interface TasksShowOptions {
+  json?: boolean;
+}
+
+interface TasksPendingOptions {
+  json?: boolean;
+}
+
+export class TasksCommand {
+  private history: TaskHistory;
+  private keycloakManager: KeycloakManager;
+  private backendUrl: string;
+
+  constructor() {
+    this.history = new TaskHistory();
+    this.keycloakManager = new KeycloakManager();
+    this.backendUrl = new ConfigManager().getApiUrl();
+  }
+
+  async list(options: TasksListOptions): Promise<void> {
+    const { tasks, offline } = await this.loadMergedTasks();
+
+    const since = options.since ? this.parseDate(options.since, '--since') : undefined;
+    const until = options.until ? this.parseDate(options.until, '--until') : undefined;
+    const limit = options.limit ? parseInt(options.limit, 10) : 20;
+
+    const filtered = tasks.filter(task => {
+      if (options.tool && task.tool !== options.tool.split(':')[0]) return false;
+      if (options.status && task.status !== options.status) return false;
+      if (options.workspace && task.workspace !== options.workspace && task.workspaceId !== options.workspace) return false;
+      const created = new Date(task.createdAt);
+      if (since && created < since) return false;
+      if (until && created > until) return false;
+      return true;
+    }).slice(0, limit > 0 ? limit : undefined);
+
+    if (options.json) {
+      printResult({ offline, tasks: filtered.map(t => this.toSummary(t)) });
+      return;
+    }
+
+    console.log(chalk.cyan('\n📋 Task History\n'));
+    if (offline) {
+      console.log(chalk.yellow('⚠️  Backend unreachable - showing local history only\n'));
+    }
+
+    if (filtered.length === 0) {
+      console.log(chalk.gray('  No tasks found\n'));
+      return;
+    }
+
+    for (const task of filtered) {
+      const created = new Date(task.createdAt).toLocaleString();
+      const tool = task.model ? `${task.tool}:${task.model}` : task.tool;
+      const role = task.role === 'provider' ? chalk.magenta('provided') : chalk.green('requested');
+      const status = this.colorStatus(task.status) + ' '.repeat(Math.max(0, 11 - task.status.length));
+      console.log(`  ${chalk.bold(task.id.slice(0, 8))}  ${status} ${role}  ${chalk.cyan(tool)}`);
+      console.log(chalk.gray(`            ${created} · ${this.truncate(task.description, 70)}`));
+    }
+    console.log(chalk.gray(`\n  Showing ${filtered.length} of ${tasks.length} task(s). Details: hokipoki tasks show <id>\n`));
+  }
+
+  async show(id: string, options: TasksShowOptions): Promise<void> {
+    const local = await this.history.get(id);
+    const { tasks } = await this.loadMergedTasks();
+    const exact = tasks.find(t => t.id === id || t.id === local?.id);
+    const matches = exact ? [exact] : tasks.filter(t => t.id.startsWith(id));
+    const task = matches.length === 1 ? matches[0] : local;
+
+    if (matches.length > 1) {
+      const message = `Task ID '${id}' is ambiguous (${matches.length} tasks match)`;
+      if (options.json) {
+        printResult({ error: message, matches: matches.map(t => t.id) });
+      } else {
+        console.log(chalk.red(`\n❌ ${message}:`));
+        for (const match of matches) {
+          console.log(chalk.gray(`   ${match.id}  ${this.truncate(match.description, 60)}`));
+        }
+        console.log(chalk.gray('\nUse a longer prefix\n'));
+      }
+      process.exit(1);
+    }
+
+    if (!task) {
+      if (options.json) {
+        printResult({ error: `Task '${id}' not found` });
+      } else {
+        console.log(chalk.red(`\n❌ Task '${id}' not found\n`));
+      }
+      process.exit(1);
+    }
+
+    if (options.json) {
+      printResult({ ...task, durationMs: this.getDurationMs(task) });
+      return;
+    }
+
+    const duration = this.getDurationMs(task);
+    console.log(chalk.cyan('\n📋 Task Details\n'));
+    console.log(chalk.gray('  ID:          '), task.id);
+    console.log(chalk.gray('  Role:        '), task.role);
+    console.log(chalk.gray('  Status:      '), this.colorStatus(task.status));
+    console.log(chalk.gray('  Tool:        '), task.model ? `${task.tool}:${task.model}` : task.tool);
+    console.log(chalk.gray('  Description: '), task.description);
+    if (task.workspace || task.workspaceId) {
+      console.log(chalk.gray('  Workspace:   '), task.workspace || task.workspaceId);
+    }
+    if (task.providerId) {
+      console.log(chalk.gray('  Provider:    '), task.providerId);
+    }
+    console.log(chalk.gray('  Created:     '), new Date(task.createdAt).toLocaleString());
+    if (duration !== undefined) {
+      console.log(chalk.gray('  Duration:    '), this.formatDuration(duration));
+    }
+    if (task.credits) {
+      console.log(chalk.gray('  Credits:     '), task.credits);
+    }
+    if (task.summary) {
+      console.log(chalk.gray('  Summary:     '), task.summary);
+    }
+
+    if (task.files && task.files.length > 0) {
+      console.log(chalk.gray(`\n  Files uploaded (${task.files.length}):`));
+      task.files.forEach(file => console.log(chalk.dim(`    - ${file}`)));
+    }
+
+    if (task.aiOutput) {
+      console.log(chalk.bold.cyan('\n📝 AI Output:\n'));
+      console.log(chalk.white(task.aiOutput));
+    }
+
+    if (task.diff) {
+      console.log(chalk.bold.cyan('\n📝 Code Changes:\n'));
+      for (const line of task.diff.split('\n')) {
+        if (line.startsWith('+')) {
+          console.log(chalk.green(line));
+        } else if (line.startsWith('-')) {
+          console.log(chalk.red(line));
+        } else if (line.startsWith('@@')) {
+          console.log(chalk.cyan(line));
+        } else {
+          console.log(line);
+        }
+      }
+    }
+    console.log('');
+  }
+
+  /**
+   * Tasks started with `request --detach` whose result hasn't been collected with attach
+   */
+  pending(options: TasksPendingOptions): void {
+    const store = new DetachedTaskStore();
+    const pending = store.list().map(entry => ({ entry, state: store.getState(entry) }));
+
+    if (options.json) {
+      printResult({
+        tasks: pending.map(({ entry, state }) => ({
+          id: entry.id,
+          taskId: state.taskId,
+          status: state.status,
+          providerId: state.providerId,
+          tool: entry.tool,
+          description: entry.task,
+          cwd: entry.cwd,
+          applyMode: entry.applyMode,
+          pid: entry.pid,
+          createdAt: entry.createdAt
+        }))
+      });
+      return;
+    }
+
+    console.log(chalk.cyan('\n🛰️  Detached Tasks\n'));
+    if (pending.length === 0) {
+      console.log(chalk.gray('  No detached tasks. Start one with: hokipoki request --detach ...\n'));
+      return;
+    }
+
+    for (const { entry, state } of pending) {
+      const label = state.status.replace(/_/g, ' ');
+      const status = this.colorDetachedStatus(state.status, label) + ' '.repeat(Math.max(0, 20 - label.length));
+      const age = this.formatDuration(Date.now() - new Date(entry.createdAt).getTime());
+      console.log(`  ${chalk.bold(entry.id)}  ${status} ${chalk.cyan(entry.tool)}  ${chalk.gray(`${age} ago`)}`);
+      console.log(chalk.gray(`            ${state.taskId ? state.taskId.slice(0, 8) + ' · ' : ''}${this.truncate(entry.task, 60)}`));
+      console.log(chalk.gray(`            ${entry.cwd}`));
+    }
+    console.log(chalk.gray(`\n  ${pending.length} detached task(s). Follow or review one with: hokipoki attach <id>\n`));
+  }
+
+  /**
+   * Merge local history with the backend task list (local details win)
+   */
+  private async loadMergedTasks(): Promise<{ tasks: TaskRecord[], offline: boolean }> {
+    const local = await this.history.list();
+    const byId = new Map<string, TaskRecord>(local.map(t => [t.id, t]));
+
+    let remote: TaskRecord[] = [];
+    let offline = false;
+    try {
+      remote = await this.fetchBackendTasks();
+    } catch {
+      offline = true;
+    }
+
+    for (const task of remote) {
+      const existing = byId.get(task.id);
+      if (existing) {
+        // Backend is authoritative for status and credits, local for everything else
+        byId.set(task.id, {
+          ...task,
+          ...existing,
+          status: task.status || existing.status,
+          credits: task.credits ?? existing.credits,
+          source: 'both'
+        });
+      } else {
+        byId.set(task.id, task);
+      }
+    }
+
+    const tasks = Array.from(byId.values())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return { tasks, offline };
+  }
+
+  private async fetchBackendTasks(): Promise<TaskRecord[]> {
+    const token = await this.keycloakManager.getToken();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+    try {
+      const response = await fetch(`${this.backendUrl}/tasks`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+        signal: controller.signal
+      });
+      if (!response.ok) throw new Error('Failed to fetch tasks');
+
+      const data = await response.json() as any;
+      const tasks: any[] = Array.isArray(data) ? data : (data.tasks || []);
+
+      return tasks.map(task => ({
+        id: task.id,
+        role: task.role === 'provider' ? 'provider' : 'requester',
+        tool: task.tool,
+        model: task.model || undefined,
+        description: task.description || '',
+        status: task.status,
+        workspaceId: task.workspaceId || undefined,
+        workspace: task.workspace?.name || undefined,
+        providerId: task.providerId || undefined,
+        createdAt: task.createdAt,
+        completedAt: task.completedAt || undefined,
+        summary: task.summary || undefined,
+        credits: task.credits,
+        source: 'backend'
+      }));
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private toSummary(task: TaskRecord) {
+    return {
+      id: task.id,
+      role: task.role,
+      tool: task.tool,
+      model: task.model,
+      description: task.description,
+      status: task.status,
+      workspace: task.workspace,
+      workspaceId: task.workspaceId,
+      providerId: task.providerId,
+      createdAt: task.createdAt,
+      completedAt: task.completedAt,
+      durationMs: this.getDurationMs(task),
+      filesUploaded: task.files?.length || 0,
+      hasDiff: !!task.diff,
+      credits: task.credits,
+      source: task.source
+    };
+  }
+
+  /**
+   * Parse an ISO date or a relative age like "7d", "12h", "30m"
+   */
+  private parseDate(value: string, flag: string): Date {
+    const relative = value.match(/^(\d+)([mhdw])$/);
+    if (relative) {
+      const unitMs: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+      return new Date(Date.now() - parseInt(relative[1], 10) * unitMs[relative[2]]);
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      console.log(chalk.red(`\n❌ Invalid date for ${flag}: ${value}`));
+      console.log(chalk.gray('Use an ISO date (2025-01-31) or a relative age (7d, 12h, 30m)\n'));
+      process.exit(1);
+    }
+    return date;
+  }
+
+  private getDurationMs(task: TaskRecord): number | undefined {
+    if (!task.completedAt) return undefined;
+    return new Date(task.completedAt).getTime() - new Date(task.createdAt).getTime();
+  }
+
+  private formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}m ${seconds % 60}s`;
+  }
+
+  private colorStatus(status: string): string {
+    switch (status) {
+      case 'completed': return chalk.green(status);
+      case 'failed': return chalk.red(status);
+      case 'cancelled': return chalk.yellow(status);
+      default: return chalk.cyan(status);
+    }
+  }
+
+  private colorDetachedStatus(status: DetachedStatus, label: string): string {
+    switch (status) {
+      case 'awaiting_review':
+      case 'finished': return chalk.green(label);
+      case 'failed':
+      case 'agent_exited': return chalk.red(label);
+      default: return chalk.cyan(label);
+    }
+  }
+
+  private truncate(text: string, max: number): string {
+    return text.length > max ? text.slice(0, max - 3) + '...' : text;
+  }
+}
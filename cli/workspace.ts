@@ -0,0 +1,221 @@
+// Workspace CLI Command
+// Handles `hokipoki workspace list/show/use/create/invite/members`
+
+import chalk from 'chalk';
+import { ConfigManager } from '../config/config-manager';
+import { Workspace, WorkspaceService } from '../src/services/workspace-service';
+import { printResult } from '../src/utils/output';
+
+interface WorkspaceCommandOptions {
+  json?: boolean;
+  refresh?: boolean;
+  request?: boolean;   // `use`: only set the request default
+  listen?: boolean;    // `use`: only set the workspaces served by listen
+}
+
+export class WorkspaceCommand {
+  private workspaceService: WorkspaceService;
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.workspaceService = new WorkspaceService();
+    this.configManager = new ConfigManager();
+  }
+
+  async list(options: WorkspaceCommandOptions = {}): Promise<void> {
+    const { workspaces, fetchedAt } = await this.run(options, () =>
+      this.workspaceService.getWorkspaces({ refresh: options.refresh })
+    );
+    const requestDefault = this.configManager.get('workspace');
+    const listening = this.getListenWorkspaces();
+
+    if (options.json) {
+      printResult({
+        workspaces: workspaces.map(w => ({
+          ...w,
+          requestDefault: this.isRequestDefault(w, requestDefault),
+          listen: listening ? listening.some(name => this.matches(w, name)) : true
+        })),
+        fetchedAt
+      });
+      return;
+    }
+
+    console.log(chalk.cyan('\n🏢 Workspaces\n'));
+    if (workspaces.length === 0) {
+      console.log(chalk.gray('  No workspaces found\n'));
+      return;
+    }
+
+    for (const workspace of workspaces) {
+      const tags: string[] = [];
+      if (workspace.isPersonal) tags.push('personal');
+      if (workspace.role) tags.push(workspace.role);
+      if (this.isRequestDefault(workspace, requestDefault)) tags.push(chalk.green('request default'));
+      if (!listening || listening.some(name => this.matches(workspace, name))) tags.push(chalk.magenta('listen'));
+
+      const marker = this.isRequestDefault(workspace, requestDefault) ? chalk.green('●') : ' ';
+      console.log(`  ${marker} ${chalk.bold(workspace.name.padEnd(24))} ${chalk.gray(tags.join(', '))}`);
+    }
+    console.log(chalk.gray(`\n  Cached ${new Date(fetchedAt).toLocaleString()} (refresh with --refresh)\n`));
+  }
+
+  async show(name: string | undefined, options: WorkspaceCommandOptions = {}): Promise<void> {
+    const workspace = await this.resolve(name, options);
+    const members = await this.run(options, () => this.workspaceService.getMembers(workspace.id));
+
+    if (options.json) {
+      printResult({ ...workspace, members });
+      return;
+    }
+
+    console.log(chalk.cyan('\n🏢 Workspace Details\n'));
+    console.log(chalk.gray('  Name:    '), chalk.bold(workspace.name));
+    console.log(chalk.gray('  ID:      '), workspace.id);
+    console.log(chalk.gray('  Type:    '), workspace.isPersonal ? 'personal' : 'team');
+    if (workspace.role) {
+      console.log(chalk.gray('  Role:    '), workspace.role);
+    }
+    console.log(chalk.gray('  Members: '), members.length);
+    this.printMembers(members);
+  }
+
+  async use(names: string[], options: WorkspaceCommandOptions = {}): Promise<void> {
+    // Neither flag means both: default for requests and the set served by listen
+    const setRequest = options.request || !options.listen;
+    const setListen = options.listen || !options.request;
+
+    const resolved: Workspace[] = [];
+    for (const name of names) {
+      resolved.push(await this.resolve(name, options));
+    }
+
+    if (setRequest) {
+      this.configManager.set('workspace', resolved[0].name);
+    }
+    if (setListen) {
+      this.configManager.set('listenWorkspaces', resolved.map(w => w.name).join(','));
+    }
+
+    if (options.json) {
+      printResult({
+        requestDefault: setRequest ? resolved[0].name : undefined,
+        listenWorkspaces: setListen ? resolved.map(w => w.name) : undefined
+      });
+      return;
+    }
+
+    if (setRequest) {
+      console.log(chalk.green(`✅ Requests will be published to: ${resolved[0].name}`));
+    }
+    if (setListen) {
+      console.log(chalk.green(`✅ listen will serve: ${resolved.map(w => w.name).join(', ')}`));
+    }
+    console.log(chalk.gray(`   Saved to ${this.configManager.getPathForScope('user')}`));
+  }
+
+  async create(name: string, options: WorkspaceCommandOptions = {}): Promise<void> {
+    const workspace = await this.run(options, () => this.workspaceService.create(name));
+
+    if (options.json) {
+      printResult(workspace);
+      return;
+    }
+
+    console.log(chalk.green(`\n✅ Created workspace: ${workspace.name}`));
+    console.log(chalk.gray(`   Invite teammates: hokipoki workspace invite ${workspace.name} <email>`));
+    console.log(chalk.gray(`   Make it your default: hokipoki workspace use ${workspace.name}\n`));
+  }
+
+  async invite(name: string, email: string, options: WorkspaceCommandOptions = {}): Promise<void> {
+    const workspace = await this.resolve(name, options);
+    await this.run(options, () => this.workspaceService.invite(workspace.id, email));
+
+    if (options.json) {
+      printResult({ workspace: workspace.name, invited: email });
+      return;
+    }
+    console.log(chalk.green(`\n✅ Invited ${email} to ${workspace.name}\n`));
+  }
+
+  async members(name: string | undefined, options: WorkspaceCommandOptions = {}): Promise<void> {
+    const workspace = await this.resolve(name, options);
+    const members = await this.run(options, () => this.workspaceService.getMembers(workspace.id));
+
+    if (options.json) {
+      printResult({ workspace: workspace.name, members });
+      return;
+    }
+
+    console.log(chalk.cyan(`\n👥 Members of ${workspace.name}`));
+    this.printMembers(members);
+  }
+
+  /**
+   * Resolve a workspace by name/ID, defaulting to the request default, then the personal workspace
+   */
+  private async resolve(name: string | undefined, options: WorkspaceCommandOptions): Promise<Workspace> {
+    const target = name || this.configManager.get('workspace');
+    let workspace: Workspace | undefined;
+
+    if (target) {
+      workspace = await this.run(options, () => this.workspaceService.find(target));
+    } else {
+      const { workspaces } = await this.run(options, () => this.workspaceService.getWorkspaces());
+      workspace = workspaces.find(w => w.isPersonal);
+    }
+
+    if (!workspace) {
+      const { workspaces } = await this.workspaceService.getWorkspaces().catch(() => ({ workspaces: [] as Workspace[] }));
+      const available = workspaces.map(w => w.name).join(', ') || 'none';
+      this.fail(`Workspace '${target || 'personal'}' not found`, options, `Available workspaces: ${available}`);
+    }
+    return workspace!;
+  }
+
+  private getListenWorkspaces(): string[] | undefined {
+    const value = this.configManager.get('listenWorkspaces');
+    return value ? value.split(',').map(name => name.trim()).filter(Boolean) : undefined;
+  }
+
+  private isRequestDefault(workspace: Workspace, requestDefault?: string): boolean {
+    return requestDefault ? this.matches(workspace, requestDefault) : !!workspace.isPersonal;
+  }
+
+  private matches(workspace: Workspace, nameOrId: string): boolean {
+    return workspace.name === nameOrId || workspace.id === nameOrId;
+  }
+
+  private printMembers(members: Array<{ email: string; name?: string; role?: string; status?: string }>): void {
+    console.log('');
+    for (const member of members) {
+      const details = [member.role, member.status].filter(Boolean).join(', ');
+      console.log(`  ${chalk.white(member.email.padEnd(32))} ${chalk.gray(details)}`);
+    }
+    console.log('');
+  }
+
+  /**
+   * Run a backend call, exiting with a readable error on failure
+   */
+  private async run<T>(options: WorkspaceCommandOptions, action: () => Promise<T>): Promise<T> {
+    try {
+      return await action();
+    } catch (error: any) {
+      this.fail(error.message, options);
+    }
+  }
+
+  private fail(message: string, options: WorkspaceCommandOptions, hint?: string): never {
+    if (options.json) {
+      printResult({ error: message });
+    } else {
+      console.log(chalk.red(`\n❌ ${message}`));
+      if (hint) {
+        console.log(chalk.yellow(hint));
+      }
+      console.log('');
+    }
+    process.exit(1);
+  }
+}
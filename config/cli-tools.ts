@@ -1,45 +1,290 @@
-// CLI Tool Configuration
-// Defines how to invoke each AI CLI tool with proper arguments and model selection
+// CLI Tool Adapters
+// Defines how to authenticate, invoke and parse each AI CLI tool
+//
+// Built-in adapters cover claude/codex/gemini. Extra adapters are loaded from
+// ~/.hokipoki/tools/*.js (or HOKIPOKI_TOOLS_DIR), e.g. for aider or in-house agents.
+//
+// NOTE: This file is also copied into the secure executor image, so it must
+// only import Node.js built-ins.
 
-export interface CLIToolConfig {
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Credential read from a tool's own token store or the environment
+ */
+export interface ToolCredential {
+  accessToken: string;
+  expiresAt: Date;
+}
+
+/**
+ * How a provider obtains credentials for a tool
+ * - setup-token: run a command and capture a token from its output (stored in the HokiPoki cache)
+ * - file:        run the tool's own login, then read its credential file via readCredential()
+ * - env:         read an API key from the provider's environment
+ * - none:        the tool needs no credentials
+ */
+export type ToolAuth =
+  | { type: 'setup-token'; command: string; args: string[]; tokenPattern: RegExp; validityDays: number; env?: Record<string, string> }
+  | { type: 'file'; command: string; args: string[]; readCredential: () => ToolCredential | null }
+  | { type: 'env'; variable: string }
+  | { type: 'none' };
+
+/**
+ * Relative cost of a model, used for credit estimates
+ */
+export type ModelTier = 'economy' | 'standard' | 'premium';
+
+export interface ToolAdapter {
+  name: string;
   binary: string;
+  description?: string;
+  models?: string[];                 // Known models (completion; unknown models only warn)
+  modelTiers?: Record<string, ModelTier>; // Cost tier per model (default: standard)
+  keywords?: string[];               // Extra words that select this tool in natural-language requests
+  image?: string;                    // Executor image with the binary installed (default: hokipoki/secure-executor)
+  loginHint?: string;                // Command shown when credentials are missing/expired
+  auth?: ToolAuth;                   // Defaults to { type: 'none' }
+  source?: string;                   // Set by the loader for user adapters
+
+  /** Arguments for a non-interactive run of the task */
   buildCommand: (model: string | undefined, task: string) => string[];
+
+  /**
+   * Runs INSIDE the container: write credential/config files under `home`
+   * and return extra environment variables for the tool process
+   */
+  prepareEnvironment?: (token: string, home: string) => Record<string, string>;
+
+  /** Runs INSIDE the container: turn raw process output into the AI output text */
+  parseOutput?: (stdout: string, stderr: string) => string;
 }
 
-export const CLI_TOOLS: Record<string, CLIToolConfig> = {
-  claude: {
-    binary: 'claude',
-    buildCommand: (model: string | undefined, task: string) => {
-      const args = ['--permission-mode', 'acceptEdits'];
-      if (model) {
-        args.push('--model', model);
-      }
-      args.push(task);
-      return args;
+export const DEFAULT_EXECUTOR_IMAGE = 'hokipoki/secure-executor';
+
+/**
+ * Write a credential file readable only by its owner
+ */
+function writePrivateFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(filePath, content);
+  fs.chmodSync(filePath, 0o600);
+}
+
+/**
+ * Tokens read from a tool's own JSON file travel double-encoded (JSON string of a JSON string)
+ */
+function decodeDoubleEncoded(token: string, tool: string): any {
+  try {
+    return JSON.parse(JSON.parse(token));
+  } catch (error) {
+    throw new Error(`Invalid ${tool} credentials format: ${error}`);
+  }
+}
+
+const claude: ToolAdapter = {
+  name: 'claude',
+  binary: 'claude',
+  description: 'Claude Code CLI (Anthropic)',
+  models: ['sonnet', 'opus', 'haiku'],
+  modelTiers: { opus: 'premium', sonnet: 'standard', haiku: 'economy' },
+  keywords: ['anthropic'],
+  loginHint: 'claude setup-token',
+  auth: {
+    type: 'setup-token',
+    command: 'claude',
+    args: ['setup-token'],
+    tokenPattern: /sk-ant-oat01-[a-zA-Z0-9_-]+/,
+    validityDays: 30,
+    env: { CLAUDE_CONFIG_DIR: path.join(os.homedir(), '.claude') }
+  },
+  buildCommand: (model, task) => {
+    const args = ['--permission-mode', 'acceptEdits'];
+    if (model) {
+      args.push('--model', model);
     }
+    args.push(task);
+    return args;
   },
+  prepareEnvironment: (token, home) => {
+    // Writable tmpfs location for Claude config, with acceptEdits mode enabled
+    const configDir = path.join(home, '.claude-config');
+    writePrivateFile(path.join(configDir, '.claude.json'), JSON.stringify({
+      acceptEditsModeAccepted: true,
+      enabledTools: ['WebFetch', 'Bash', 'Read', 'Write', 'Edit'],
+      webAccessAllowed: true
+    }, null, 2));
 
-  codex: {
-    binary: 'codex',
-    buildCommand: (model: string | undefined, task: string) => {
-      const args = ['exec', '--full-auto', '--sandbox', 'danger-full-access'];
-      if (model) {
-        args.push('--model', model);
+    return {
+      CLAUDE_CONFIG_DIR: configDir,
+      CLAUDE_CODE_OAUTH_TOKEN: token
+    };
+  }
+};
+
+const codex: ToolAdapter = {
+  name: 'codex',
+  binary: 'codex',
+  description: 'Codex CLI (OpenAI)',
+  models: ['gpt-5.1-codex-max', 'gpt-5.1-codex', 'gpt-5.1-codex-mini', 'gpt-5.1'],
+  modelTiers: { 'gpt-5.1-codex-max': 'premium', 'gpt-5.1-codex-mini': 'economy' },
+  keywords: ['copilot', 'github copilot'],
+  loginHint: 'codex login',
+  auth: {
+    type: 'file',
+    command: 'codex',
+    args: ['login'],
+    readCredential: () => {
+      const authPath = path.join(os.homedir(), '.codex', 'auth.json');
+      const authData = JSON.parse(fs.readFileSync(authPath, 'utf8'));
+      if (!authData.tokens?.access_token) return null;
+
+      // Parse JWT expiry (codex tokens are valid for ~1 year)
+      let expiresAt = new Date(Date.now() + 365 * 24 * 3600 * 1000);
+      const parts = authData.tokens.access_token.split('.');
+      if (parts.length === 3) {
+        const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
+        if (payload.exp) expiresAt = new Date(payload.exp * 1000);
       }
-      args.push(task);
-      return args;
+
+      return { accessToken: JSON.stringify(JSON.stringify(authData.tokens)), expiresAt };
     }
   },
+  buildCommand: (model, task) => {
+    const args = ['exec', '--full-auto', '--sandbox', 'danger-full-access'];
+    if (model) {
+      args.push('--model', model);
+    }
+    args.push(task);
+    return args;
+  },
+  prepareEnvironment: (token, home) => {
+    // auth.json with the complete tokens object from the provider's ~/.codex/auth.json
+    writePrivateFile(path.join(home, '.codex', 'auth.json'), JSON.stringify({
+      OPENAI_API_KEY: null,
+      tokens: decodeDoubleEncoded(token, 'codex'),
+      last_refresh: new Date().toISOString()
+    }, null, 2));
+    writePrivateFile(path.join(home, '.codex', 'config.toml'), 'model = "gpt-5-codex"\n');
+    return {};
+  }
+};
 
-  gemini: {
-    binary: 'gemini',
-    buildCommand: (model: string | undefined, task: string) => {
-      const args = [];
-      if (model) {
-        args.push('-m', model);
+const gemini: ToolAdapter = {
+  name: 'gemini',
+  binary: 'gemini',
+  description: 'Gemini CLI (Google)',
+  models: ['flash', 'pro', 'flash-lite'],
+  modelTiers: { pro: 'premium', 'flash-lite': 'economy' },
+  keywords: ['google', 'bard'],
+  loginHint: 'gemini',
+  auth: {
+    type: 'file',
+    command: 'gemini',
+    args: [],
+    readCredential: () => {
+      const authPath = path.join(os.homedir(), '.gemini', 'oauth_creds.json');
+      const authData = JSON.parse(fs.readFileSync(authPath, 'utf8'));
+      if (!authData.access_token) return null;
+
+      const expiresAt = authData.expiry_date
+        ? new Date(authData.expiry_date)
+        : new Date(Date.now() + 30 * 24 * 3600 * 1000);
+
+      return { accessToken: JSON.stringify(JSON.stringify(authData)), expiresAt };
+    }
+  },
+  buildCommand: (model, task) => {
+    const args: string[] = [];
+    if (model) {
+      args.push('-m', model);
+    }
+    args.push('-p', task, '--yolo');
+    return args;
+  },
+  prepareEnvironment: (token, home) => {
+    writePrivateFile(
+      path.join(home, '.gemini', 'oauth_creds.json'),
+      JSON.stringify(decodeDoubleEncoded(token, 'gemini'), null, 2)
+    );
+    writePrivateFile(
+      path.join(home, '.gemini', 'settings.json'),
+      JSON.stringify({ selectedAuthType: 'oauth-personal' }, null, 2)
+    );
+    return {};
+  }
+};
+
+export const BUILTIN_TOOLS: ToolAdapter[] = [claude, codex, gemini];
+
+/**
+ * Directory user adapters are loaded from
+ */
+export function getToolsDir(): string {
+  return process.env.HOKIPOKI_TOOLS_DIR || path.join(os.homedir(), '.hokipoki', 'tools');
+}
+
+let registry: Record<string, ToolAdapter> | undefined;
+
+/**
+ * Built-in adapters plus every valid adapter in the tools directory (user adapters win on name clashes)
+ */
+export function getToolRegistry(): Record<string, ToolAdapter> {
+  if (registry) {
+    return registry;
+  }
+
+  registry = {};
+  for (const adapter of BUILTIN_TOOLS) {
+    registry[adapter.name] = adapter;
+  }
+
+  const toolsDir = getToolsDir();
+  let files: string[] = [];
+  try {
+    files = fs.readdirSync(toolsDir).filter(file => file.endsWith('.js')).sort();
+  } catch {
+    // No user adapters
+  }
+
+  for (const file of files) {
+    const source = path.join(toolsDir, file);
+    try {
+      const loaded = require(source);
+      const adapter: ToolAdapter = loaded?.default || loaded;
+      const problem = validateAdapter(adapter);
+      if (problem) {
+        console.warn(`[hokipoki] Skipping tool adapter ${source}: ${problem}`);
+        continue;
       }
-      args.push('-p', task, '--yolo');
-      return args;
+      registry[adapter.name] = { ...adapter, source };
+    } catch (error: any) {
+      console.warn(`[hokipoki] Failed to load tool adapter ${source}: ${error.message}`);
     }
   }
-};
\ No newline at end of file
+
+  return registry;
+}
+
+export function getToolAdapter(name: string): ToolAdapter | undefined {
+  return getToolRegistry()[name.toLowerCase()];
+}
+
+export function getToolNames(): string[] {
+  return Object.keys(getToolRegistry());
+}
+
+function validateAdapter(adapter: any): string | null {
+  if (!adapter || typeof adapter !== 'object') return 'module must export an adapter object';
+  if (typeof adapter.name !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/.test(adapter.name)) {
+    return '"name" must be a lowercase identifier';
+  }
+  if (typeof adapter.binary !== 'string' || !adapter.binary) return '"binary" is required';
+  if (typeof adapter.buildCommand !== 'function') return '"buildCommand" must be a function';
+  if (adapter.auth && !['setup-token', 'file', 'env', 'none'].includes(adapter.auth.type)) {
+    return `unknown auth type "${adapter.auth.type}"`;
+  }
+  return null;
+}
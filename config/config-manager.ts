@@ -0,0 +1,319 @@
+// Layered Configuration
+// Resolves CLI settings with precedence: flag > env > project > user > default
+
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { ProfileManager, DEFAULT_PROFILE } from './profile-manager';
+
+export type ConfigKey =
+  | 'server'
+  | 'backendUrl'
+  | 'appUrl'
+  | 'tool'
+  | 'workspace'
+  | 'listenWorkspaces'
+  | 'gitHost'
+  | 'maxUpload'
+  | 'applyMode'
+  | 'exportPatches'
+  | 'matchTimeout'
+  | 'executionTimeout'
+  | 'monthlyBudget'
+  | 'keycloakIssuer'
+  | 'clientId';
+
+export type ConfigSource = 'flag' | 'env' | 'project' | 'user' | 'default';
+export type ConfigScope = 'project' | 'user';
+
+export interface ConfigKeyDefinition {
+  description: string;
+  env?: string[];      // Environment variables checked in order
+  default?: string;
+  userOnly?: boolean;  // Endpoints, credentials and spending limits: ignored in project config
+}
+
+export interface ResolvedConfigValue {
+  key: ConfigKey;
+  value?: string;
+  source?: ConfigSource;
+}
+
+export const CONFIG_KEYS: Record<ConfigKey, ConfigKeyDefinition> = {
+  server: {
+    description: 'Relay server URL',
+    env: ['HOKIPOKI_SERVER'],
+    default: 'wss://relay.hoki-poki.ai',
+    userOnly: true
+  },
+  backendUrl: {
+    description: 'Backend API base URL',
+    env: ['HOKIPOKI_BACKEND_URL', 'BACKEND_URL'],
+    default: 'https://api.hoki-poki.ai',
+    userOnly: true
+  },
+  appUrl: {
+    description: 'Web app URL (dashboard, registration)',
+    env: ['HOKIPOKI_APP_URL'],
+    default: 'https://app.hoki-poki.ai',
+    userOnly: true
+  },
+  tool: {
+    description: 'Default AI tool for requests (tool or tool:model)',
+    env: ['HOKIPOKI_TOOL']
+  },
+  workspace: {
+    description: 'Default workspace name for requests',
+    env: ['HOKIPOKI_WORKSPACE']
+  },
+  listenWorkspaces: {
+    description: 'Comma-separated workspaces served by `listen` (default: all memberships)',
+    env: ['HOKIPOKI_LISTEN_WORKSPACES']
+  },
+  gitHost: {
+    description: 'Git server host/IP used by requests',
+    env: ['HOKIPOKI_GIT_HOST']
+  },
+  maxUpload: {
+    description: 'Default upload budget for requests, e.g. "files=500,size=5MB,tokens=1m"',
+    env: ['HOKIPOKI_MAX_UPLOAD']
+  },
+  applyMode: {
+    description: 'How requests apply results: working-tree, branch or worktree',
+    env: ['HOKIPOKI_APPLY_MODE'],
+    default: 'working-tree'
+  },
+  exportPatches: {
+    description: 'Also write every result to ./patches in the request directory: true or false',
+    env: ['HOKIPOKI_EXPORT_PATCHES'],
+    default: 'false'
+  },
+  matchTimeout: {
+    description: 'How long a request waits for a provider, e.g. "10m" (0: no limit)',
+    env: ['HOKIPOKI_MATCH_TIMEOUT'],
+    default: '10m'
+  },
+  executionTimeout: {
+    description: 'How long a matched provider may take to return a result, e.g. "1h" (0: no limit)',
+    env: ['HOKIPOKI_EXECUTION_TIMEOUT'],
+    default: '1h'
+  },
+  monthlyBudget: {
+    description: 'Credits requests may spend per calendar month; publishing stops once reached (unset: no limit)',
+    env: ['HOKIPOKI_MONTHLY_BUDGET'],
+    userOnly: true
+  },
+  keycloakIssuer: {
+    description: 'Keycloak realm issuer URL',
+    env: ['HOKIPOKI_KEYCLOAK_ISSUER'],
+    default: 'https://auth.hoki-poki.ai/realms/hokipoki',
+    userOnly: true
+  },
+  clientId: {
+    description: 'Keycloak client ID used by the CLI',
+    env: ['HOKIPOKI_CLIENT_ID'],
+    default: 'hokipoki-cli',
+    userOnly: true
+  }
+};
+
+export const PROJECT_CONFIG_FILE = '.hokipoki.json';
+
+// Project config comes with the repository, so it may not redirect the token or login, or lift
+// the spending limit
+const warnedProjectKeys = new Set<string>();
+
+export class ConfigManager {
+  private userConfigPath: string;
+  private baseUserConfigPath: string;   // Default profile's config, inherited by named profiles
+  private projectConfigPath?: string;
+  private projectRoot: string;
+
+  constructor(private cwd: string = process.cwd()) {
+    const profileManager = new ProfileManager();
+    this.userConfigPath = path.join(profileManager.getProfileDir(), 'config.json');
+    this.baseUserConfigPath = path.join(profileManager.getProfileDir(DEFAULT_PROFILE), 'config.json');
+    this.projectRoot = this.findProjectRoot();
+    this.projectConfigPath = this.findProjectConfig();
+  }
+
+  static isConfigKey(key: string): key is ConfigKey {
+    return Object.prototype.hasOwnProperty.call(CONFIG_KEYS, key);
+  }
+
+  /**
+   * Get effective value for a key (flag value wins if provided)
+   */
+  get(key: ConfigKey, flagValue?: string): string | undefined {
+    return this.resolve(key, flagValue).value;
+  }
+
+  /**
+   * Resolve a key and report which layer provided the value
+   */
+  resolve(key: ConfigKey, flagValue?: string): ResolvedConfigValue {
+    if (flagValue !== undefined && flagValue !== '') {
+      return { key, value: flagValue, source: 'flag' };
+    }
+
+    const definition = CONFIG_KEYS[key];
+    for (const envName of definition.env || []) {
+      const envValue = process.env[envName];
+      if (envValue) {
+        return { key, value: envValue, source: 'env' };
+      }
+    }
+
+    const projectValue = this.readFile(this.projectConfigPath)[key];
+    if (projectValue !== undefined) {
+      if (!definition.userOnly) {
+        return { key, value: projectValue, source: 'project' };
+      }
+      this.warnIgnoredProjectKey(key);
+    }
+
+    const userValue = this.readUserConfig()[key];
+    if (userValue !== undefined) {
+      return { key, value: userValue, source: 'user' };
+    }
+
+    if (definition.default !== undefined) {
+      return { key, value: definition.default, source: 'default' };
+    }
+
+    return { key };
+  }
+
+  /**
+   * Resolve every known key
+   */
+  list(): ResolvedConfigValue[] {
+    return (Object.keys(CONFIG_KEYS) as ConfigKey[]).map(key => this.resolve(key));
+  }
+
+  /**
+   * Persist a value in the user or project config file
+   */
+  set(key: ConfigKey, value: string, scope: ConfigScope = 'user'): string {
+    if (scope === 'project' && CONFIG_KEYS[key].userOnly) {
+      throw new Error(`${key} can only be set in user config (or with ${CONFIG_KEYS[key].env![0]})`);
+    }
+    const filePath = this.getPathForScope(scope);
+    const values = this.readFile(filePath);
+    values[key] = value;
+    this.writeFile(filePath, values);
+    return filePath;
+  }
+
+  /**
+   * Remove a value from the user or project config file
+   */
+  unset(key: ConfigKey, scope: ConfigScope = 'user'): boolean {
+    const filePath = this.getPathForScope(scope);
+    const values = this.readFile(filePath);
+    if (!(key in values)) {
+      return false;
+    }
+    delete values[key];
+    this.writeFile(filePath, values);
+    return true;
+  }
+
+  /**
+   * Backend base URL without trailing slash or /api suffix
+   */
+  getBackendUrl(): string {
+    const url = this.get('backendUrl') || CONFIG_KEYS.backendUrl.default!;
+    return url.replace(/\/+$/, '').replace(/\/api$/, '');
+  }
+
+  /**
+   * Backend REST API root (backend URL + /api)
+   */
+  getApiUrl(): string {
+    return `${this.getBackendUrl()}/api`;
+  }
+
+  getAppUrl(): string {
+    return (this.get('appUrl') || CONFIG_KEYS.appUrl.default!).replace(/\/+$/, '');
+  }
+
+  getPathForScope(scope: ConfigScope): string {
+    if (scope === 'user') {
+      return this.userConfigPath;
+    }
+    return this.projectConfigPath || path.join(this.projectRoot, PROJECT_CONFIG_FILE);
+  }
+
+  /**
+   * Git repository root, or the working directory outside of a repository
+   */
+  private findProjectRoot(): string {
+    try {
+      return execSync('git rev-parse --show-toplevel', {
+        cwd: this.cwd,
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'ignore']
+      }).trim();
+    } catch {
+      return this.cwd;
+    }
+  }
+
+  /**
+   * Walk up from the working directory to the project root looking for .hokipoki.json
+   */
+  private findProjectConfig(): string | undefined {
+    let dir = path.resolve(this.cwd);
+    const root = path.resolve(this.projectRoot);
+
+    while (true) {
+      const candidate = path.join(dir, PROJECT_CONFIG_FILE);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+      const parent = path.dirname(dir);
+      if (dir === root || parent === dir) {
+        return undefined;
+      }
+      dir = parent;
+    }
+  }
+
+  private warnIgnoredProjectKey(key: ConfigKey): void {
+    const warning = `${this.projectConfigPath}:${key}`;
+    if (warnedProjectKeys.has(warning)) {
+      return;
+    }
+    warnedProjectKeys.add(warning);
+    console.error(chalk.yellow(`⚠️  Ignoring ${key} in ${this.projectConfigPath}: it can only be set in user config or ${CONFIG_KEYS[key].env![0]}`));
+  }
+
+  /**
+   * Active profile's config layered over the default profile's config
+   */
+  private readUserConfig(): Partial<Record<ConfigKey, string>> {
+    if (this.userConfigPath === this.baseUserConfigPath) {
+      return this.readFile(this.userConfigPath);
+    }
+    return { ...this.readFile(this.baseUserConfigPath), ...this.readFile(this.userConfigPath) };
+  }
+
+  private readFile(filePath?: string): Partial<Record<ConfigKey, string>> {
+    if (!filePath) {
+      return {};
+    }
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      return data && typeof data === 'object' ? data : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private writeFile(filePath: string, values: Partial<Record<ConfigKey, string>>): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(values, null, 2) + '\n');
+  }
+}
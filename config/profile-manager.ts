@@ -0,0 +1,100 @@
+// Account Profiles
+// Named profiles keep separate credentials and defaults (personal vs company accounts)
+//
+// The "default" profile uses ~/.hokipoki directly so existing logins keep working;
+// other profiles live in ~/.hokipoki/profiles/<name>/
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const DEFAULT_PROFILE = 'default';
+
+const PROFILE_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export class ProfileManager {
+  private baseDir: string;
+  private stateFile: string;
+
+  constructor() {
+    const homeDir = process.env.HOME || process.env.USERPROFILE || '';
+    this.baseDir = path.join(homeDir, '.hokipoki');
+    this.stateFile = path.join(this.baseDir, 'profiles.json');
+  }
+
+  static isValidName(name: string): boolean {
+    return PROFILE_NAME_PATTERN.test(name);
+  }
+
+  /**
+   * Active profile: HOKIPOKI_PROFILE (also set by --profile) > `profile use` > default
+   */
+  getActiveProfile(): string {
+    const fromEnv = process.env.HOKIPOKI_PROFILE;
+    if (fromEnv) {
+      if (!ProfileManager.isValidName(fromEnv)) {
+        throw new Error(`Invalid profile name: ${fromEnv}`);
+      }
+      return fromEnv;
+    }
+    return this.getSelectedProfile();
+  }
+
+  /**
+   * Profile persisted with `hokipoki profile use` (ignores env/flag overrides)
+   */
+  getSelectedProfile(): string {
+    try {
+      const state = JSON.parse(fs.readFileSync(this.stateFile, 'utf8'));
+      if (typeof state.active === 'string' && ProfileManager.isValidName(state.active)) {
+        return state.active;
+      }
+    } catch {
+      // No profile selected yet
+    }
+    return DEFAULT_PROFILE;
+  }
+
+  /**
+   * Directory holding a profile's tokens and config
+   */
+  getProfileDir(profile: string = this.getActiveProfile()): string {
+    if (profile === DEFAULT_PROFILE) {
+      return this.baseDir;
+    }
+    return path.join(this.baseDir, 'profiles', profile);
+  }
+
+  /**
+   * Known profiles (default is always present)
+   */
+  list(): string[] {
+    const profiles = [DEFAULT_PROFILE];
+    try {
+      const entries = fs.readdirSync(path.join(this.baseDir, 'profiles'), { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.isDirectory() && ProfileManager.isValidName(entry.name) && entry.name !== DEFAULT_PROFILE) {
+          profiles.push(entry.name);
+        }
+      }
+    } catch {
+      // No named profiles yet
+    }
+    return profiles;
+  }
+
+  exists(profile: string): boolean {
+    return profile === DEFAULT_PROFILE || fs.existsSync(this.getProfileDir(profile));
+  }
+
+  /**
+   * Persist the active profile, creating its directory if needed
+   */
+  use(profile: string): void {
+    if (!ProfileManager.isValidName(profile)) {
+      throw new Error(`Invalid profile name: ${profile} (use letters, numbers, - and _)`);
+    }
+    fs.mkdirSync(this.getProfileDir(profile), { recursive: true });
+    fs.mkdirSync(this.baseDir, { recursive: true });
+    fs.writeFileSync(this.stateFile, JSON.stringify({ active: profile }, null, 2) + '\n');
+  }
+}
@@ -8,7 +8,7 @@ import { execSync, spawnSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import { CLI_TOOLS } from '../config/cli-tools';
+import { getToolAdapter, getToolNames } from '../config/cli-tools';
 
 // Environment variables injected by provider CLI
 const TASK_ID = process.env.TASK_ID!;
@@ -28,6 +28,9 @@ const ENCRYPTION_KEY = crypto.randomBytes(32).toString('hex');
 const ENCRYPTED_IMAGE = '/workspace/encrypted.img';
 const MOUNT_POINT = '/workspace/code';
 
+// Workspace files listed in the prompt
+const MAX_PROMPT_FILES = 200;
+
 /**
  * Main executor process
  */
@@ -368,7 +371,7 @@ function cloneCode() {
 }
 
 // Authentication removed - handled via environment variables
-// CLAUDE_CODE_OAUTH_TOKEN is set in executeAITool()
+// Tool credentials are injected by the adapter's prepareEnvironment() in executeAITool()
 
 /**
  * Execute the AI tool on the code
@@ -381,137 +384,41 @@ function executeAITool(): string {
   // Decrypt OAuth token
   const token = decryptToken(OAUTH_TOKEN);
 
+  // Get tool adapter (built-in, or user adapter mounted into HOKIPOKI_TOOLS_DIR)
+  const adapter = getToolAdapter(AI_TOOL);
+  if (!adapter) {
+    throw new Error(`Unknown AI tool: ${AI_TOOL}. Supported tools: ${getToolNames().join(', ')}`);
+  }
+
+  // Let the adapter write its credential/config files into the workspace home
+  const toolEnv = adapter.prepareEnvironment ? adapter.prepareEnvironment(token, WORKSPACE) : {};
+  console.log(`[EXECUTOR] Prepared ${AI_TOOL} environment`);
+
   // Set up environment for AI CLIs
   const env = {
     ...process.env,
     HOME: WORKSPACE, // Use workspace as home for config files
     PATH: '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin', // Explicit PATH with npm globals
-    CLAUDE_CONFIG_DIR: `${WORKSPACE}/.claude-config`, // Writable tmpfs location for Claude
-    CLAUDE_CODE_OAUTH_TOKEN: token // Authentication token for Claude
+    ...toolEnv
   };
 
-  // Create Claude config directory
-  const configDir = `${WORKSPACE}/.claude-config`;
-  if (!fs.existsSync(configDir)) {
-    fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
-  }
-
-  // Create .claude.json with acceptEdits mode enabled
-  const claudeConfigPath = path.join(configDir, '.claude.json');
-  const claudeConfig = {
-    acceptEditsModeAccepted: true,
-    enabledTools: ['WebFetch', 'Bash', 'Read', 'Write', 'Edit'],
-    webAccessAllowed: true
-  };
-  fs.writeFileSync(claudeConfigPath, JSON.stringify(claudeConfig, null, 2));
-  fs.chmodSync(claudeConfigPath, 0o600);
-
-  // For Codex, create auth.json and config.toml in workspace
-  if (AI_TOOL === 'codex') {
-    const codexConfigDir = `${WORKSPACE}/.codex`;
-    if (!fs.existsSync(codexConfigDir)) {
-      fs.mkdirSync(codexConfigDir, { recursive: true, mode: 0o700 });
-    }
-
-    // Create auth.json with complete structure matching Codex's format
-    // The token is a JSON string containing all tokens from host's auth.json
-    const codexAuthPath = path.join(codexConfigDir, 'auth.json');
-    let tokensObject;
-
-    try {
-      // Double-decode: first parse gets the JSON string, second parse gets the object
-      const jsonString = JSON.parse(token); // First decode
-      tokensObject = JSON.parse(jsonString); // Second decode to get actual object
-    } catch (error) {
-      console.error('[EXECUTOR] ERROR: Failed to parse Codex tokens JSON:', error);
-      console.error('[EXECUTOR] Failed to parse Codex token - invalid JSON format');
-
-      // Try to fix if it's already an object
-      if (typeof token === 'object') {
-        console.log('[EXECUTOR] Token is already an object, using directly');
-        tokensObject = token;
-      } else {
-        throw new Error(`Invalid Codex tokens format: ${error}`);
-      }
-    }
-    const codexAuth = {
-      OPENAI_API_KEY: null,
-      tokens: tokensObject,  // Use the complete tokens object from host
-      last_refresh: new Date().toISOString()
-    };
-    fs.writeFileSync(codexAuthPath, JSON.stringify(codexAuth, null, 2));
-    fs.chmodSync(codexAuthPath, 0o600);
-    console.log('[EXECUTOR] Created Codex auth.json in workspace with full tokens');
-
-    // Create minimal config.toml
-    const codexConfigPath = path.join(codexConfigDir, 'config.toml');
-    const codexConfig = `model = "gpt-5-codex"\n`;
-    fs.writeFileSync(codexConfigPath, codexConfig);
-    fs.chmodSync(codexConfigPath, 0o600);
-    console.log('[EXECUTOR] Created Codex config.toml in workspace');
-  }
-
-  // For Gemini, create oauth_creds.json in workspace
-  if (AI_TOOL === 'gemini') {
-    const geminiConfigDir = `${WORKSPACE}/.gemini`;
-    if (!fs.existsSync(geminiConfigDir)) {
-      fs.mkdirSync(geminiConfigDir, { recursive: true, mode: 0o700 });
-    }
-
-    // Create oauth_creds.json with complete OAuth structure
-    const geminiAuthPath = path.join(geminiConfigDir, 'oauth_creds.json');
-    let oauthCreds;
-
-    console.log('[EXECUTOR] Setting up Gemini OAuth credentials');
-
-    try {
-      // Double-decode: first parse gets the JSON string, second parse gets the object
-      const jsonString = JSON.parse(token); // First decode
-      oauthCreds = JSON.parse(jsonString); // Second decode to get actual object
-    } catch (error) {
-      console.error('[EXECUTOR] ERROR: Failed to parse Gemini OAuth JSON:', error);
-      console.error('[EXECUTOR] Failed to parse Gemini OAuth credentials - invalid JSON format');
-
-      // Try to fix if it's already an object
-      if (typeof token === 'object') {
-        console.log('[EXECUTOR] Token is already an object, using directly');
-        oauthCreds = token;
-      } else {
-        throw new Error(`Invalid Gemini OAuth format: ${error}`);
-      }
-    }
-
-    fs.writeFileSync(geminiAuthPath, JSON.stringify(oauthCreds, null, 2));
-    fs.chmodSync(geminiAuthPath, 0o600);
-    console.log('[EXECUTOR] Created Gemini oauth_creds.json in workspace');
-
-    // Create settings.json to specify OAuth auth type
-    const geminiSettingsPath = path.join(geminiConfigDir, 'settings.json');
-    const geminiSettings = {
-      selectedAuthType: 'oauth-personal'
-    };
-    fs.writeFileSync(geminiSettingsPath, JSON.stringify(geminiSettings, null, 2));
-    fs.chmodSync(geminiSettingsPath, 0o600);
-    console.log('[EXECUTOR] Created Gemini settings.json in workspace');
-  }
-
   // Enhance task description with file context
   const fileList = spawnSync('find', ['.', '-type', 'f', '-not', '-path', './.git/*'], {
     cwd: codePath,
     encoding: 'utf8'
   }).stdout.trim();
 
-  const enhancedTask = `${TASK_DESCRIPTION}\n\nFiles in workspace:\n${fileList}`;
+  // Large uploads would flood the prompt; the AI can list the workspace itself
+  const files = fileList.split('\n');
+  const shownFiles = files.length > MAX_PROMPT_FILES
+    ? [...files.slice(0, MAX_PROMPT_FILES), `... and ${files.length - MAX_PROMPT_FILES} more files`].join('\n')
+    : fileList;
 
-  // Get CLI tool configuration
-  const toolConfig = CLI_TOOLS[AI_TOOL];
-  if (!toolConfig) {
-    throw new Error(`Unknown AI tool: ${AI_TOOL}. Supported tools: ${Object.keys(CLI_TOOLS).join(', ')}`);
-  }
+  const enhancedTask = `${TASK_DESCRIPTION}\n\nFiles in workspace:\n${shownFiles}`;
 
-  // Build command arguments using tool-specific configuration
-  const binary = toolConfig.binary;
-  const args = toolConfig.buildCommand(AI_MODEL, enhancedTask);
+  // Build command arguments using the tool adapter
+  const binary = adapter.binary;
+  const args = adapter.buildCommand(AI_MODEL, enhancedTask);
 
   console.log(`[EXECUTOR] Running: ${binary} ${JSON.stringify(args)}`);
   console.log(`[EXECUTOR] Working directory: ${codePath}`);
@@ -531,7 +438,9 @@ function executeAITool(): string {
     throw new Error(`AI execution failed: ${aiResult.error.message}`);
   }
 
-  const result = aiResult.stdout || aiResult.stderr || '';
+  const result = adapter.parseOutput
+    ? adapter.parseOutput(aiResult.stdout || '', aiResult.stderr || '')
+    : aiResult.stdout || aiResult.stderr || '';
 
   console.log('[EXECUTOR] AI execution complete');
   return result;
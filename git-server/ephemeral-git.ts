@@ -1,7 +1,7 @@
 // Ephemeral Git Server
 // Temporary Git server for secure code transfer
 
-import { spawn, execSync } from 'child_process';
+import { spawn, execSync, execFileSync } from 'child_process';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
@@ -11,6 +11,7 @@ import * as http from 'http';
 import chalk from 'chalk';
 import { FrpManager, FrpConfig } from '../src/services/frp-manager';
 import { Logger } from '../src/utils/logger';
+import { BaseSnapshot, blobId } from '../src/services/three-way-merge';
 
 export interface EphemeralGitServerOptions {
   taskId: string;
@@ -28,6 +29,8 @@ export class EphemeralGitServer {
   private tunnel?: { url: string; close: () => Promise<void> };
   private logger: Logger;
   private taskId: string;
+  private candidateRepos = new Map<string, { path: string; token: string }>(); // Fan-out copies, keyed by repo directory name
+  private baseFiles: BaseSnapshot = new Map(); // Content of each file as uploaded, for three-way merges
 
   constructor(options: EphemeralGitServerOptions) {
     this.taskId = options.taskId;
@@ -83,8 +86,11 @@ export class EphemeralGitServer {
 
   /**
    * Initialize ephemeral Git repository
+   * `contentOverrides` (keyed by the same paths as `files`) replaces a file's uploaded content,
+   * e.g. with secrets redacted. The original content of every file is recorded as the merge base
+   * (see getBaseFiles).
    */
-  async initialize(files: string[]): Promise<void> {
+  async initialize(files: string[], contentOverrides: Map<string, string> = new Map()): Promise<void> {
     console.log(chalk.cyan('🔒 Initializing ephemeral Git repository...'));
 
     // Create temp directory
@@ -144,7 +150,10 @@ export class EphemeralGitServer {
 
       // Copy file
       try {
-        await fs.copyFile(sourcePath, destPath);
+        const content = await fs.readFile(sourcePath);
+        const override = contentOverrides.get(file);
+        await fs.writeFile(destPath, override !== undefined ? override : content);
+        this.baseFiles.set(relativePath.split(path.sep).join('/'), { blob: blobId(content), content });
         successCount++;
         console.log(chalk.gray(`  ✓ Copied successfully`));
       } catch (error: any) {
@@ -234,6 +243,41 @@ module.exports = { sort };
     console.log(chalk.green('✅ Ephemeral repository created'));
   }
 
+  /**
+   * Recreate the repository from a saved session bundle (a follow-up task): the provider
+   * continues on top of its earlier commits, and diffs still start at the original upload.
+   * `restoreContent` puts redacted secrets back into the recorded base files.
+   */
+  async restore(bundlePath: string, restoreContent?: (text: string) => string): Promise<void> {
+    console.log(chalk.cyan('🔒 Restoring ephemeral Git repository from the previous task...'));
+
+    await fs.rm(this.tempRepoPath, { recursive: true, force: true });
+    await fs.mkdir(path.dirname(this.tempRepoPath), { recursive: true });
+    execFileSync('git', ['clone', '--quiet', '--bare', bundlePath, this.tempRepoPath], { stdio: 'ignore' });
+    execFileSync('git', ['--git-dir', this.tempRepoPath, 'remote', 'remove', 'origin'], { stdio: 'ignore' });
+    execFileSync('git', ['--git-dir', this.tempRepoPath, 'config', 'http.receivepack', 'true'], { stdio: 'ignore' });
+
+    // The first commit holds the files as they were uploaded
+    const git = (args: string[]) => execFileSync('git', ['--git-dir', this.tempRepoPath, ...args], { maxBuffer: 50 * 1024 * 1024 });
+    const rootCommit = git(['rev-list', '--max-parents=0', 'HEAD']).toString().trim().split('\n')[0];
+    for (const file of git(['ls-tree', '-r', '--name-only', '-z', rootCommit]).toString().split('\0').filter(Boolean)) {
+      const raw = git(['show', `${rootCommit}:${file}`]);
+      const isText = !raw.includes(0);
+      const content = restoreContent && isText ? Buffer.from(restoreContent(raw.toString('utf-8'))) : raw;
+      this.baseFiles.set(file, { blob: blobId(content), content });
+    }
+
+    const commits = git(['rev-list', '--count', 'HEAD']).toString().trim();
+    console.log(chalk.green(`✅ Ephemeral repository restored (${commits} commits)`));
+  }
+
+  /**
+   * Location of the bare repository (e.g. to save it for a follow-up)
+   */
+  getRepoPath(): string {
+    return this.tempRepoPath;
+  }
+
   /**
    * Start Git server with authentication
    */
@@ -307,7 +351,9 @@ module.exports = { sort };
           }
         }
 
-        if (token !== this.oneTimeToken) {
+        // Each repository (main or fan-out candidate) only accepts its own token
+        const repoName = new URL(req.url || '', `http://${req.headers.host}`).pathname.split('/')[1];
+        if (!token || token !== this.getRepoToken(repoName)) {
           console.log(chalk.red(`[Git Server] Unauthorized access attempt - invalid token`));
           console.log(chalk.gray(`[Git Server] Token mismatch - authentication failed`));
           res.writeHead(401, {
@@ -422,6 +468,39 @@ module.exports = { sort };
     });
   }
 
+  /**
+   * One-time token that grants access to a repository served by this server
+   */
+  private getRepoToken(repoName: string): string | undefined {
+    if (repoName === `${this.taskId}.git`) {
+      return this.oneTimeToken;
+    }
+    return this.candidateRepos.get(repoName)?.token;
+  }
+
+  /**
+   * Copy the task snapshot into a separate repository for one fan-out candidate,
+   * so several providers can push their results without clobbering each other
+   */
+  async createCandidate(candidateId: string): Promise<{ url: string; token: string }> {
+    if (!this.tunnel) {
+      throw new Error('Tunnel not initialized. Call start() first.');
+    }
+
+    const repoName = `${this.taskId}-${candidateId}.git`;
+    const repoPath = path.join(path.dirname(this.tempRepoPath), repoName);
+
+    await fs.rm(repoPath, { recursive: true, force: true });
+    execSync(`git clone --bare ${this.tempRepoPath} ${repoPath}`, { stdio: 'ignore' });
+    execSync(`git config --file ${repoPath}/config http.receivepack true`, { stdio: 'ignore' });
+
+    const token = crypto.randomBytes(32).toString('hex');
+    this.candidateRepos.set(repoName, { path: repoPath, token });
+
+    const tunnelUrl = this.tunnel.url.replace(/\/$/, '');
+    return { url: `${tunnelUrl}/${repoName}`, token };
+  }
+
   /**
    * Stop the Git server
    */
@@ -464,9 +543,13 @@ module.exports = { sort };
     console.log(chalk.gray('🧹 Wiping ephemeral data...'));
 
     try {
-      // Clean up repo
-      if (await this.fileExists(this.tempRepoPath)) {
-        const repoFiles = await this.getAllFiles(this.tempRepoPath);
+      // Clean up the task repo and any fan-out candidate copies
+      const repoPaths = [this.tempRepoPath, ...Array.from(this.candidateRepos.values()).map(repo => repo.path)];
+      for (const repoPath of repoPaths) {
+        if (!await this.fileExists(repoPath)) {
+          continue;
+        }
+        const repoFiles = await this.getAllFiles(repoPath);
         for (const file of repoFiles) {
           try {
             const stat = await fs.stat(file);
@@ -476,7 +559,7 @@ module.exports = { sort };
             }
           } catch {}
         }
-        await fs.rm(this.tempRepoPath, { recursive: true, force: true });
+        await fs.rm(repoPath, { recursive: true, force: true });
       }
     } catch (error) {
       console.warn(chalk.yellow('Warning: Some files could not be wiped'));
@@ -524,20 +607,23 @@ module.exports = { sort };
   }
 
   /**
-   * Get changes after execution
+   * Get changes after execution (from a fan-out candidate's repository when candidateId is given)
    */
-  async getChanges(): Promise<string> {
-    const workDir = path.join(path.dirname(this.tempRepoPath), 'work-review');
+  async getChanges(candidateId?: string): Promise<string> {
+    const repoPath = candidateId
+      ? this.candidateRepos.get(`${this.taskId}-${candidateId}.git`)?.path || ''
+      : this.tempRepoPath;
+    const workDir = path.join(path.dirname(this.tempRepoPath), candidateId ? `work-review-${candidateId}` : 'work-review');
 
     try {
       // Check if repository still exists
-      if (!await this.fileExists(this.tempRepoPath)) {
-        console.error(chalk.red('[Git Server] ERROR: Repository path does not exist:'), this.tempRepoPath);
+      if (!repoPath || !await this.fileExists(repoPath)) {
+        console.error(chalk.red('[Git Server] ERROR: Repository path does not exist:'), repoPath);
         console.error(chalk.red('[Git Server] Repository may have been cleaned up too early'));
         return '';
       }
 
-      console.log(chalk.gray(`[Git Server] Cloning from: ${this.tempRepoPath}`));
+      console.log(chalk.gray(`[Git Server] Cloning from: ${repoPath}`));
 
       // Remove work-review directory if it exists from previous run
       if (await this.fileExists(workDir)) {
@@ -545,7 +631,7 @@ module.exports = { sort };
       }
 
       // Clone to review changes - use the bare repository directly
-      execSync(`git clone ${this.tempRepoPath} ${workDir}`, { stdio: 'pipe' });
+      execSync(`git clone ${repoPath} ${workDir}`, { stdio: 'pipe' });
 
       // Fetch the latest changes from the bare repository
       execSync(`cd ${workDir} && git fetch origin`, { stdio: 'ignore' });
@@ -603,6 +689,38 @@ module.exports = { sort };
     }
   }
 
+  /**
+   * Messages of the provider's commits (everything after the uploaded snapshot), oldest first
+   */
+  getCommitMessages(candidateId?: string): string[] {
+    const repoPath = candidateId
+      ? this.candidateRepos.get(`${this.taskId}-${candidateId}.git`)?.path
+      : this.tempRepoPath;
+    if (!repoPath) {
+      return [];
+    }
+
+    try {
+      const git = (args: string[]) => execFileSync('git', ['--git-dir', repoPath, ...args], {
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+      const roots = git(['rev-list', '--max-parents=0', 'HEAD']).trim().split('\n');
+      const log = git(['log', '--reverse', '--format=%B%x00', 'HEAD', '--not', ...roots]);
+      return log.split('\0').map(message => message.trim()).filter(Boolean);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Uploaded files keyed by their path in the returned patches, exactly as they were when
+   * the task started (before any redaction)
+   */
+  getBaseFiles(): BaseSnapshot {
+    return this.baseFiles;
+  }
+
   /**
    * Get configuration for requester
    */
@@ -0,0 +1,91 @@
+// Batch Manifest
+// Reads the task list for `hokipoki batch` from YAML or JSON:
+//
+//   defaults:              # optional, applied to every task
+//     tool: claude
+//     applyMode: branch
+//   tasks:
+//     - name: utils-to-ts
+//       task: Convert src/utils.js to TypeScript
+//       files: [src/utils.js]
+//     - task: Add input validation to the API handlers
+//       tool: codex
+//       dir: src/api
+//
+// A bare list of tasks (without defaults) is accepted too.
+
+import * as fs from 'fs';
+import { parse } from 'yaml';
+import { APPLY_MODES, ApplyMode, PatchApplier } from './patch-applier';
+
+export interface BatchEntry {
+  name?: string;
+  task: string;
+  tool?: string;
+  files: string[];
+  dir: string[];
+  all: boolean;
+  applyMode?: ApplyMode;
+}
+
+const ENTRY_KEYS = ['name', 'task', 'tool', 'files', 'dir', 'all', 'applyMode'];
+
+export function loadBatchManifest(file: string): BatchEntry[] {
+  let data: any;
+  try {
+    data = parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Cannot read ${file}: ${error.message}`);
+  }
+
+  const defaults = Array.isArray(data) ? {} : data?.defaults || {};
+  const tasks = Array.isArray(data) ? data : data?.tasks;
+  if (!Array.isArray(tasks) || tasks.length === 0) {
+    throw new Error(`${file} has no tasks (expected a "tasks:" list)`);
+  }
+
+  return tasks.map((raw: any, i: number) => parseEntry({ ...defaults, ...raw }, `${file}: task ${i + 1}`));
+}
+
+function parseEntry(raw: any, where: string): BatchEntry {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${where} must be a mapping`);
+  }
+
+  const unknown = Object.keys(raw).filter(key => !ENTRY_KEYS.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`${where}: unknown field(s) ${unknown.join(', ')} (expected ${ENTRY_KEYS.join(', ')})`);
+  }
+  if (typeof raw.task !== 'string' || !raw.task.trim()) {
+    throw new Error(`${where}: "task" is required`);
+  }
+  if (raw.tool !== undefined && typeof raw.tool !== 'string') {
+    throw new Error(`${where}: "tool" must be a string such as claude or claude:sonnet`);
+  }
+  if (raw.applyMode !== undefined && !PatchApplier.isApplyMode(String(raw.applyMode))) {
+    throw new Error(`${where}: "applyMode" must be one of ${APPLY_MODES.join(', ')}`);
+  }
+
+  return {
+    name: raw.name !== undefined ? String(raw.name) : undefined,
+    task: raw.task.trim(),
+    tool: raw.tool,
+    files: toList(raw.files, 'files', where),
+    dir: toList(raw.dir, 'dir', where),
+    all: raw.all === true,
+    applyMode: raw.applyMode
+  };
+}
+
+function toList(value: unknown, field: string, where: string): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value;
+  }
+  throw new Error(`${where}: "${field}" must be a path or a list of paths`);
+}
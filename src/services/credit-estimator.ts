@@ -0,0 +1,73 @@
+// Credit Estimator
+// Estimates what a request will cost before it is published, from the upload (bytes and
+// file count), the model's cost tier and the execution time it is expected to need.
+//
+//   minutes = 3 + 0.2 per file + 1 per 20 KB, capped at --execution-timeout
+//   credits = (1 + 0.1 per file + 0.5 per 100 KB + 0.2 per minute) x tier, rounded up to 0.5
+//
+// A few small files on a standard model come to the 2.5 credits tasks used to be priced at.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getToolAdapter, ModelTier } from '../../config/cli-tools';
+
+export interface CreditEstimate {
+  credits: number;
+  tier: ModelTier;
+  files: number;
+  bytes: number;
+  estimatedMinutes: number;
+}
+
+export interface CreditEstimateInput {
+  files: string[];
+  tool: string;
+  model?: string;
+  executionTimeoutMs?: number;  // 0 or unset: no limit
+}
+
+export const TIER_MULTIPLIERS: Record<ModelTier, number> = { economy: 0.5, standard: 1, premium: 2 };
+
+const BASE_CREDITS = 1;
+const CREDITS_PER_FILE = 0.1;
+const CREDITS_PER_100KB = 0.5;
+const CREDITS_PER_MINUTE = 0.2;
+const MIN_MINUTES = 3;
+const MAX_MINUTES = 60;   // Without an execution timeout
+
+export class CreditEstimator {
+  estimate(input: CreditEstimateInput): CreditEstimate {
+    const bytes = input.files.reduce((total, file) => total + fileSize(file), 0);
+    const files = input.files.length;
+    const tier = this.getTier(input.tool, input.model);
+
+    const limitMinutes = input.executionTimeoutMs ? Math.max(1, input.executionTimeoutMs / 60_000) : MAX_MINUTES;
+    const estimatedMinutes = Math.round(Math.min(MIN_MINUTES + 0.2 * files + bytes / (20 * 1024), limitMinutes));
+
+    const work = BASE_CREDITS
+      + CREDITS_PER_FILE * files
+      + CREDITS_PER_100KB * (bytes / (100 * 1024))
+      + CREDITS_PER_MINUTE * estimatedMinutes;
+    const credits = Math.max(0.5, Math.ceil(work * TIER_MULTIPLIERS[tier] * 2) / 2);
+
+    return { credits, tier, files, bytes, estimatedMinutes };
+  }
+
+  /**
+   * Cost tier of a tool's model; unknown tools and models count as standard
+   */
+  getTier(tool: string, model?: string): ModelTier {
+    if (!model) {
+      return 'standard';
+    }
+    return getToolAdapter(tool)?.modelTiers?.[model] || 'standard';
+  }
+}
+
+function fileSize(file: string): number {
+  try {
+    return fs.statSync(path.resolve(file)).size;
+  } catch {
+    return 0;
+  }
+}
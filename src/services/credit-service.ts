@@ -0,0 +1,158 @@
+// Credit Service
+// Credit balance and spend history from the backend, with a fallback to the credits
+// recorded in local task history when the backend is unreachable
+
+import { KeycloakManager } from '../../auth/keycloak-manager';
+import { ConfigManager } from '../../config/config-manager';
+import { TaskHistory } from './task-history';
+
+export type CreditTransactionType = 'spent' | 'earned' | 'purchased' | 'refunded';
+
+export interface CreditTransaction {
+  id?: string;
+  type: CreditTransactionType;
+  amount: number;          // Always positive; the type says which way it went
+  taskId?: string;
+  description?: string;
+  tool?: string;
+  createdAt: string;
+}
+
+export interface CreditAccount {
+  balance?: number;        // Unknown offline
+  transactions: CreditTransaction[];  // Newest first
+  offline: boolean;
+}
+
+export interface CreditSpend {
+  taskId: string;
+  credits: number;
+  providerId?: string;
+  tool: string;
+  model?: string;
+  description: string;
+}
+
+export class CreditService {
+  private keycloakManager: KeycloakManager;
+  private apiUrl: string;
+  private history: TaskHistory;
+
+  constructor() {
+    this.keycloakManager = new KeycloakManager();
+    this.apiUrl = new ConfigManager().getApiUrl();
+    this.history = new TaskHistory();
+  }
+
+  async getAccount(): Promise<CreditAccount> {
+    try {
+      return await this.fetchAccount();
+    } catch {
+      return { transactions: await this.localTransactions(), offline: true };
+    }
+  }
+
+  /**
+   * Credits spent in the calendar month containing `date`
+   */
+  getMonthlySpend(account: CreditAccount, date: Date = new Date()): number {
+    return account.transactions
+      .filter(t => t.type === 'spent' && sameMonth(new Date(t.createdAt), date))
+      .reduce((total, t) => total + t.amount, 0);
+  }
+
+  /**
+   * Charge a task whose cost was settled after it completed (a fan-out candidate picked
+   * later): recorded locally, then logged to the backend. False if the backend was unreachable
+   */
+  async recordSpend(spend: CreditSpend): Promise<boolean> {
+    try {
+      await this.history.record({ id: spend.taskId, credits: spend.credits, providerId: spend.providerId });
+    } catch {
+      // Local history is best-effort
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000);
+    try {
+      const token = await this.keycloakManager.getToken();
+      const response = await fetch(`${this.apiUrl}/tasks`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          id: spend.taskId,
+          tool: spend.tool,
+          model: spend.model,
+          description: spend.description,
+          status: 'completed',
+          credits: spend.credits,
+          completedAt: new Date().toISOString(),
+          providerId: spend.providerId
+        }),
+        signal: controller.signal
+      });
+      return response.ok;
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async fetchAccount(): Promise<CreditAccount> {
+    const token = await this.keycloakManager.getToken();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+    try {
+      const response = await fetch(`${this.apiUrl}/credits`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+        signal: controller.signal
+      });
+      if (!response.ok) throw new Error('Failed to fetch credits');
+
+      const data = await response.json() as any;
+      const transactions: any[] = data.transactions || data.history || [];
+      return {
+        balance: typeof data.balance === 'number' ? data.balance : undefined,
+        transactions: transactions.map(t => ({
+          id: t.id,
+          type: t.type,
+          amount: Math.abs(Number(t.amount) || 0),
+          taskId: t.taskId || undefined,
+          description: t.description || undefined,
+          tool: t.tool || undefined,
+          createdAt: t.createdAt
+        })).sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+        offline: false
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Completed tasks with credits: requested ones were spent, provided ones earned
+   */
+  private async localTransactions(): Promise<CreditTransaction[]> {
+    const tasks = await this.history.list();
+    return tasks
+      .filter(task => task.status === 'completed' && task.credits)
+      .map(task => ({
+        type: task.role === 'provider' ? 'earned' as const : 'spent' as const,
+        amount: task.credits!,
+        taskId: task.id,
+        description: task.description,
+        tool: task.model ? `${task.tool}:${task.model}` : task.tool,
+        createdAt: task.completedAt || task.createdAt
+      }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+}
+
+function sameMonth(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth();
+}
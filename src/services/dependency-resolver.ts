@@ -0,0 +1,315 @@
+// Import Dependency Resolver
+// Follows local imports of the selected files (`--with-deps`) so the provider's AI sees the
+// modules they use: TypeScript/JavaScript imports and requires (with tsconfig `paths`) and
+// Python imports. Only files inside the current directory are added; packages are skipped.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface DependencyBudget {
+  depth: number;     // Import hops to follow from the selected files
+  maxFiles: number;  // Maximum number of files to add
+  maxBytes: number;  // Maximum total size of added files
+}
+
+export interface AddedDependency {
+  file: string;        // Relative to the current directory
+  importedBy: string;  // File whose import pulled it in
+  specifier: string;   // Import as written, e.g. "../utils/date" or "app.models"
+  depth: number;
+}
+
+export interface DependencyResult {
+  added: AddedDependency[];
+  skipped: Array<{ file: string; reason: string }>;  // Resolved but over budget
+}
+
+export const DEFAULT_DEPENDENCY_BUDGET: DependencyBudget = {
+  depth: 1,
+  maxFiles: 50,
+  maxBytes: 1024 * 1024
+};
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs'];
+const JS_FILE = /\.(ts|tsx|js|jsx|mjs|cjs|mts|cts)$/;
+const PY_FILE = /\.py$/;
+
+// import x from '...', import '...', export ... from '...', require('...'), import('...')
+const JS_IMPORT_PATTERNS = [
+  /(?:^|[\s;])(?:import|export)\s[^'"`;]*?\bfrom\s*['"]([^'"]+)['"]/g,
+  /(?:^|[\s;])import\s*['"]([^'"]+)['"]/g,
+  /\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g
+];
+
+interface PathMapping {
+  baseDir: string;                 // Directory `paths` targets are relative to
+  paths: Record<string, string[]>;
+  baseUrl?: string;                // Absolute baseUrl, if set
+}
+
+export class DependencyResolver {
+  private rootDir: string;
+  private pathMapping?: PathMapping | null;
+
+  constructor(rootDir: string = process.cwd()) {
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * Breadth-first walk over local imports, stopping at the depth and size budget
+   */
+  resolve(files: string[], budget: DependencyBudget = DEFAULT_DEPENDENCY_BUDGET): DependencyResult {
+    const seen = new Set(files.map(f => this.toRelative(path.resolve(this.rootDir, f))));
+    const added: AddedDependency[] = [];
+    const skipped: Array<{ file: string; reason: string }> = [];
+    let addedBytes = 0;
+
+    let frontier = Array.from(seen);
+    for (let depth = 1; depth <= budget.depth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+
+      for (const file of frontier) {
+        for (const { specifier, resolved } of this.getImports(file)) {
+          if (seen.has(resolved)) continue;
+          seen.add(resolved);
+
+          const size = this.fileSize(resolved);
+          if (added.length >= budget.maxFiles) {
+            skipped.push({ file: resolved, reason: `file limit (${budget.maxFiles}) reached` });
+            continue;
+          }
+          if (addedBytes + size > budget.maxBytes) {
+            skipped.push({ file: resolved, reason: `size limit (${Math.round(budget.maxBytes / 1024)} KB) reached` });
+            continue;
+          }
+
+          addedBytes += size;
+          added.push({ file: resolved, importedBy: file, specifier, depth });
+          next.push(resolved);
+        }
+      }
+
+      frontier = next;
+    }
+
+    return { added, skipped };
+  }
+
+  /**
+   * Local files imported by a file (relative paths), in source order
+   */
+  private getImports(file: string): Array<{ specifier: string; resolved: string }> {
+    let source: string;
+    try {
+      source = fs.readFileSync(path.join(this.rootDir, file), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const results: Array<{ specifier: string; resolved: string }> = [];
+    const absolute = path.join(this.rootDir, file);
+
+    if (JS_FILE.test(file)) {
+      const code = this.stripJsComments(source);
+      for (const pattern of JS_IMPORT_PATTERNS) {
+        for (const match of code.matchAll(pattern)) {
+          const resolved = this.resolveJsImport(match[1], absolute);
+          if (resolved) results.push({ specifier: match[1], resolved });
+        }
+      }
+    } else if (PY_FILE.test(file)) {
+      for (const { specifier, candidates } of this.parsePythonImports(source, absolute)) {
+        const resolved = candidates.map(c => this.existingFile(c)).find(Boolean);
+        if (resolved) results.push({ specifier, resolved });
+      }
+    }
+
+    return results;
+  }
+
+  private resolveJsImport(specifier: string, fromFile: string): string | undefined {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      return this.resolveJsPath(path.resolve(path.dirname(fromFile), specifier));
+    }
+
+    // Non-relative: tsconfig paths, then baseUrl; anything else is a package
+    const mapping = this.getPathMapping();
+    if (!mapping) {
+      return undefined;
+    }
+
+    for (const [pattern, targets] of Object.entries(mapping.paths)) {
+      const wildcard = pattern.indexOf('*');
+      let captured: string | undefined;
+      if (wildcard === -1) {
+        captured = pattern === specifier ? '' : undefined;
+      } else {
+        const prefix = pattern.slice(0, wildcard);
+        const suffix = pattern.slice(wildcard + 1);
+        if (specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length) {
+          captured = specifier.slice(prefix.length, specifier.length - suffix.length);
+        }
+      }
+      if (captured === undefined) continue;
+
+      for (const target of targets) {
+        const resolved = this.resolveJsPath(path.resolve(mapping.baseDir, target.replace('*', captured)));
+        if (resolved) return resolved;
+      }
+    }
+
+    return mapping.baseUrl ? this.resolveJsPath(path.resolve(mapping.baseUrl, specifier)) : undefined;
+  }
+
+  /**
+   * Node/TypeScript-style lookup: exact file, added extension, `.js` written for a `.ts` source, index file
+   */
+  private resolveJsPath(target: string): string | undefined {
+    const candidates = [
+      target,
+      ...JS_EXTENSIONS.map(ext => target + ext),
+      ...(/\.(m|c)?js$/.test(target) ? ['.ts', '.tsx'].map(ext => target.replace(/\.(m|c)?js$/, ext)) : []),
+      ...JS_EXTENSIONS.map(ext => path.join(target, 'index' + ext))
+    ];
+    return candidates.map(c => this.existingFile(c)).find(Boolean);
+  }
+
+  /**
+   * Candidate paths for each Python import; relative imports resolve from the file's package,
+   * absolute ones from the root (and the file's directory, for scripts importing siblings)
+   */
+  private parsePythonImports(source: string, fromFile: string): Array<{ specifier: string; candidates: string[] }> {
+    const imports: Array<{ specifier: string; candidates: string[] }> = [];
+    const moduleFiles = (base: string, dotted: string) => {
+      const modulePath = path.join(base, ...dotted.split('.').filter(Boolean));
+      return [modulePath + '.py', path.join(modulePath, '__init__.py')];
+    };
+    const absoluteBases = [this.rootDir, path.dirname(fromFile)];
+
+    // Join backslash-continued lines and parenthesized name lists
+    const code = source.replace(/\\\r?\n/g, ' ').replace(/\(([^)]*)\)/g, (_m, names) => names.replace(/\s+/g, ' '));
+
+    for (const line of code.split('\n')) {
+      const fromMatch = line.match(/^\s*from\s+(\.*)([\w.]*)\s+import\s+(.+)$/);
+      if (fromMatch) {
+        const [, dots, moduleName, names] = fromMatch;
+        let bases = absoluteBases;
+        if (dots.length > 0) {
+          let base = path.dirname(fromFile);
+          for (let i = 1; i < dots.length; i++) base = path.dirname(base);
+          bases = [base];
+        }
+
+        const specifier = `${dots}${moduleName}`;
+        const candidates = bases.flatMap(base => moduleName ? moduleFiles(base, moduleName) : []);
+        if (candidates.length > 0) {
+          imports.push({ specifier, candidates });
+        }
+
+        // `from pkg import submodule` may name modules rather than attributes
+        for (const name of names.split(',').map(n => n.trim().split(/\s+/)[0]).filter(n => /^\w+$/.test(n))) {
+          imports.push({
+            specifier: `${specifier}${moduleName ? '.' : ''}${name}`,
+            candidates: bases.map(base => path.join(base, ...moduleName.split('.').filter(Boolean), name + '.py'))
+          });
+        }
+        continue;
+      }
+
+      const importMatch = line.match(/^\s*import\s+(.+)$/);
+      if (importMatch) {
+        for (const name of importMatch[1].split(',').map(n => n.trim().split(/\s+/)[0]).filter(Boolean)) {
+          imports.push({ specifier: name, candidates: absoluteBases.flatMap(base => moduleFiles(base, name)) });
+        }
+      }
+    }
+
+    return imports;
+  }
+
+  /**
+   * tsconfig.json/jsconfig.json nearest to the root (following relative `extends`)
+   */
+  private getPathMapping(): PathMapping | null {
+    if (this.pathMapping !== undefined) {
+      return this.pathMapping;
+    }
+
+    this.pathMapping = null;
+    let dir = this.rootDir;
+    while (true) {
+      for (const name of ['tsconfig.json', 'jsconfig.json']) {
+        const configPath = path.join(dir, name);
+        if (fs.existsSync(configPath)) {
+          this.pathMapping = this.readPathMapping(configPath, 0);
+          return this.pathMapping;
+        }
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir || fs.existsSync(path.join(dir, '.git'))) break;
+      dir = parent;
+    }
+    return this.pathMapping;
+  }
+
+  private readPathMapping(configPath: string, level: number): PathMapping | null {
+    let config: any;
+    try {
+      config = JSON.parse(this.stripJsonComments(fs.readFileSync(configPath, 'utf-8')));
+    } catch {
+      return null;
+    }
+
+    const configDir = path.dirname(configPath);
+    const inherited = typeof config.extends === 'string' && config.extends.startsWith('.') && level < 5
+      ? this.readPathMapping(path.resolve(configDir, config.extends.endsWith('.json') ? config.extends : `${config.extends}.json`), level + 1)
+      : null;
+
+    const options = config.compilerOptions || {};
+    const baseUrl = options.baseUrl !== undefined ? path.resolve(configDir, options.baseUrl) : inherited?.baseUrl;
+    if (!options.paths && !baseUrl) {
+      return inherited;
+    }
+
+    return {
+      baseDir: options.paths ? (baseUrl || configDir) : (inherited?.baseDir || baseUrl || configDir),
+      paths: options.paths || inherited?.paths || {},
+      baseUrl
+    };
+  }
+
+  private existingFile(absolute: string): string | undefined {
+    const relative = this.toRelative(absolute);
+    if (relative.startsWith('..') || path.isAbsolute(relative) || relative.split(path.sep).includes('node_modules')) {
+      return undefined;
+    }
+    try {
+      return fs.statSync(absolute).isFile() ? relative : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private fileSize(relative: string): number {
+    try {
+      return fs.statSync(path.join(this.rootDir, relative)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  private toRelative(absolute: string): string {
+    return path.relative(this.rootDir, absolute);
+  }
+
+  private stripJsComments(code: string): string {
+    return code.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:'"`\\])\/\/.*$/gm, '$1');
+  }
+
+  private stripJsonComments(json: string): string {
+    // Leave string contents alone (e.g. "src/*" globs), drop comments and trailing commas
+    return json
+      .replace(/("(?:\\.|[^"\\])*")|\/\*[\s\S]*?\*\/|\/\/.*$/gm, (_match, str) => str || '')
+      .replace(/,(\s*[}\]])/g, '$1');
+  }
+}
@@ -0,0 +1,222 @@
+// Detached Tasks
+// Bookkeeping for `hokipoki request --detach`: the request runs in a background agent that
+// writes its ndjson event stream and log to the active profile's detached/<id>/ dir, and waits
+// there for `hokipoki attach` to decide what to do with the result.
+//
+//   task.json       what was requested, where, and the agent's pid
+//   events.ndjson   the agent's lifecycle events (and its final `result`)
+//   agent.log       the agent's human-readable output
+//   decision.json   written by attach: apply, save or reject
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProfileManager } from '../../config/profile-manager';
+
+export type DetachedDecision = 'apply' | 'save' | 'reject';
+
+export const DETACHED_DECISIONS: DetachedDecision[] = ['apply', 'save', 'reject'];
+
+export type DetachedStatus =
+  | 'starting'
+  | 'waiting_for_provider'
+  | 'running'
+  | 'fetching_result'
+  | 'awaiting_review'
+  | 'finished'
+  | 'failed'
+  | 'agent_exited';    // The agent stopped without reporting a result
+
+export interface DetachedTask {
+  id: string;          // Local handle, known before the relay assigns a task ID
+  pid?: number;
+  cwd: string;
+  task: string;
+  tool: string;
+  applyMode: string;
+  createdAt: string;
+}
+
+export interface DetachedEvent {
+  event: string;
+  timestamp: string;
+  [key: string]: any;
+}
+
+export interface DetachedState {
+  status: DetachedStatus;
+  taskId?: string;
+  providerId?: string;
+  review?: DetachedEvent;  // review_pending event: patch file and diff stats
+  result?: DetachedEvent;  // Final result event
+}
+
+const DECISION_POLL_MS = 1000;
+
+export class DetachedTaskStore {
+  private detachedDir: string;
+
+  constructor() {
+    this.detachedDir = path.join(new ProfileManager().getProfileDir(), 'detached');
+  }
+
+  create(task: Omit<DetachedTask, 'id' | 'createdAt'>): DetachedTask {
+    const entry: DetachedTask = {
+      id: crypto.randomBytes(4).toString('hex'),
+      createdAt: new Date().toISOString(),
+      ...task
+    };
+    fs.mkdirSync(this.getDir(entry.id), { recursive: true, mode: 0o700 });
+    this.save(entry);
+    return entry;
+  }
+
+  save(entry: DetachedTask): void {
+    fs.writeFileSync(path.join(this.getDir(entry.id), 'task.json'), JSON.stringify(entry, null, 2));
+  }
+
+  /**
+   * Find a detached task by local ID or relay task ID (full or unique prefix)
+   */
+  find(idOrPrefix: string): DetachedTask | null {
+    const matches = this.list().filter(entry => {
+      const taskId = this.getState(entry).taskId;
+      return entry.id.startsWith(idOrPrefix) || (taskId !== undefined && taskId.startsWith(idOrPrefix));
+    });
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  /**
+   * All detached tasks, oldest first
+   */
+  list(): DetachedTask[] {
+    let ids: string[];
+    try {
+      ids = fs.readdirSync(this.detachedDir);
+    } catch {
+      return [];
+    }
+
+    const entries: DetachedTask[] = [];
+    for (const id of ids) {
+      try {
+        entries.push(JSON.parse(fs.readFileSync(path.join(this.getDir(id), 'task.json'), 'utf-8')));
+      } catch {
+        // Being created, or removed meanwhile
+      }
+    }
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  remove(id: string): void {
+    fs.rmSync(this.getDir(id), { recursive: true, force: true });
+  }
+
+  readEvents(id: string): DetachedEvent[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.getEventsFile(id), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const events: DetachedEvent[] = [];
+    for (const line of content.split('\n')) {
+      try {
+        const event = JSON.parse(line);
+        if (event && typeof event.event === 'string') {
+          events.push(event);
+        }
+      } catch {
+        // Partially written last line
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Where the agent is, derived from its events
+   */
+  getState(entry: DetachedTask, events: DetachedEvent[] = this.readEvents(entry.id)): DetachedState {
+    const state: DetachedState = { status: 'starting' };
+    for (const event of events) {
+      switch (event.event) {
+        case 'task_published':
+          state.taskId = event.taskId;
+          state.status = 'waiting_for_provider';
+          break;
+        case 'provider_matched':
+          state.providerId = event.providerId;
+          state.status = 'running';
+          break;
+        case 'task_republished':
+          state.providerId = undefined;
+          state.status = 'waiting_for_provider';
+          break;
+        case 'execution_complete':
+          state.status = 'fetching_result';
+          break;
+        case 'review_pending':
+          state.review = event;
+          state.status = 'awaiting_review';
+          break;
+        case 'result':
+          state.result = event;
+          state.status = event.success === false || event.error ? 'failed' : 'finished';
+          break;
+      }
+    }
+
+    // No pid yet: the agent is still being started
+    if (!state.result && entry.pid && !this.isAgentRunning(entry)) {
+      state.status = 'agent_exited';
+    }
+    return state;
+  }
+
+  isAgentRunning(entry: DetachedTask): boolean {
+    if (!entry.pid) {
+      return false;
+    }
+    try {
+      process.kill(entry.pid, 0);
+      return true;
+    } catch (error: any) {
+      return error.code === 'EPERM';
+    }
+  }
+
+  hasDecision(id: string): boolean {
+    return fs.existsSync(path.join(this.getDir(id), 'decision.json'));
+  }
+
+  writeDecision(id: string, decision: DetachedDecision): void {
+    fs.writeFileSync(path.join(this.getDir(id), 'decision.json'), JSON.stringify({ decision, decidedAt: new Date().toISOString() }));
+  }
+
+  /**
+   * Agent side: wait until attach has written a decision
+   */
+  async waitForDecision(id: string): Promise<DetachedDecision> {
+    const file = path.join(this.getDir(id), 'decision.json');
+    for (;;) {
+      try {
+        return JSON.parse(fs.readFileSync(file, 'utf-8')).decision;
+      } catch {
+        await new Promise(resolve => setTimeout(resolve, DECISION_POLL_MS));
+      }
+    }
+  }
+
+  getEventsFile(id: string): string {
+    return path.join(this.getDir(id), 'events.ndjson');
+  }
+
+  getLogFile(id: string): string {
+    return path.join(this.getDir(id), 'agent.log');
+  }
+
+  private getDir(id: string): string {
+    return path.join(this.detachedDir, path.basename(id));
+  }
+}
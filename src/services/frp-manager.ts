@@ -73,24 +73,41 @@ export class FrpManager {
       return this.frpcPath;
     }
 
-    // Check if frpc is in PATH
-    try {
-      const { stdout } = await execAsync('which frpc');
-      this.frpcPath = stdout.trim();
+    const existing = await this.findFrpcBinary();
+    if (existing) {
+      this.frpcPath = existing;
       this.logger.debug(`Found frpc at: ${this.frpcPath}`);
       return this.frpcPath;
-    } catch {
-      // Not in PATH, need to download
-      return await this.downloadFrpc();
     }
+
+    // Not installed, need to download
+    return await this.downloadFrpc();
   }
 
   /**
-   * Download frpc binary if not available
+   * Locate an installed frpc binary (PATH first, then ~/.hokipoki/bin) without downloading
    */
-  private async downloadFrpc(): Promise<string> {
-    this.logger.info('Downloading frpc binary...');
+  async findFrpcBinary(): Promise<string | null> {
+    try {
+      const { stdout } = await execAsync('which frpc');
+      return stdout.trim();
+    } catch {
+      // Not in PATH
+    }
+
+    const cachedPath = path.join(os.homedir(), '.hokipoki', 'bin', 'frpc');
+    try {
+      await fs.access(cachedPath, fs.constants.X_OK);
+      return cachedPath;
+    } catch {
+      return null;
+    }
+  }
 
+  /**
+   * Release URL of the frpc archive for this platform
+   */
+  getFrpcDownloadUrl(): string {
     const platform = os.platform();
     const arch = os.arch();
 
@@ -99,7 +116,6 @@ export class FrpManager {
 
     // Determine download URL based on platform
     let archiveName = '';
-    let binaryName = 'frpc';
 
     if (platform === 'darwin') {
       if (arch === 'arm64') {
@@ -117,7 +133,17 @@ export class FrpManager {
       throw new Error(`Unsupported platform: ${platform}`);
     }
 
-    const downloadUrl = `https://github.com/fatedier/frp/releases/download/${frpVersion}/${archiveName}`;
+    return `https://github.com/fatedier/frp/releases/download/${frpVersion}/${archiveName}`;
+  }
+
+  /**
+   * Download frpc binary if not available
+   */
+  private async downloadFrpc(): Promise<string> {
+    this.logger.info('Downloading frpc binary...');
+
+    const binaryName = 'frpc';
+    const downloadUrl = this.getFrpcDownloadUrl();
 
     // Download and extract to temp directory
     const binDir = path.join(os.homedir(), '.hokipoki', 'bin');
@@ -0,0 +1,134 @@
+// Git Change Context
+// Selects request files from what changed in git (--changed, --staged, --since <ref>)
+// and renders the matching diff hunks for the task description
+
+import { execFileSync } from 'child_process';
+
+export interface GitChangeOptions {
+  changed?: boolean;  // Working tree + index vs HEAD, plus untracked files
+  staged?: boolean;   // Index vs HEAD only
+  since?: string;     // Working tree vs <ref>, plus untracked files
+}
+
+// Cap on diff text appended to the task description
+const MAX_DIFF_CHARS = 20000;
+
+export class GitContext {
+  /**
+   * Whether any change-based selection was requested
+   */
+  static isRequested(options: GitChangeOptions): boolean {
+    return !!(options.changed || options.staged || options.since);
+  }
+
+  /**
+   * Files (relative to the current directory) selected by the change options.
+   * Deleted files are skipped since there is nothing to upload for them.
+   */
+  getFiles(options: GitChangeOptions): string[] {
+    const files = new Set<string>();
+
+    if (options.staged) {
+      this.lines(['diff', '--cached', '--name-only', '--relative', '--diff-filter=d']).forEach(f => files.add(f));
+    }
+
+    if (options.changed) {
+      this.lines(['diff', 'HEAD', '--name-only', '--relative', '--diff-filter=d']).forEach(f => files.add(f));
+    }
+
+    if (options.since) {
+      this.verifyRef(options.since);
+      this.lines(['diff', options.since, '--name-only', '--relative', '--diff-filter=d']).forEach(f => files.add(f));
+    }
+
+    if (options.changed || options.since) {
+      this.getUntrackedFiles().forEach(f => files.add(f));
+    }
+
+    return Array.from(files);
+  }
+
+  /**
+   * Recently changed files, most recent first: uncommitted changes and untracked files,
+   * then files touched by the last `commits` commits. Empty outside a git repository.
+   */
+  getRecentlyChangedFiles(commits: number = 100): string[] {
+    const files = new Set<string>();
+    try {
+      this.lines(['diff', 'HEAD', '--name-only', '--relative']).forEach(f => files.add(f));
+      this.getUntrackedFiles().forEach(f => files.add(f));
+      this.lines(['log', '-n', String(commits), '--name-only', '--format=', '--relative']).forEach(f => files.add(f));
+    } catch {
+      // Not a repository (or no commits yet)
+    }
+    return Array.from(files);
+  }
+
+  getUntrackedFiles(): string[] {
+    return this.lines(['ls-files', '--others', '--exclude-standard']);
+  }
+
+  /**
+   * Unified diff of the selected changes, truncated to keep the task description reasonable
+   */
+  getDiff(options: GitChangeOptions): string {
+    const parts: string[] = [];
+
+    if (options.staged) {
+      parts.push(this.git(['diff', '--cached', '--relative']));
+    }
+    if (options.changed) {
+      parts.push(this.git(['diff', 'HEAD', '--relative']));
+    }
+    if (options.since) {
+      this.verifyRef(options.since);
+      parts.push(this.git(['diff', options.since, '--relative']));
+    }
+
+    const untracked = options.changed || options.since ? this.getUntrackedFiles() : [];
+    if (untracked.length > 0) {
+      parts.push(untracked.map(f => `New untracked file: ${f}`).join('\n'));
+    }
+
+    const diff = parts.filter(part => part.trim()).join('\n');
+    if (diff.length <= MAX_DIFF_CHARS) {
+      return diff;
+    }
+    return diff.slice(0, MAX_DIFF_CHARS) + `\n... (diff truncated, ${diff.length - MAX_DIFF_CHARS} more characters)`;
+  }
+
+  /**
+   * Human-readable label for the selection, e.g. "changes since main"
+   */
+  describe(options: GitChangeOptions): string {
+    const labels: string[] = [];
+    if (options.changed) labels.push('uncommitted changes');
+    if (options.staged) labels.push('staged changes');
+    if (options.since) labels.push(`changes since ${options.since}`);
+    return labels.join(', ');
+  }
+
+  private verifyRef(ref: string): void {
+    // The ref is passed to `git diff` as is; one starting with '-' would be read as an option
+    if (ref.startsWith('-')) {
+      throw new Error(`Unknown git ref: ${ref} (refs can't start with '-')`);
+    }
+    try {
+      this.git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+    } catch {
+      throw new Error(`Unknown git ref: ${ref}`);
+    }
+  }
+
+  private lines(args: string[]): string[] {
+    return this.git(args).split('\n').filter(line => line.trim().length > 0);
+  }
+
+  private git(args: string[]): string {
+    return execFileSync('git', args, {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      maxBuffer: 50 * 1024 * 1024
+    });
+  }
+}
@@ -0,0 +1,155 @@
+// .hokipokiignore Rules
+// Excludes files from requests with gitignore syntax. Rules are read from the
+// .hokipokiignore in the repository root and from any nested directory, and apply
+// to every way of selecting files (--files, --dir, --all, git changes, --with-deps).
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { globToRegExp } from '../utils/glob-match';
+
+export const IGNORE_FILE = '.hokipokiignore';
+
+export interface IgnoreRule {
+  pattern: string;    // As written in the file
+  source: string;     // Ignore file, relative to the current directory
+  line: number;
+  negated: boolean;
+  directoryOnly: boolean;
+  regex: RegExp;      // Matches paths relative to the ignore file's directory
+}
+
+export interface IgnoreMatch {
+  file: string;
+  rule: IgnoreRule;
+}
+
+export class IgnoreRules {
+  private rootDir: string;
+  private cwd: string;
+  private rulesByDir = new Map<string, IgnoreRule[]>();
+
+  constructor(rootDir: string = findRepoRoot()) {
+    this.rootDir = rootDir;
+    // git reports the root with symlinks resolved, so resolve paths against the real cwd
+    this.cwd = fs.realpathSync(process.cwd());
+  }
+
+  /**
+   * Split files (relative to the current directory) into kept and excluded ones
+   */
+  filter(files: string[]): { kept: string[]; excluded: IgnoreMatch[] } {
+    const kept: string[] = [];
+    const excluded: IgnoreMatch[] = [];
+
+    for (const file of files) {
+      const rule = this.match(file);
+      if (rule) {
+        excluded.push({ file, rule });
+      } else {
+        kept.push(file);
+      }
+    }
+    return { kept, excluded };
+  }
+
+  /**
+   * Rule excluding a file, if any. As in git, a file inside an excluded directory
+   * stays excluded even if a later rule re-includes the file itself.
+   */
+  match(file: string): IgnoreRule | undefined {
+    const absolute = path.resolve(this.cwd, file);
+    const relative = path.relative(this.rootDir, absolute);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      return undefined;
+    }
+
+    const segments = relative.split(path.sep);
+    for (let i = 1; i <= segments.length; i++) {
+      const isDirectory = i < segments.length;
+      const rule = this.matchPath(segments.slice(0, i), isDirectory);
+      if (rule && !rule.negated) {
+        return rule;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Last matching rule for a path, checking ignore files from the root down to its directory
+   */
+  private matchPath(segments: string[], isDirectory: boolean): IgnoreRule | undefined {
+    let result: IgnoreRule | undefined;
+
+    for (let depth = 0; depth < segments.length; depth++) {
+      const dir = path.join(this.rootDir, ...segments.slice(0, depth));
+      const relativeToDir = segments.slice(depth).join('/');
+
+      for (const rule of this.getRules(dir)) {
+        if (rule.directoryOnly && !isDirectory) continue;
+        if (rule.regex.test(relativeToDir)) {
+          result = rule;
+        }
+      }
+    }
+    return result;
+  }
+
+  private getRules(dir: string): IgnoreRule[] {
+    let rules = this.rulesByDir.get(dir);
+    if (!rules) {
+      rules = this.loadRules(path.join(dir, IGNORE_FILE));
+      this.rulesByDir.set(dir, rules);
+    }
+    return rules;
+  }
+
+  private loadRules(ignoreFile: string): IgnoreRule[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(ignoreFile, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const source = path.relative(this.cwd, ignoreFile);
+    const rules: IgnoreRule[] = [];
+
+    content.split(/\r?\n/).forEach((raw, index) => {
+      // Trailing spaces are ignored unless escaped; "\#" and "\!" start literal patterns
+      let pattern = raw.replace(/(?<!\\)\s+$/, '');
+      if (!pattern || pattern.startsWith('#')) return;
+
+      const negated = pattern.startsWith('!');
+      if (negated) pattern = pattern.slice(1);
+      if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) pattern = pattern.slice(1);
+
+      const directoryOnly = pattern.endsWith('/');
+      if (directoryOnly) pattern = pattern.slice(0, -1);
+      if (!pattern) return;
+
+      // A slash at the start or in the middle anchors the pattern to the ignore file's directory
+      const anchored = pattern.includes('/');
+      if (pattern.startsWith('/')) pattern = pattern.slice(1);
+
+      rules.push({
+        pattern: raw.trim(),
+        source,
+        line: index + 1,
+        negated,
+        directoryOnly,
+        regex: globToRegExp(anchored ? pattern : `**/${pattern}`)
+      });
+    });
+
+    return rules;
+  }
+}
+
+function findRepoRoot(): string {
+  try {
+    return execSync('git rev-parse --show-toplevel', { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+  } catch {
+    return fs.realpathSync(process.cwd());
+  }
+}
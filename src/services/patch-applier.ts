@@ -0,0 +1,259 @@
+// Patch Applier
+// Applies a provider's patch in one of three modes:
+// - working-tree: `git apply` into the current checkout (default)
+// - branch:       commit onto `hokipoki/<taskId>` from the request's base commit, checkout untouched
+// - worktree:     like branch, but also checked out in a separate `git worktree` for inspection
+// Commits carry HokiPoki-Task/Provider/Tool/Model trailers. When the patch no longer applies
+// cleanly, it is merged three-way against the content that was uploaded for the task.
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parsePatch } from '../utils/patch';
+import { BaseSnapshot, MergeConflict, ThreeWayMerger } from './three-way-merge';
+
+export type ApplyMode = 'working-tree' | 'branch' | 'worktree';
+
+export const APPLY_MODES: ApplyMode[] = ['working-tree', 'branch', 'worktree'];
+
+export interface Provenance {
+  taskId: string;
+  description: string;
+  providerId?: string;
+  tool: string;
+  model?: string;
+}
+
+export interface ApplyResult {
+  mode: ApplyMode;
+  branch?: string;
+  commit?: string;
+  worktreePath?: string;
+  merged?: string[];           // Files merged three-way because they changed during the task
+  conflicts?: MergeConflict[]; // Left with conflict markers (nothing is committed then)
+}
+
+export class PatchApplier {
+  /**
+   * Commit a request is based on (HEAD when it was published); undefined outside a repo or before the first commit
+   */
+  static getBaseCommit(): string | undefined {
+    try {
+      return git(['rev-parse', '--verify', '--quiet', 'HEAD']).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  static isApplyMode(value: string): value is ApplyMode {
+    return (APPLY_MODES as string[]).includes(value);
+  }
+
+  static branchName(taskId: string): string {
+    return `hokipoki/${taskId}`;
+  }
+
+  /**
+   * Apply a patch file (paths relative to the current directory). With `baseFiles` (the content
+   * uploaded for the task), a patch that no longer applies is merged three-way; otherwise it throws.
+   */
+  apply(patchFile: string, mode: ApplyMode, provenance: Provenance, baseCommit?: string, baseFiles?: BaseSnapshot): ApplyResult {
+    const patch = path.resolve(patchFile);
+    const canMerge = !!baseFiles && baseFiles.size > 0;
+
+    if (mode === 'working-tree') {
+      const prefixArgs = this.directoryArgs();
+      try {
+        git(['apply', '--check', ...prefixArgs, patch]);
+      } catch (error) {
+        if (!canMerge) {
+          throw error;
+        }
+        // Not `git apply --3way`: it needs the index to match the working tree, which it
+        // usually doesn't when you kept editing
+        const outcome = new ThreeWayMerger(baseFiles!, PatchApplier.branchName(provenance.taskId)).merge(patch);
+        return { mode, ...outcome };
+      }
+      git(['apply', ...prefixArgs, patch]);
+      return { mode };
+    }
+
+    if (!baseCommit) {
+      throw new Error(`--apply-mode ${mode} needs a git repository with at least one commit`);
+    }
+
+    const branch = PatchApplier.branchName(provenance.taskId);
+    if (this.branchExists(branch)) {
+      throw new Error(`Branch ${branch} already exists`);
+    }
+
+    if (mode === 'branch') {
+      const commit = this.commitOnto(baseCommit, patch, provenance, canMerge ? baseFiles : undefined);
+      git(['update-ref', `refs/heads/${branch}`, commit, '']);
+      return { mode, branch, commit };
+    }
+
+    const worktreePath = this.worktreePath(provenance.taskId);
+    git(['worktree', 'add', '--quiet', '-b', branch, worktreePath, baseCommit]);
+    try {
+      try {
+        git(['apply', '--check', ...this.directoryArgs(), patch], worktreePath);
+        git(['apply', ...this.directoryArgs(), patch], worktreePath);
+      } catch (error) {
+        if (!canMerge) {
+          throw error;
+        }
+        const conflicts = this.applyThreeWay(patch, baseFiles!, [], worktreePath);
+        if (conflicts.length > 0) {
+          // Leave the worktree for the user to resolve and commit
+          return { mode, branch, worktreePath, conflicts };
+        }
+      }
+      git(['add', '-A'], worktreePath);
+      git(['commit', '--quiet', '--no-verify', '-F', '-'], worktreePath, this.commitMessage(provenance), this.identityEnv());
+    } catch (error) {
+      git(['worktree', 'remove', '--force', worktreePath]);
+      git(['branch', '-D', branch]);
+      throw error;
+    }
+    const commit = git(['rev-parse', 'HEAD'], worktreePath).trim();
+    return { mode, branch, commit, worktreePath };
+  }
+
+  /**
+   * Build a commit of base + patch without touching the checkout or the real index
+   */
+  private commitOnto(baseCommit: string, patch: string, provenance: Provenance, baseFiles?: BaseSnapshot): string {
+    const indexFile = path.join(os.tmpdir(), `hokipoki-index-${process.pid}-${Date.now()}`);
+    const env = { GIT_INDEX_FILE: indexFile };
+    try {
+      git(['read-tree', baseCommit], undefined, undefined, env);
+      try {
+        git(['apply', '--cached', '--check', ...this.directoryArgs(), patch], undefined, undefined, env);
+        git(['apply', '--cached', ...this.directoryArgs(), patch], undefined, undefined, env);
+      } catch (error) {
+        if (!baseFiles) {
+          throw error;
+        }
+        const conflicts = this.applyThreeWay(patch, baseFiles, ['--cached'], undefined, env);
+        if (conflicts.length > 0) {
+          throw new Error(`The patch conflicts with ${baseCommit.slice(0, 7)} in ${conflicts.map(c => c.file).join(', ')}; ` +
+            'use --apply-mode worktree or working-tree to resolve the conflicts');
+        }
+      }
+      const tree = git(['write-tree'], undefined, undefined, env).trim();
+      return git(['commit-tree', tree, '-p', baseCommit, '-F', '-'], undefined, this.commitMessage(provenance), this.identityEnv()).trim();
+    } finally {
+      fs.rmSync(indexFile, { force: true });
+    }
+  }
+
+  /**
+   * `git apply --3way` with the patch's preimage blobs pointed at the uploaded content,
+   * which is written to the object database first. Returns the conflicted files.
+   */
+  private applyThreeWay(patch: string, baseFiles: BaseSnapshot, args: string[], cwd?: string, env: Record<string, string> = {}): MergeConflict[] {
+    const rewritten = `${patch}.3way`;
+    fs.writeFileSync(rewritten, this.withBaseBlobs(fs.readFileSync(patch, 'utf-8'), baseFiles, cwd));
+    try {
+      git(['apply', '--3way', ...args, ...this.directoryArgs(), rewritten], cwd, undefined, env);
+      return [];
+    } catch (error: any) {
+      // Unmerged entries: "<mode> <blob> <stage>\t<path>", one per stage
+      const unmerged = Array.from(new Set(git(['ls-files', '--unmerged'], cwd, undefined, env)
+        .split('\n').filter(Boolean).map(line => line.split('\t')[1])));
+      if (unmerged.length === 0) {
+        throw error;
+      }
+      return unmerged.map(file => ({ file, reason: 'both modified, see the conflict markers' }));
+    } finally {
+      fs.rmSync(rewritten, { force: true });
+    }
+  }
+
+  private withBaseBlobs(diff: string, baseFiles: BaseSnapshot, cwd?: string): string {
+    const blobs = new Map<string, string>();
+    for (const file of parsePatch(diff)) {
+      const base = baseFiles.get(file.path);
+      if (base) {
+        git(['hash-object', '-w', '--stdin'], cwd, base.content);
+        blobs.set(file.path, base.blob);
+      }
+    }
+
+    let current: string | undefined;
+    return diff.split('\n').map(line => {
+      const header = line.match(/^diff --git a\/.* b\/(.*)$/);
+      if (header) {
+        current = header[1];
+        return line;
+      }
+      const blob = current !== undefined ? blobs.get(current) : undefined;
+      return blob ? line.replace(/^index [0-9a-f]+\.\./, `index ${blob}..`) : line;
+    }).join('\n');
+  }
+
+  private commitMessage(provenance: Provenance): string {
+    const firstLine = provenance.description.split('\n')[0].trim();
+    const subject = firstLine.length > 64 ? `${firstLine.slice(0, 61)}...` : firstLine;
+    return [
+      `HokiPoki: ${subject}`,
+      '',
+      provenance.description.trim(),
+      '',
+      `HokiPoki-Task: ${provenance.taskId}`,
+      `HokiPoki-Provider: ${provenance.providerId || 'unknown'}`,
+      `HokiPoki-Tool: ${provenance.tool}`,
+      `HokiPoki-Model: ${provenance.model || 'default'}`,
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Patch paths are relative to the current directory; git applies them from the repo root
+   */
+  private directoryArgs(): string[] {
+    const prefix = git(['rev-parse', '--show-prefix']).trim();
+    return prefix ? [`--directory=${prefix.replace(/\/$/, '')}`] : [];
+  }
+
+  private worktreePath(taskId: string): string {
+    const root = git(['rev-parse', '--show-toplevel']).trim();
+    return path.join(path.dirname(root), `${path.basename(root)}-hokipoki-${taskId.slice(0, 12)}`);
+  }
+
+  private branchExists(branch: string): boolean {
+    try {
+      git(['show-ref', '--verify', '--quiet', `refs/heads/${branch}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Fall back to a HokiPoki identity when the user has none configured
+   */
+  private identityEnv(): Record<string, string> {
+    try {
+      git(['config', 'user.email']);
+      return {};
+    } catch {
+      return {
+        GIT_AUTHOR_NAME: 'HokiPoki', GIT_AUTHOR_EMAIL: 'noreply@hokipoki.ai',
+        GIT_COMMITTER_NAME: 'HokiPoki', GIT_COMMITTER_EMAIL: 'noreply@hokipoki.ai'
+      };
+    }
+  }
+}
+
+function git(args: string[], cwd?: string, input?: string | Buffer, env: Record<string, string> = {}): string {
+  return execFileSync('git', args, {
+    cwd,
+    input,
+    encoding: 'utf-8',
+    stdio: ['pipe', 'pipe', 'pipe'],
+    env: { ...process.env, ...env }
+  });
+}
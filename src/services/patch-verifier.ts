@@ -0,0 +1,192 @@
+// Patch Verifier
+// Runs a local check (`request --verify "npm test"`) against a provider's patch before it is
+// accepted. The patch is applied in a temporary detached worktree that mirrors the checkout:
+// HEAD plus uncommitted changes and the untracked files that were uploaded. The command runs
+// there, from the request's directory, so the checkout itself is never touched.
+
+import { execFileSync, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BaseSnapshot, ThreeWayMerger } from './three-way-merge';
+
+export interface VerificationResult {
+  command: string;
+  passed: boolean;
+  exitCode: number | null;   // null when the command didn't run to completion
+  output: string;            // Combined stdout/stderr (tail, see MAX_OUTPUT_BYTES)
+  durationMs: number;
+  timedOut?: boolean;
+}
+
+// Keep the end of the output: that's where test runners and compilers summarize failures
+const MAX_OUTPUT_BYTES = 64 * 1024;
+const VERIFY_TIMEOUT_MS = 15 * 60 * 1000;
+
+export class PatchVerifier {
+  constructor(private command: string, private timeoutMs: number = VERIFY_TIMEOUT_MS) {}
+
+  /**
+   * Check that verification can run here (a git repository with at least one commit)
+   */
+  static checkRepository(): string | undefined {
+    try {
+      git(['rev-parse', '--verify', '--quiet', 'HEAD']);
+      return undefined;
+    } catch {
+      return '--verify needs a git repository with at least one commit (the patch is tested in a temporary worktree)';
+    }
+  }
+
+  /**
+   * Apply the patch (paths relative to the current directory) in a temporary worktree and run the command
+   */
+  async verify(patchFile: string, files: string[], baseFiles?: BaseSnapshot): Promise<VerificationResult> {
+    const started = Date.now();
+    const root = git(['rev-parse', '--show-toplevel']).trim();
+    const prefix = git(['rev-parse', '--show-prefix']).trim();
+    const worktree = fs.mkdtempSync(path.join(os.tmpdir(), 'hokipoki-verify-'));
+
+    git(['worktree', 'add', '--quiet', '--detach', worktree, 'HEAD']);
+    try {
+      const workDir = path.join(worktree, prefix);
+      this.copyLocalChanges(root, worktree, files);
+      this.linkDependencies(root, worktree, prefix);
+
+      const problem = this.applyPatch(path.resolve(patchFile), worktree, prefix, baseFiles);
+      if (problem) {
+        return { command: this.command, passed: false, exitCode: null, output: problem, durationMs: Date.now() - started };
+      }
+
+      const run = await this.run(workDir);
+      return { command: this.command, ...run, passed: run.exitCode === 0, durationMs: Date.now() - started };
+    } finally {
+      try {
+        git(['worktree', 'remove', '--force', worktree]);
+      } catch {
+        fs.rmSync(worktree, { recursive: true, force: true });
+        git(['worktree', 'prune']);
+      }
+    }
+  }
+
+  /**
+   * Bring the worktree to the state of the checkout: uncommitted changes to tracked files,
+   * plus the untracked files that were part of the request
+   */
+  private copyLocalChanges(root: string, worktree: string, files: string[]): void {
+    const diff = git(['diff', 'HEAD', '--binary'], root);
+    if (diff.trim()) {
+      git(['apply', '--whitespace=nowarn'], worktree, diff);
+    }
+
+    for (const file of files) {
+      const source = path.resolve(file);
+      const target = path.join(worktree, path.relative(root, source));
+      if (!fs.existsSync(target) && fs.existsSync(source)) {
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.copyFileSync(source, target);
+      }
+    }
+  }
+
+  /**
+   * Installed dependencies are ignored by git, so the worktree has none: link the checkout's
+   */
+  private linkDependencies(root: string, worktree: string, prefix: string): void {
+    const dirs = new Set(['', prefix.replace(/\/$/, '')]);
+    for (const dir of dirs) {
+      const source = path.join(root, dir, 'node_modules');
+      const target = path.join(worktree, dir, 'node_modules');
+      if (fs.existsSync(source) && !fs.existsSync(target)) {
+        fs.symlinkSync(source, target, 'dir');
+      }
+    }
+  }
+
+  /**
+   * Apply the patch, merging three-way if the checkout changed since the upload; returns a problem description
+   */
+  private applyPatch(patch: string, worktree: string, prefix: string, baseFiles?: BaseSnapshot): string | undefined {
+    // Patch paths are relative to the request directory; git applies them from the root
+    const directoryArgs = prefix ? [`--directory=${prefix.replace(/\/$/, '')}`] : [];
+    try {
+      git(['apply', ...directoryArgs, patch], worktree);
+      return undefined;
+    } catch (error: any) {
+      if (!baseFiles || baseFiles.size === 0) {
+        return `The patch does not apply to your checkout:\n${error.stderr?.toString().trim() || error.message}`;
+      }
+    }
+
+    try {
+      const outcome = new ThreeWayMerger(baseFiles, 'provider').merge(patch, path.join(worktree, prefix));
+      if (outcome.conflicts.length > 0) {
+        return 'The patch conflicts with changes made during the task:\n' +
+          outcome.conflicts.map(conflict => `  ${conflict.file} (${conflict.reason})`).join('\n');
+      }
+      return undefined;
+    } catch (error: any) {
+      return error.message;
+    }
+  }
+
+  private run(cwd: string): Promise<{ exitCode: number | null; output: string; timedOut?: boolean }> {
+    return new Promise(resolve => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const collect = (chunk: Buffer) => {
+        chunks.push(chunk);
+        size += chunk.length;
+        while (size > MAX_OUTPUT_BYTES && chunks.length > 1) {
+          size -= chunks.shift()!.length;
+        }
+      };
+
+      // Own process group, so a timeout also stops whatever the shell started
+      const child = spawn(this.command, {
+        cwd,
+        shell: true,
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env, CI: process.env.CI || '1' }
+      });
+      child.stdout.on('data', collect);
+      child.stderr.on('data', collect);
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        try {
+          process.kill(-child.pid!, 'SIGTERM');
+        } catch {
+          child.kill('SIGTERM');
+        }
+      }, this.timeoutMs);
+
+      const finish = (exitCode: number | null, extra = '') => {
+        clearTimeout(timer);
+        let output = Buffer.concat(chunks).toString('utf-8');
+        if (output.length > MAX_OUTPUT_BYTES) {
+          output = '…' + output.slice(-MAX_OUTPUT_BYTES);
+        }
+        if (timedOut) {
+          extra = `\nTimed out after ${Math.round(this.timeoutMs / 1000)}s`;
+        }
+        resolve({ exitCode: timedOut ? null : exitCode, output: (output + extra).trim(), ...(timedOut ? { timedOut } : {}) });
+      };
+      child.on('error', error => finish(null, `\n${error.message}`));
+      child.on('close', code => finish(code));
+    });
+  }
+}
+
+function git(args: string[], cwd?: string, input?: string): string {
+  return execFileSync('git', args, {
+    cwd,
+    input,
+    encoding: 'utf-8',
+    stdio: ['pipe', 'pipe', 'pipe'],
+    maxBuffer: 256 * 1024 * 1024
+  });
+}
@@ -0,0 +1,235 @@
+// Result Store
+// Keeps every result a requester receives in the active profile's results/<id>/ dir, outside
+// the user's repository:
+//
+//   meta.json            task, provider, where it was requested, status, diff stats
+//   changes.patch        code changes (paths relative to the request directory)
+//   ai-output.md         AI_OUTPUT.md written by the provider, if any
+//   commit-message.txt   the provider's commit message(s)
+//   files.json           manifest of the uploaded files
+//   base/                uploaded content of the files the patch touches (three-way merge base)
+//
+// The id is the task ID; fan-out candidates are stored as <taskId>-<n>.
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ProfileManager } from '../../config/profile-manager';
+import { parsePatch } from '../utils/patch';
+import { BaseSnapshot } from './three-way-merge';
+import { ApplyResult } from './patch-applier';
+
+export type ResultStatus =
+  | 'pending'      // Received, not decided yet
+  | 'applied'
+  | 'conflicts'    // Merged with conflict markers left to resolve
+  | 'saved'        // Kept for later
+  | 'rejected'
+  | 'failed'       // Could not be applied, or failed --verify
+  | 'review_only'; // AI output without code changes
+
+export interface ResultMeta {
+  id: string;
+  taskId: string;
+  candidate?: number;
+  description: string;
+  tool: string;
+  model?: string;
+  providerId?: string;
+  workspace?: string;
+  cwd: string;             // Request directory; the patch applies from here
+  baseCommit?: string;
+  applyMode: string;
+  credits?: number;        // Fan-out candidate not charged yet: charged once it is applied
+  charged?: boolean;       // Fan-out candidate whose credits were charged (one per task)
+  status: ResultStatus;
+  summary?: { filesChanged: number; insertions: number; deletions: number };
+  files?: string[];        // Files changed by the patch
+  apply?: ApplyResult;
+  verification?: { command: string; passed: boolean; exitCode: number | null };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UploadedFile {
+  path: string;
+  size: number;
+  blob: string;
+}
+
+export interface ResultArtifacts {
+  diff?: string;
+  aiOutput?: string;
+  commitMessages?: string[];
+  baseFiles?: BaseSnapshot;
+}
+
+export const PATCH_FILE = 'changes.patch';
+const META_FILE = 'meta.json';
+const AI_OUTPUT_FILE = 'ai-output.md';
+const COMMIT_MESSAGE_FILE = 'commit-message.txt';
+const MANIFEST_FILE = 'files.json';
+const BASE_DIR = 'base';
+
+export class ResultStore {
+  private resultsDir: string;
+
+  constructor() {
+    this.resultsDir = path.join(new ProfileManager().getProfileDir(), 'results');
+  }
+
+  /**
+   * Store a result (replacing an earlier one with the same id, e.g. after a follow-up)
+   */
+  async save(meta: Omit<ResultMeta, 'createdAt' | 'updatedAt'>, artifacts: ResultArtifacts): Promise<ResultMeta> {
+    const dir = this.getDir(meta.id);
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+
+    if (artifacts.diff) {
+      await fs.writeFile(path.join(dir, PATCH_FILE), artifacts.diff, 'utf8');
+    }
+    if (artifacts.aiOutput) {
+      await fs.writeFile(path.join(dir, AI_OUTPUT_FILE), artifacts.aiOutput, 'utf8');
+    }
+    if (artifacts.commitMessages?.length) {
+      await fs.writeFile(path.join(dir, COMMIT_MESSAGE_FILE), artifacts.commitMessages.join('\n\n---\n\n') + '\n', 'utf8');
+    }
+    if (artifacts.baseFiles) {
+      const manifest: UploadedFile[] = Array.from(artifacts.baseFiles, ([file, base]) => ({
+        path: file,
+        size: base.content.length,
+        blob: base.blob
+      }));
+      await fs.writeFile(path.join(dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+      for (const file of artifacts.diff ? parsePatch(artifacts.diff) : []) {
+        const base = artifacts.baseFiles.get(file.path);
+        const target = path.join(dir, BASE_DIR, file.path);
+        if (base && target.startsWith(path.join(dir, BASE_DIR) + path.sep)) {
+          await fs.mkdir(path.dirname(target), { recursive: true });
+          await fs.writeFile(target, base.content);
+        }
+      }
+    }
+
+    const now = new Date().toISOString();
+    const stored: ResultMeta = { ...meta, createdAt: now, updatedAt: now };
+    await this.writeMeta(stored);
+    return stored;
+  }
+
+  /**
+   * Merge fields into a stored result's metadata
+   */
+  async update(id: string, update: Partial<Omit<ResultMeta, 'id' | 'createdAt'>>): Promise<ResultMeta | null> {
+    const meta = await this.loadMeta(id);
+    if (!meta) {
+      return null;
+    }
+    const defined = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined));
+    const updated: ResultMeta = { ...meta, ...defined, updatedAt: new Date().toISOString() };
+    await this.writeMeta(updated);
+    return updated;
+  }
+
+  /**
+   * Load a result by full id or unique prefix
+   */
+  async get(idOrPrefix: string): Promise<ResultMeta | null> {
+    const exact = await this.loadMeta(idOrPrefix);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = (await this.listIds()).filter(id => id.startsWith(idOrPrefix));
+    return matches.length === 1 ? this.loadMeta(matches[0]) : null;
+  }
+
+  /**
+   * All stored results, newest first
+   */
+  async list(): Promise<ResultMeta[]> {
+    const results: ResultMeta[] = [];
+    for (const id of await this.listIds()) {
+      const meta = await this.loadMeta(id);
+      if (meta) {
+        results.push(meta);
+      }
+    }
+    return results.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async readArtifacts(id: string): Promise<{ diff?: string; aiOutput?: string; commitMessage?: string; uploaded?: UploadedFile[] }> {
+    const dir = this.getDir(id);
+    const manifest = await readOptional(path.join(dir, MANIFEST_FILE));
+    return {
+      diff: await readOptional(path.join(dir, PATCH_FILE)),
+      aiOutput: await readOptional(path.join(dir, AI_OUTPUT_FILE)),
+      commitMessage: await readOptional(path.join(dir, COMMIT_MESSAGE_FILE)),
+      uploaded: manifest ? JSON.parse(manifest) : undefined
+    };
+  }
+
+  /**
+   * Uploaded content of the files a result's patch touches, for a three-way merge when the
+   * patch no longer applies cleanly
+   */
+  async readBaseFiles(id: string): Promise<BaseSnapshot | undefined> {
+    const dir = this.getDir(id);
+    const manifest = await readOptional(path.join(dir, MANIFEST_FILE));
+    if (!manifest) {
+      return undefined;
+    }
+
+    const baseFiles: BaseSnapshot = new Map();
+    for (const file of JSON.parse(manifest) as UploadedFile[]) {
+      try {
+        baseFiles.set(file.path, { blob: file.blob, content: await fs.readFile(path.join(dir, BASE_DIR, file.path)) });
+      } catch {
+        // Not touched by the patch
+      }
+    }
+    return baseFiles.size > 0 ? baseFiles : undefined;
+  }
+
+  async remove(id: string): Promise<void> {
+    await fs.rm(this.getDir(id), { recursive: true, force: true });
+  }
+
+  getPatchPath(id: string): string {
+    return path.join(this.getDir(id), PATCH_FILE);
+  }
+
+  getDir(id: string): string {
+    // IDs come from the relay; strip anything that could escape the results dir
+    return path.join(this.resultsDir, path.basename(id));
+  }
+
+  private async writeMeta(meta: ResultMeta): Promise<void> {
+    await fs.writeFile(path.join(this.getDir(meta.id), META_FILE), JSON.stringify(meta, null, 2));
+  }
+
+  private async loadMeta(id: string): Promise<ResultMeta | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.getDir(id), META_FILE), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private async listIds(): Promise<string[]> {
+    try {
+      return await fs.readdir(this.resultsDir);
+    } catch {
+      return [];
+    }
+  }
+}
+
+async function readOptional(file: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(file, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
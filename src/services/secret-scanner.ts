@@ -0,0 +1,307 @@
+// Secret Scanner
+// Checks files (and other uploaded text) for credentials before they reach a provider's machine:
+// known key formats (AWS, GitHub, OpenAI, PEM private keys), high-entropy values
+// assigned to secret-looking names, and dotenv files.
+//
+// Findings can be suppressed with an allowlist file (.hokipoki-allowlist):
+//   tests/fixtures/**        ignore findings in matching paths
+//   rule:high-entropy        disable a rule
+//   fingerprint:1a2b3c4d5e6f allow one specific value (fingerprints are shown in findings)
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { globToRegExp } from '../utils/glob-match';
+
+export const DEFAULT_ALLOWLIST_FILE = '.hokipoki-allowlist';
+
+export interface SecretFinding {
+  file: string;
+  line: number;
+  rule: string;
+  description: string;
+  preview: string;      // Masked value, safe to print
+  fingerprint: string;  // Stable ID of the value, for the allowlist
+  secret: string;       // Raw value (never printed; used for redaction)
+}
+
+interface SecretRule {
+  id: string;
+  description: string;
+  pattern: RegExp;      // Group 1 (if any) is the secret, otherwise the whole match
+  minEntropy?: number;
+}
+
+const RULES: SecretRule[] = [
+  {
+    id: 'private-key',
+    description: 'PEM private key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g
+  },
+  {
+    id: 'aws-access-key-id',
+    description: 'AWS access key ID',
+    pattern: /\b((?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA)[0-9A-Z]{16})\b/g
+  },
+  {
+    id: 'aws-secret-access-key',
+    description: 'AWS secret access key',
+    pattern: /aws_?secret_?(?:access_?)?key\w*['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g
+  },
+  {
+    id: 'openai-api-key',
+    description: 'OpenAI API key',
+    pattern: /\b(sk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}T3BlbkFJ[A-Za-z0-9_-]{20,}|sk-(?:proj|svcacct|admin)-[A-Za-z0-9_-]{40,})\b/g
+  },
+  {
+    id: 'high-entropy',
+    description: 'High-entropy value assigned to a secret-like name',
+    pattern: /(?:key|token|secret|passw(?:or)?d|pwd|credential|auth)\w*['"]?\s*[:=]\s*['"`]?([A-Za-z0-9+/=_\-.]{20,})['"`]?/gi,
+    minEntropy: 3.5
+  }
+];
+
+// Lockfiles and minified bundles are full of hashes; only the format rules apply there
+const ENTROPY_EXEMPT = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|[^/]+\.lock|[^/]+\.min\.js|[^/]+\.map)$/;
+const DOTENV_FILE = /(^|\/)\.env(\.[^/]+)?$/;
+const DOTENV_TEMPLATE = /\.(example|sample|template|dist|defaults)$/;
+const MAX_SCAN_BYTES = 2 * 1024 * 1024;
+
+export interface SkippedFile {
+  file: string;
+  reason: 'binary' | 'too_large';
+}
+
+interface Allowlist {
+  paths: RegExp[];
+  rules: Set<string>;
+  fingerprints: Set<string>;
+}
+
+export class SecretScanner {
+  private allowlist: Allowlist;
+  // Files the last scan() could not check (binary or over 2 MB); they are still uploaded
+  skipped: SkippedFile[] = [];
+
+  constructor(allowlistFile: string = path.join(process.cwd(), DEFAULT_ALLOWLIST_FILE)) {
+    this.allowlist = this.loadAllowlist(allowlistFile);
+  }
+
+  /**
+   * Scan files (paths relative to the current directory) and return allowed-through findings
+   */
+  scan(files: string[]): SecretFinding[] {
+    const findings: SecretFinding[] = [];
+    this.skipped = [];
+
+    for (const file of files) {
+      const relative = file.split(path.sep).join('/');
+      if (this.allowlist.paths.some(pattern => pattern.test(relative))) {
+        continue;
+      }
+
+      let content: string;
+      try {
+        const buffer = fs.readFileSync(path.resolve(file));
+        if (buffer.length > MAX_SCAN_BYTES || buffer.includes(0)) {
+          this.skipped.push({ file, reason: buffer.length > MAX_SCAN_BYTES ? 'too_large' : 'binary' });
+          continue;
+        }
+        content = buffer.toString('utf-8');
+      } catch {
+        continue;
+      }
+
+      findings.push(...this.scanContent(file, content));
+    }
+
+    return this.filterAllowed(findings);
+  }
+
+  /**
+   * Scan text that is uploaded without being a file (e.g. a git diff in the task description);
+   * findings are reported under `label`
+   */
+  scanText(label: string, text: string): SecretFinding[] {
+    return this.filterAllowed(this.scanContent(label, text));
+  }
+
+  private filterAllowed(findings: SecretFinding[]): SecretFinding[] {
+    return findings.filter(finding =>
+      !this.allowlist.rules.has(finding.rule) && !this.allowlist.fingerprints.has(finding.fingerprint)
+    );
+  }
+
+  private scanContent(file: string, content: string): SecretFinding[] {
+    const findings: SecretFinding[] = [];
+    const seen = new Set<string>();
+    const add = (rule: string, description: string, secret: string, index: number) => {
+      const key = `${rule}:${secret}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      findings.push({
+        file,
+        line: content.slice(0, index).split('\n').length,
+        rule,
+        description,
+        preview: this.mask(secret),
+        fingerprint: fingerprint(secret),
+        secret
+      });
+    };
+
+    if (DOTENV_FILE.test(file) && !DOTENV_TEMPLATE.test(file)) {
+      const pattern = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(['"]?)(.+?)\2\s*$/gm;
+      for (const match of content.matchAll(pattern)) {
+        if (match[3].trim()) {
+          add('dotenv', `dotenv value (${match[1]})`, match[3], match.index! + match[0].indexOf(match[3]));
+        }
+      }
+    }
+
+    for (const rule of RULES) {
+      if (rule.minEntropy && ENTROPY_EXEMPT.test(file)) continue;
+
+      for (const match of content.matchAll(rule.pattern)) {
+        const secret = match[1] ?? match[0];
+        if (rule.minEntropy && (shannonEntropy(secret) < rule.minEntropy || isPlaceholder(secret))) continue;
+        add(rule.id, rule.description, secret, match.index! + match[0].indexOf(secret));
+      }
+    }
+
+    // A value flagged by a specific rule shouldn't be reported again as generic entropy
+    const specific = new Set(findings.filter(f => f.rule !== 'high-entropy').map(f => f.secret));
+    return findings
+      .filter(f => f.rule !== 'high-entropy' || !specific.has(f.secret))
+      .sort((a, b) => a.line - b.line);
+  }
+
+  private mask(secret: string): string {
+    if (secret.startsWith('-----BEGIN')) {
+      return secret.split('\n')[0];
+    }
+    if (secret.length <= 8) {
+      return '*'.repeat(secret.length);
+    }
+    return `${secret.slice(0, 4)}${'*'.repeat(Math.min(secret.length - 8, 12))}${secret.slice(-4)}`;
+  }
+
+  private loadAllowlist(file: string): Allowlist {
+    const allowlist: Allowlist = { paths: [], rules: new Set(), fingerprints: new Set() };
+
+    let content = '';
+    try {
+      content = fs.readFileSync(file, 'utf-8');
+    } catch {
+      return allowlist;
+    }
+
+    for (const raw of content.split('\n')) {
+      const line = raw.trim();
+      if (!line || line.startsWith('#')) continue;
+
+      if (line.startsWith('rule:')) {
+        allowlist.rules.add(line.slice(5).trim());
+      } else if (line.startsWith('fingerprint:')) {
+        allowlist.fingerprints.add(line.slice(12).trim());
+      } else {
+        // Patterns without a slash match at any depth, like .gitignore
+        const pattern = line.replace(/^\//, '').replace(/\/$/, '/**');
+        allowlist.paths.push(globToRegExp(line.replace(/\/$/, '').includes('/') ? pattern : `**/${pattern}`));
+      }
+    }
+
+    return allowlist;
+  }
+}
+
+/**
+ * Replaces secrets with placeholders for upload and puts them back into returned patches
+ */
+export class SecretRedactor {
+  private placeholders = new Map<string, string>();  // secret -> placeholder
+
+  /**
+   * With `saved` (placeholders of an earlier upload, see describe), secrets found again get
+   * their earlier placeholder so content uploaded back then can still be restored
+   */
+  constructor(findings: SecretFinding[], saved?: Array<{ placeholder: string; fingerprint: string }>) {
+    if (saved) {
+      for (const { placeholder, fingerprint } of saved) {
+        const finding = findings.find(f => f.fingerprint === fingerprint);
+        if (finding) {
+          this.placeholders.set(finding.secret, placeholder);
+        }
+      }
+      return;
+    }
+
+    // Longest first, so a secret containing another one is replaced whole
+    const secrets = Array.from(new Set(findings.map(f => f.secret))).sort((a, b) => b.length - a.length);
+    secrets.forEach((secret, i) => this.placeholders.set(secret, `__HOKIPOKI_REDACTED_${i + 1}__`));
+  }
+
+  get count(): number {
+    return this.placeholders.size;
+  }
+
+  /**
+   * Placeholders with the fingerprint of the secret they stand for (safe to store)
+   */
+  describe(): Array<{ placeholder: string; fingerprint: string }> {
+    return Array.from(this.placeholders, ([secret, placeholder]) => ({ placeholder, fingerprint: fingerprint(secret) }));
+  }
+
+  /**
+   * Redacted contents of every file that contains a finding, keyed by path
+   */
+  redactFiles(findings: SecretFinding[]): Map<string, string> {
+    const contents = new Map<string, string>();
+    for (const file of new Set(findings.map(f => f.file))) {
+      contents.set(file, this.redact(fs.readFileSync(path.resolve(file), 'utf-8')));
+    }
+    return contents;
+  }
+
+  redact(text: string): string {
+    let result = text;
+    for (const [secret, placeholder] of this.placeholders) {
+      result = result.split(secret).join(placeholder);
+    }
+    return result;
+  }
+
+  restore(text: string): string {
+    let result = text;
+    for (const [secret, placeholder] of this.placeholders) {
+      result = result.split(placeholder).join(secret);
+    }
+    return result;
+  }
+}
+
+function fingerprint(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex').slice(0, 12);
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function isPlaceholder(value: string): boolean {
+  return /^(x+|\*+|your[_-]|changeme|example|placeholder|__HOKIPOKI_REDACTED_)/i.test(value) || /^[a-z_.]+$/i.test(value);
+}
@@ -0,0 +1,118 @@
+// Local Task History
+// Keeps a record of every task in the active profile's history/ dir so history works offline
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ProfileManager } from '../../config/profile-manager';
+
+export type TaskRole = 'requester' | 'provider';
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+
+export interface TaskRecord {
+  id: string;
+  role: TaskRole;
+  tool: string;
+  model?: string;
+  description: string;
+  status: TaskStatus;
+  workspaceId?: string;
+  workspace?: string;     // Workspace name when known
+  providerId?: string;
+  createdAt: string;
+  completedAt?: string;
+  files?: string[];       // Files uploaded to the ephemeral repo
+  diff?: string;          // Resulting code changes
+  aiOutput?: string;      // AI_OUTPUT.md content
+  summary?: string;       // Commit message captured from the executor
+  credits?: number;
+  source?: 'local' | 'backend' | 'both';
+}
+
+export type TaskRecordUpdate = Partial<TaskRecord> & { id: string };
+
+export class TaskHistory {
+  private historyDir: string;
+
+  constructor() {
+    this.historyDir = path.join(new ProfileManager().getProfileDir(), 'history');
+  }
+
+  /**
+   * Create or update a task record (fields are merged into the existing record)
+   */
+  async record(update: TaskRecordUpdate): Promise<TaskRecord> {
+    const existing = await this.load(update.id);
+    const defined = Object.fromEntries(
+      Object.entries(update).filter(([, value]) => value !== undefined)
+    );
+
+    const record: TaskRecord = {
+      role: 'requester',
+      tool: 'unknown',
+      description: '',
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+      ...existing,
+      ...defined,
+      source: 'local'
+    } as TaskRecord;
+
+    await fs.mkdir(this.historyDir, { recursive: true });
+    await fs.writeFile(this.getRecordPath(record.id), JSON.stringify(record, null, 2));
+    return record;
+  }
+
+  /**
+   * Load a record by full ID or unique prefix
+   */
+  async get(idOrPrefix: string): Promise<TaskRecord | null> {
+    const exact = await this.load(idOrPrefix);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = (await this.listIds()).filter(id => id.startsWith(idOrPrefix));
+    if (matches.length === 1) {
+      return this.load(matches[0]);
+    }
+    return null;
+  }
+
+  /**
+   * List all local records, newest first
+   */
+  async list(): Promise<TaskRecord[]> {
+    const records: TaskRecord[] = [];
+    for (const id of await this.listIds()) {
+      const record = await this.load(id);
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private async listIds(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.historyDir);
+      return entries
+        .filter(name => name.endsWith('.json'))
+        .map(name => name.slice(0, -'.json'.length));
+    } catch {
+      return [];
+    }
+  }
+
+  private async load(id: string): Promise<TaskRecord | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.getRecordPath(id), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private getRecordPath(id: string): string {
+    // Task IDs come from the relay; strip anything that could escape the history dir
+    return path.join(this.historyDir, `${path.basename(id)}.json`);
+  }
+}
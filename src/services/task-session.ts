@@ -0,0 +1,101 @@
+// Task Sessions
+// Keeps what a follow-up (`hokipoki request --continue <taskId>`) needs once a task has finished:
+// a git bundle of the ephemeral repo (the uploaded snapshot plus the provider's commits, with
+// secrets still redacted) and the task's metadata. Stored in the active profile's sessions/ dir.
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ProfileManager } from '../../config/profile-manager';
+
+export interface TaskSession {
+  taskId: string;
+  rootTaskId: string;        // First task of a chain of follow-ups
+  providerId?: string;
+  tool: string;
+  model?: string;
+  instructions: string[];    // The original task, then each follow-up
+  files: string[];           // Uploaded files, relative to cwd
+  cwd: string;
+  baseCommit?: string;
+  redactions: Array<{ placeholder: string; fingerprint: string }>;
+  savedAt: string;
+}
+
+// Sessions older than this are removed whenever a new one is saved
+const SESSION_MAX_AGE_DAYS = 14;
+const BUNDLE_FILE = 'repo.bundle';
+const SESSION_FILE = 'session.json';
+
+export class TaskSessionStore {
+  private sessionsDir: string;
+
+  constructor() {
+    this.sessionsDir = path.join(new ProfileManager().getProfileDir(), 'sessions');
+  }
+
+  /**
+   * Save a session together with a bundle of every ref in the (bare) ephemeral repo
+   */
+  async save(session: TaskSession, repoPath: string): Promise<void> {
+    const dir = this.getSessionDir(session.taskId);
+    await fs.mkdir(dir, { recursive: true });
+    execFileSync('git', ['--git-dir', repoPath, 'bundle', 'create', path.join(dir, BUNDLE_FILE), '--all'], {
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+    await fs.writeFile(path.join(dir, SESSION_FILE), JSON.stringify(session, null, 2));
+    await this.prune();
+  }
+
+  /**
+   * Load a session by full task ID or unique prefix
+   */
+  async get(idOrPrefix: string): Promise<{ session: TaskSession; bundlePath: string } | null> {
+    let ids = await this.listIds();
+    if (!ids.includes(idOrPrefix)) {
+      ids = ids.filter(id => id.startsWith(idOrPrefix));
+      if (ids.length !== 1) {
+        return null;
+      }
+    } else {
+      ids = [idOrPrefix];
+    }
+
+    const dir = this.getSessionDir(ids[0]);
+    try {
+      const session: TaskSession = JSON.parse(await fs.readFile(path.join(dir, SESSION_FILE), 'utf8'));
+      const bundlePath = path.join(dir, BUNDLE_FILE);
+      await fs.access(bundlePath);
+      return { session, bundlePath };
+    } catch {
+      return null;
+    }
+  }
+
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - SESSION_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+    for (const id of await this.listIds()) {
+      try {
+        const stat = await fs.stat(path.join(this.getSessionDir(id), SESSION_FILE));
+        if (stat.mtimeMs < cutoff) {
+          await fs.rm(this.getSessionDir(id), { recursive: true, force: true });
+        }
+      } catch {
+        // Incomplete session dir; leave it
+      }
+    }
+  }
+
+  private async listIds(): Promise<string[]> {
+    try {
+      return await fs.readdir(this.sessionsDir);
+    } catch {
+      return [];
+    }
+  }
+
+  private getSessionDir(id: string): string {
+    // Task IDs come from the relay; strip anything that could escape the sessions dir
+    return path.join(this.sessionsDir, path.basename(id));
+  }
+}
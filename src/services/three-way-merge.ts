@@ -0,0 +1,172 @@
+// Three-Way Merge
+// Applies a provider's patch to files that were edited while the task ran. The patch is
+// applied to the content that was uploaded (the base), and the result is merged into the
+// current file with `git merge-file`. Where both sides changed the same lines, conflict
+// markers are left in the file.
+
+import { execFileSync } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parsePatch } from '../utils/patch';
+
+export interface BaseFile {
+  blob: string;     // Git blob id of the uploaded content
+  content: Buffer;
+}
+
+// Uploaded files keyed by their path in the patch (relative to the request directory)
+export type BaseSnapshot = Map<string, BaseFile>;
+
+export interface MergeConflict {
+  file: string;
+  reason: string;
+}
+
+export interface MergeOutcome {
+  merged: string[];
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Git blob id for some content, as `git hash-object` computes it
+ */
+export function blobId(content: Buffer): string {
+  return crypto.createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+}
+
+export class ThreeWayMerger {
+  constructor(private base: BaseSnapshot, private theirsLabel: string) {}
+
+  /**
+   * Merge a patch into the files under `rootDir`. Throws if the patch doesn't even apply
+   * to the uploaded content (then there is nothing sensible to merge).
+   */
+  merge(patchFile: string, rootDir: string = process.cwd()): MergeOutcome {
+    const files = parsePatch(fs.readFileSync(patchFile, 'utf-8'));
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hokipoki-merge-'));
+    const baseDir = path.join(tempDir, 'base');
+    const theirsDir = path.join(tempDir, 'theirs');
+    const outcome: MergeOutcome = { merged: [], conflicts: [] };
+
+    try {
+      for (const file of files) {
+        const base = this.base.get(file.path);
+        if (base) {
+          writeFile(path.join(baseDir, file.path), base.content);
+          writeFile(path.join(theirsDir, file.path), base.content);
+        }
+      }
+
+      try {
+        execFileSync('git', ['apply', path.resolve(patchFile)], {
+          cwd: theirsDir,
+          stdio: ['ignore', 'pipe', 'pipe'],
+          env: { ...process.env, GIT_CEILING_DIRECTORIES: tempDir }
+        });
+      } catch (error: any) {
+        throw new Error(`The patch does not apply to the uploaded files: ${error.stderr?.toString().trim() || error.message}`);
+      }
+
+      for (const file of files) {
+        const target = path.join(rootDir, file.path);
+        const basePath = path.join(baseDir, file.path);
+        const theirsPath = path.join(theirsDir, file.path);
+        const ours = readFile(target);
+        const base = readFile(basePath);
+        const theirs = readFile(theirsPath);
+
+        if (theirs === undefined) {
+          // Deleted by the provider
+          if (ours === undefined) {
+            continue;
+          }
+          if (base !== undefined && ours.equals(base)) {
+            fs.unlinkSync(target);
+            outcome.merged.push(file.path);
+          } else {
+            outcome.conflicts.push({ file: file.path, reason: 'deleted by the provider, modified locally' });
+          }
+          continue;
+        }
+
+        if (ours === undefined) {
+          if (base === undefined) {
+            writeFile(target, theirs);
+            outcome.merged.push(file.path);
+          } else {
+            outcome.conflicts.push({ file: file.path, reason: 'modified by the provider, deleted locally' });
+          }
+          continue;
+        }
+
+        if (ours.equals(theirs) || (base !== undefined && ours.equals(base))) {
+          fs.writeFileSync(target, theirs);
+          outcome.merged.push(file.path);
+          continue;
+        }
+
+        // New files may already have been created from the diff (without the final newline)
+        if (base === undefined && ours.toString('utf-8').trimEnd() === theirs.toString('utf-8').trimEnd()) {
+          fs.writeFileSync(target, theirs);
+          outcome.merged.push(file.path);
+          continue;
+        }
+
+        if (file.isBinary) {
+          outcome.conflicts.push({ file: file.path, reason: 'binary file changed on both sides' });
+          continue;
+        }
+
+        if (base === undefined) {
+          writeFile(basePath, Buffer.alloc(0));
+        }
+        const conflicts = this.mergeFile(target, basePath, theirsPath);
+        outcome.merged.push(file.path);
+        if (conflicts > 0) {
+          outcome.conflicts.push({ file: file.path, reason: `${conflicts} conflicting change(s), see the conflict markers` });
+        }
+      }
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Merge in place into `ours`; returns the number of conflicts
+   */
+  private mergeFile(ours: string, base: string, theirs: string): number {
+    try {
+      execFileSync('git', [
+        'merge-file', '-L', 'working tree', '-L', 'uploaded', '-L', this.theirsLabel,
+        ours, base, theirs
+      ], { stdio: ['ignore', 'pipe', 'pipe'] });
+      return 0;
+    } catch (error: any) {
+      // Exit status is the number of conflicts; negative (>127) means git failed
+      if (typeof error.status === 'number' && error.status > 0 && error.status < 128) {
+        return error.status;
+      }
+      throw error;
+    }
+  }
+}
+
+function readFile(file: string): Buffer | undefined {
+  try {
+    return fs.readFileSync(file);
+  } catch {
+    return undefined;
+  }
+}
+
+function writeFile(file: string, content: Buffer): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+}
@@ -0,0 +1,147 @@
+// Upload Budget
+// Caps what a request uploads (files, bytes, approximate tokens) and decides what to
+// keep when a selection is too large: explicitly named files first, then --with-deps
+// imports, then recently changed files, then everything else.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface UploadBudget {
+  maxFiles: number;
+  maxBytes: number;
+  maxTokens: number;
+}
+
+export type UploadPriority = 'explicit' | 'dependency' | 'recent' | 'other';
+
+export interface UploadPlan {
+  kept: string[];
+  trimmed: Array<{ file: string; priority: UploadPriority; bytes: number }>;
+  totals: { files: number; bytes: number; tokens: number };
+  budget: UploadBudget;
+  overBudget: boolean;  // Explicit files alone exceed the budget (they are never trimmed)
+}
+
+export const DEFAULT_UPLOAD_BUDGET: UploadBudget = {
+  maxFiles: 500,
+  maxBytes: 5 * 1024 * 1024,
+  maxTokens: 1_000_000
+};
+
+const PRIORITY_ORDER: UploadPriority[] = ['explicit', 'dependency', 'recent', 'other'];
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+const COUNT_UNITS: Record<string, number> = { '': 1, k: 1000, m: 1000 ** 2 };
+
+export class UploadBudgetPlanner {
+  constructor(private budget: UploadBudget = DEFAULT_UPLOAD_BUDGET) {}
+
+  /**
+   * Parse a budget such as "files=200,size=2MB,tokens=300k". A bare size ("2MB") sets
+   * the byte limit and a bare number ("200") the file limit; unset limits keep their defaults.
+   */
+  static parse(spec: string): UploadBudget {
+    const budget = { ...DEFAULT_UPLOAD_BUDGET };
+
+    for (const part of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+      const [rawKey, rawValue] = part.includes('=') ? part.split('=', 2) : ['', part];
+      const key = rawKey.trim().toLowerCase();
+      const value = rawValue.trim().toLowerCase();
+
+      if (key === 'size' || key === 'bytes' || (!key && /[a-z]$/.test(value) && parseSize(value) !== undefined)) {
+        budget.maxBytes = required(parseSize(value), part);
+      } else if (key === 'files' || (!key && /^\d+$/.test(value))) {
+        budget.maxFiles = required(parseCount(value), part);
+      } else if (key === 'tokens') {
+        budget.maxTokens = required(parseCount(value), part);
+      } else {
+        throw new Error(`Invalid upload budget "${part}" (expected files=N, size=N[KB|MB|GB] or tokens=N[k|m])`);
+      }
+    }
+
+    return budget;
+  }
+
+  /**
+   * Approximate token count for a file of the given size (~4 bytes per token)
+   */
+  static estimateTokens(bytes: number): number {
+    return Math.ceil(bytes / 4);
+  }
+
+  /**
+   * Keep files in priority order while they fit; files that don't fit are skipped so smaller
+   * lower-priority files can still use the remaining budget
+   */
+  plan(files: string[], priorities: Map<string, UploadPriority>, recentOrder: string[] = []): UploadPlan {
+    const recentRank = new Map(recentOrder.map((file, i) => [file, i]));
+    const rank = (file: string) => PRIORITY_ORDER.indexOf(priorities.get(file) || 'other');
+    const ordered = files
+      .map((file, i) => ({ file, i }))
+      .sort((a, b) =>
+        rank(a.file) - rank(b.file) ||
+        (recentRank.get(a.file) ?? Infinity) - (recentRank.get(b.file) ?? Infinity) ||
+        a.i - b.i
+      )
+      .map(({ file }) => file);
+
+    const kept: string[] = [];
+    const trimmed: UploadPlan['trimmed'] = [];
+    const totals = { files: 0, bytes: 0, tokens: 0 };
+    let overBudget = false;
+
+    for (const file of ordered) {
+      const priority = priorities.get(file) || 'other';
+      const bytes = fileSize(file);
+      const tokens = UploadBudgetPlanner.estimateTokens(bytes);
+      const fits = totals.files + 1 <= this.budget.maxFiles &&
+        totals.bytes + bytes <= this.budget.maxBytes &&
+        totals.tokens + tokens <= this.budget.maxTokens;
+
+      if (!fits && priority !== 'explicit') {
+        trimmed.push({ file, priority, bytes });
+        continue;
+      }
+      if (!fits) {
+        overBudget = true;
+      }
+
+      kept.push(file);
+      totals.files++;
+      totals.bytes += bytes;
+      totals.tokens += tokens;
+    }
+
+    return { kept, trimmed, totals, budget: this.budget, overBudget };
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+}
+
+function fileSize(file: string): number {
+  try {
+    return fs.statSync(path.resolve(file)).size;
+  } catch {
+    return 0;
+  }
+}
+
+function parseSize(value: string): number | undefined {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/);
+  return match ? Math.floor(parseFloat(match[1]) * SIZE_UNITS[match[2] || 'b']) : undefined;
+}
+
+function parseCount(value: string): number | undefined {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(k|m)?$/);
+  return match ? Math.floor(parseFloat(match[1]) * COUNT_UNITS[match[2] || '']) : undefined;
+}
+
+function required(value: number | undefined, part: string): number {
+  if (value === undefined || value <= 0) {
+    throw new Error(`Invalid upload budget "${part}"`);
+  }
+  return value;
+}
@@ -0,0 +1,181 @@
+// Workspace Service
+// Workspace API calls plus a per-profile cache of the user's memberships,
+// so requests and listen don't hit /profile on every run
+
+import * as fs from 'fs/promises';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { KeycloakManager } from '../../auth/keycloak-manager';
+import { ConfigManager } from '../../config/config-manager';
+import { ProfileManager } from '../../config/profile-manager';
+
+// Memberships rarely change; `workspace list --refresh` forces a fetch
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+export interface Workspace {
+  id: string;
+  name: string;
+  isPersonal?: boolean;
+  role?: string;
+  memberCount?: number;
+}
+
+export interface WorkspaceMember {
+  id?: string;
+  email: string;
+  name?: string;
+  role?: string;
+  status?: string;      // e.g. 'active' or 'invited'
+}
+
+export interface WorkspaceCache {
+  userId?: string;
+  activeWorkspaceId?: string;   // Backend's notion of the user's active workspace
+  workspaces: Workspace[];
+  fetchedAt: string;
+}
+
+export class WorkspaceService {
+  private keycloakManager: KeycloakManager;
+  private apiUrl: string;
+  private cachePath: string;
+
+  constructor() {
+    this.keycloakManager = new KeycloakManager();
+    this.apiUrl = new ConfigManager().getApiUrl();
+    this.cachePath = path.join(new ProfileManager().getProfileDir(), 'workspaces.json');
+  }
+
+  /**
+   * User's workspaces, from cache when fresh (falls back to a stale cache if the backend is unreachable)
+   */
+  async getWorkspaces(options: { refresh?: boolean } = {}): Promise<WorkspaceCache> {
+    const cached = await this.readCache();
+    if (cached && !options.refresh) {
+      const age = Date.now() - new Date(cached.fetchedAt).getTime();
+      if (age < CACHE_TTL_MS) {
+        return cached;
+      }
+    }
+
+    try {
+      return await this.fetchAndCache();
+    } catch (error) {
+      if (cached) {
+        return cached;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cached workspaces without any network access or awaiting (used by shell completion)
+   */
+  getCachedWorkspaces(): Workspace[] {
+    try {
+      const cache: WorkspaceCache = JSON.parse(readFileSync(this.cachePath, 'utf8'));
+      return cache.workspaces || [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Find a workspace by name or ID, refreshing once if the cache doesn't know it
+   */
+  async find(nameOrId: string): Promise<Workspace | undefined> {
+    const match = (list: Workspace[]) =>
+      list.find(w => w.name === nameOrId) || list.find(w => w.id === nameOrId);
+
+    const { workspaces } = await this.getWorkspaces();
+    const found = match(workspaces);
+    if (found) {
+      return found;
+    }
+    return match((await this.getWorkspaces({ refresh: true })).workspaces);
+  }
+
+  async create(name: string): Promise<Workspace> {
+    const workspace = await this.request<Workspace>('POST', '/workspaces', { name });
+    await this.clearCache();
+    return workspace;
+  }
+
+  async invite(workspaceId: string, email: string): Promise<void> {
+    await this.request('POST', `/workspaces/${encodeURIComponent(workspaceId)}/invitations`, { email });
+  }
+
+  async getMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    const data = await this.request<WorkspaceMember[] | { members: WorkspaceMember[] }>(
+      'GET',
+      `/workspaces/${encodeURIComponent(workspaceId)}/members`
+    );
+    return Array.isArray(data) ? data : (data.members || []);
+  }
+
+  async clearCache(): Promise<void> {
+    try {
+      await fs.unlink(this.cachePath);
+    } catch {
+      // No cache
+    }
+  }
+
+  private async fetchAndCache(): Promise<WorkspaceCache> {
+    const data = await this.request<{
+      id: string;
+      workspaceId?: string;
+      workspaces?: Workspace[];
+    }>('GET', '/profile');
+
+    const cache: WorkspaceCache = {
+      userId: data.id,
+      activeWorkspaceId: data.workspaceId || undefined,
+      workspaces: (data.workspaces || []).map(w => ({
+        id: w.id,
+        name: w.name,
+        isPersonal: w.isPersonal,
+        role: w.role,
+        memberCount: w.memberCount
+      })),
+      fetchedAt: new Date().toISOString()
+    };
+
+    await fs.mkdir(path.dirname(this.cachePath), { recursive: true });
+    await fs.writeFile(this.cachePath, JSON.stringify(cache, null, 2));
+    return cache;
+  }
+
+  private async readCache(): Promise<WorkspaceCache | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.cachePath, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private async request<T>(method: 'GET' | 'POST', endpoint: string, body?: unknown): Promise<T> {
+    const token = await this.keycloakManager.getToken();
+    const response = await fetch(`${this.apiUrl}${endpoint}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        ...(body ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      let message = `${method} ${endpoint} failed (${response.status})`;
+      try {
+        const error = await response.json() as { error?: string; message?: string };
+        message = error.error || error.message || message;
+      } catch {
+        // Non-JSON error body
+      }
+      throw new Error(message);
+    }
+
+    return await response.json() as T;
+  }
+}
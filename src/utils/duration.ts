@@ -0,0 +1,17 @@
+// Durations
+// Parses the short durations used by timeout flags and config keys ("90s", "10m", "2h")
+
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000 };
+
+/**
+ * Milliseconds for "<n>s", "<n>m" or "<n>h"; "0" means no limit. Undefined if invalid.
+ */
+export function parseDuration(value: string): number | undefined {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === '0') {
+    return 0;
+  }
+
+  const match = trimmed.match(/^(\d+(?:\.\d+)?)\s*([smh])$/);
+  return match ? Math.round(parseFloat(match[1]) * UNIT_MS[match[2]]) : undefined;
+}
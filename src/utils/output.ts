@@ -0,0 +1,90 @@
+// Output Layer
+// Global `--output table|json|ndjson` handling shared by every command
+//
+// - table:  the human, emoji-decorated format (default)
+// - json:   one stable JSON document per command result
+// - ndjson: one JSON object per line, including lifecycle events from `listen`/`request`
+//
+// In json/ndjson mode stdout carries only machine output: human text that commands
+// print with console.log is routed to stderr, and colors are turned off.
+
+import chalk from 'chalk';
+
+export type OutputFormat = 'table' | 'json' | 'ndjson';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'ndjson'];
+
+let currentFormat: OutputFormat | undefined;
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Disable colors for NO_COLOR (https://no-color.org) and non-TTY stdout, unless FORCE_COLOR is set
+ */
+export function configureColor(): void {
+  if (process.env.FORCE_COLOR) {
+    return;
+  }
+  if (process.env.NO_COLOR || !process.stdout.isTTY) {
+    chalk.level = 0;
+  }
+}
+
+/**
+ * Select the output format for this run (called once, before the command action)
+ */
+export function configureOutput(format: OutputFormat): void {
+  currentFormat = format;
+  process.env.HOKIPOKI_OUTPUT = format;
+
+  if (format !== 'table') {
+    chalk.level = 0;
+    // Keep stdout parseable: human progress text goes to stderr
+    console.log = console.error;
+    console.info = console.error;
+  }
+}
+
+/**
+ * Effective format: --output / HOKIPOKI_OUTPUT, then a command's own --json flag, then table
+ */
+export function getOutputFormat(options: { json?: boolean } = {}): OutputFormat {
+  const format = currentFormat || process.env.HOKIPOKI_OUTPUT;
+  if (format && format !== 'table' && isOutputFormat(format)) {
+    return format;
+  }
+  return options.json ? 'json' : 'table';
+}
+
+export function isStructuredOutput(options: { json?: boolean } = {}): boolean {
+  return getOutputFormat(options) !== 'table';
+}
+
+/**
+ * Print a command's result on stdout: one JSON document, or in ndjson mode
+ * a `result` event per object (arrays become one line per item)
+ */
+export function printResult(data: unknown): void {
+  if (getOutputFormat() !== 'ndjson') {
+    process.stdout.write(JSON.stringify(data) + '\n');
+    return;
+  }
+
+  const items = Array.isArray(data) ? data : [data];
+  for (const item of items) {
+    const fields = item && typeof item === 'object' ? item : { value: item };
+    emitEvent('result', fields as Record<string, unknown>);
+  }
+}
+
+/**
+ * Emit a lifecycle event (ndjson only; a no-op in table and json mode)
+ */
+export function emitEvent(event: string, data: Record<string, unknown> = {}): void {
+  if (getOutputFormat() !== 'ndjson') {
+    return;
+  }
+  process.stdout.write(JSON.stringify({ event, timestamp: new Date().toISOString(), ...data }) + '\n');
+}
@@ -0,0 +1,128 @@
+// Unified Diff Helpers
+// Splits a git patch into files and hunks and rebuilds patches from a subset of hunks
+// (used by the hunk-by-hunk review)
+
+export interface PatchHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  context: string;   // Text after the closing @@ (usually the enclosing function)
+  lines: string[];   // Body lines, each starting with ' ', '+', '-' or '\'
+}
+
+export interface PatchFile {
+  path: string;
+  header: string[];  // "diff --git", mode/index lines and the ---/+++ lines
+  hunks: PatchHunk[];
+  isNew: boolean;
+  isDeleted: boolean;
+  isBinary: boolean;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+export function parsePatch(diff: string): PatchFile[] {
+  const files: PatchFile[] = [];
+  let file: PatchFile | undefined;
+  let hunk: PatchHunk | undefined;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const match = line.match(/^diff --git a\/(.*) b\/(.*)$/);
+      file = {
+        path: match ? match[2] : line.slice(11),
+        header: [line],
+        hunks: [],
+        isNew: false,
+        isDeleted: false,
+        isBinary: false
+      };
+      hunk = undefined;
+      files.push(file);
+      continue;
+    }
+    if (!file) {
+      continue;
+    }
+
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch) {
+      hunk = {
+        oldStart: parseInt(hunkMatch[1], 10),
+        oldLines: hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1,
+        newStart: parseInt(hunkMatch[3], 10),
+        newLines: hunkMatch[4] !== undefined ? parseInt(hunkMatch[4], 10) : 1,
+        context: hunkMatch[5],
+        lines: []
+      };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (hunk) {
+      if (/^[ +\-\\]/.test(line)) {
+        hunk.lines.push(line);
+      }
+      continue;
+    }
+
+    file.header.push(line);
+    if (line.startsWith('new file mode')) file.isNew = true;
+    if (line.startsWith('deleted file mode')) file.isDeleted = true;
+    if (line.startsWith('Binary files') || line === 'GIT binary patch') file.isBinary = true;
+  }
+
+  return files;
+}
+
+export function formatHunkHeader(hunk: PatchHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@${hunk.context}`;
+}
+
+/**
+ * Recompute a hunk's line counts from its body (after editing)
+ */
+export function recountHunk(hunk: PatchHunk): PatchHunk {
+  let oldLines = 0;
+  let newLines = 0;
+  for (const line of hunk.lines) {
+    if (line.startsWith(' ')) {
+      oldLines++;
+      newLines++;
+    } else if (line.startsWith('-')) {
+      oldLines++;
+    } else if (line.startsWith('+')) {
+      newLines++;
+    }
+  }
+  return { ...hunk, oldLines, newLines };
+}
+
+/**
+ * Patch containing only the given hunks of each file. New-side line numbers are shifted
+ * to account for hunks left out, so the result applies to the original files.
+ */
+export function buildPatch(selection: Array<{ file: PatchFile; hunks: PatchHunk[] }>): string {
+  const parts: string[] = [];
+
+  for (const { file, hunks } of selection) {
+    // Files without hunks (binary, mode-only, renames) are passed through as a whole
+    if (hunks.length === 0 && file.hunks.length > 0) {
+      continue;
+    }
+
+    parts.push(...file.header);
+    let offset = 0;
+    for (const hunk of [...hunks].sort((a, b) => a.oldStart - b.oldStart)) {
+      // Pure insertions start after oldStart, pure deletions end before it
+      let newStart = hunk.oldStart + offset;
+      if (hunk.oldLines === 0) newStart++;
+      if (hunk.newLines === 0) newStart--;
+      parts.push(formatHunkHeader({ ...hunk, newStart }), ...hunk.lines);
+      offset += hunk.newLines - hunk.oldLines;
+    }
+  }
+
+  return parts.length > 0 ? parts.join('\n') + '\n' : '';
+}